@@ -0,0 +1,153 @@
+import { useEffect, useId, useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ACTION_CONTRACTS,
+  argumentPlaceholder,
+  encodeActionCall,
+  getActionContract,
+  writableFunctions,
+  type ActionContractId
+} from "@shared/contractActions";
+import { useActionContracts } from "@/hooks/useActionContracts";
+
+// The call an action composer currently describes; target and calldata are null until it is valid
+export interface ComposedAction {
+  contractId: ActionContractId;
+  signature: string;          // e.g. "mint(address,uint256)"
+  target: string | null;
+  calldata: string | null;
+}
+
+interface ActionComposerProps {
+  networkId?: string;         // Network whose deployment the action targets, the hub by default
+  onChange: (action: ComposedAction) => void;
+  showErrors?: boolean;       // Show errors on arguments left empty, e.g. after a submit attempt
+}
+
+function defaultArgument(type: string): string {
+  return type === "bool" ? "false" : "";
+}
+
+export default function ActionComposer({ networkId: targetNetworkId, onChange, showErrors = false }: ActionComposerProps) {
+  const { networkId, addresses, isLoading } = useActionContracts(targetNetworkId);
+  const idPrefix = useId();  // Several composers can share a page
+
+  const [contractId, setContractId] = useState<ActionContractId>(ACTION_CONTRACTS[0].id);
+  const functions = useMemo(() => writableFunctions(getActionContract(contractId)), [contractId]);
+  const [signature, setSignature] = useState(() => functions[0].format());
+  const [args, setArgs] = useState<string[]>(() => functions[0].inputs.map(param => defaultArgument(param.type)));
+
+  const fragment = functions.find(f => f.format() === signature) ?? functions[0];
+  const target = addresses[contractId] ?? null;
+  const encoded = useMemo(() => encodeActionCall(fragment, args), [fragment, args]);
+
+  useEffect(() => {
+    onChange({ contractId, signature: fragment.format(), target, calldata: encoded.calldata });
+  }, [contractId, fragment, target, encoded.calldata]);
+
+  const selectFunction = (nextSignature: string, available = functions) => {
+    const next = available.find(f => f.format() === nextSignature) ?? available[0];
+    setSignature(next.format());
+    setArgs(next.inputs.map(param => defaultArgument(param.type)));
+  };
+
+  const selectContract = (nextId: ActionContractId) => {
+    const available = writableFunctions(getActionContract(nextId));
+    setContractId(nextId);
+    selectFunction(available[0].format(), available);
+  };
+
+  const setArgument = (index: number, value: string) => {
+    setArgs(current => current.map((arg, i) => (i === index ? value : arg)));
+  };
+
+  return (
+    <div className="space-y-4 rounded-md border p-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Contract</Label>
+          <Select value={contractId} onValueChange={(value) => selectContract(value as ActionContractId)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select contract" />
+            </SelectTrigger>
+            <SelectContent>
+              {ACTION_CONTRACTS.map(contract => (
+                <SelectItem key={contract.id} value={contract.id}>
+                  {contract.name}{!isLoading && !addresses[contract.id] && " (not deployed)"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Function</Label>
+          <Select value={fragment.format()} onValueChange={(value) => selectFunction(value)}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select function" />
+            </SelectTrigger>
+            <SelectContent>
+              {functions.map(f => (
+                <SelectItem key={f.format()} value={f.format()}>
+                  {f.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {getActionContract(contractId).description}
+        {target
+          ? <> · <span className="font-['Roboto_Mono']">{target}</span> on {networkId}</>
+          : !isLoading && <span className="text-red-500"> · Not deployed on {networkId}</span>}
+      </p>
+
+      {fragment.inputs.map((param, index) => {
+        const id = `${idPrefix}-arg-${index}`;
+        const error = encoded.errors[index];
+        const showError = error && (showErrors || args[index].trim() !== "");
+
+        return (
+          <div key={`${fragment.format()}-${index}`} className="space-y-2">
+            <Label htmlFor={id}>
+              {param.name || `Argument ${index + 1}`} <span className="text-muted-foreground font-normal">({param.type})</span>
+            </Label>
+            {param.type === "bool" ? (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id={id}
+                  checked={args[index] === "true"}
+                  onCheckedChange={(checked) => setArgument(index, String(checked))}
+                />
+                <span className="text-sm">{args[index]}</span>
+              </div>
+            ) : (
+              <Input
+                id={id}
+                placeholder={argumentPlaceholder(param)}
+                value={args[index]}
+                onChange={(e) => setArgument(index, e.target.value)}
+              />
+            )}
+            {param.baseType === "array" && (
+              <p className="text-xs text-muted-foreground">Separate values with commas</p>
+            )}
+            {showError && <p className="text-sm font-medium text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+
+      {encoded.calldata && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Encoded calldata</p>
+          <p className="text-xs font-['Roboto_Mono'] break-all bg-muted rounded p-2">{encoded.calldata}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { decodeCalldata } from "@/lib/calldataDecoder";
+import { useActionContracts } from "@/hooks/useActionContracts";
+
+interface CalldataSummaryProps {
+  calldata: string;
+  target?: string;
+  networkId?: string;   // Network whose deployment names the target, the hub by default
+}
+
+// One-line, human-readable form of an action's calldata; the raw bytes stay in the tooltip
+export default function CalldataSummary({ calldata, target, networkId }: CalldataSummaryProps) {
+  const { addresses } = useActionContracts(networkId);
+  const decoded = useMemo(() => decodeCalldata(calldata, { target, addresses }), [calldata, target, addresses]);
+
+  return (
+    <span
+      className={`font-['Roboto_Mono'] text-xs break-all ${decoded.kind === "raw" ? "text-muted-foreground" : ""}`}
+      title={decoded.kind === "raw" ? undefined : calldata}
+    >
+      {decoded.summary}
+    </span>
+  );
+}
@@ -20,6 +20,7 @@ import { TransactionStatus } from '@/types/transaction';
 import TransactionErrorHandler from './TransactionErrorHandler';
 import { ErrorType } from '@/types/error';
 import contractService from '@/services/contractService';
+import { estimateCrossChainFee } from '@/services/layerzero';
 
 interface EnhancedTokenActionsProps {
   openWalletModal: () => void;
@@ -70,6 +71,7 @@ export default function EnhancedTokenActions({ openWalletModal }: EnhancedTokenA
     createTransaction,
     transaction,
     transactionError: error,
+    statusHistory,
     resetTransaction,
     retryTransaction
   } = useLayerZeroTransaction({
@@ -115,6 +117,7 @@ export default function EnhancedTokenActions({ openWalletModal }: EnhancedTokenA
         type: "token_bridge",
         sourceChain: currentNetwork?.id || "",
         sourceTxHash: txResponse.hash,
+        walletAddress: address || "",
         status: "pending"
       });
 
@@ -151,22 +154,9 @@ export default function EnhancedTokenActions({ openWalletModal }: EnhancedTokenA
     }
 
     try {
-      // Calculate the estimated fee (simulate the backend fee estimation)
-      const baseFeeLz = 0.001; // ETH
-      let calculatedFee;
-      
-      if (sourceBridgeNetwork.isHub && !targetBridgeNetwork.isHub) {
-        // Hub to satellite is cheaper
-        calculatedFee = baseFeeLz * Number(data.amount) * 0.0001;
-      } else if (!sourceBridgeNetwork.isHub && targetBridgeNetwork.isHub) {
-        // Satellite to hub has standard fee
-        calculatedFee = baseFeeLz * Number(data.amount) * 0.0002;
-      } else {
-        // Satellite to satellite has higher fee (would use lzCompose)
-        calculatedFee = baseFeeLz * Number(data.amount) * 0.0003;
-      }
-      
-      setEstimatedFee(calculatedFee.toFixed(6));
+      // Quote the LayerZero fee for this pathway from the deployed contracts
+      const fee = await estimateCrossChainFee(sourceBridgeNetwork, targetBridgeNetwork, data.amount, address || '');
+      setEstimatedFee(fee.nativeFee.toFixed(6));
 
       // Simulate a bridge transaction
       const txResponse = await contractService.bridgeToken(
@@ -181,6 +171,7 @@ export default function EnhancedTokenActions({ openWalletModal }: EnhancedTokenA
         sourceChain: sourceBridgeNetwork.id,
         destinationChain: targetBridgeNetwork.id,
         sourceTxHash: txResponse.hash,
+        walletAddress: address || "",
         status: "pending"
       });
       
@@ -385,10 +376,12 @@ export default function EnhancedTokenActions({ openWalletModal }: EnhancedTokenA
         title="Transaction in Progress"
         description="Your transaction is being processed across chains"
         sourceChain={sourceBridgeNetwork?.name || currentNetwork?.name || "Unknown"}
+        sourceNetworkId={sourceBridgeNetwork?.id}
         destinationChain={targetBridgeNetwork?.name}
         sourceTxHash={transactionHash}
         status={transactionStatus}
         error={error}
+        history={statusHistory}
         onRetry={() => transaction?.id && retryTransaction(transaction.id)}
       />
     </>
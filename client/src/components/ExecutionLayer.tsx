@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
@@ -10,6 +11,9 @@ import { useGovernance } from "@/hooks/useGovernance";
 import { useWallet } from "@/hooks/useWallet";
 import { useNetwork } from "@/hooks/useNetwork";
 import { AVAILABLE_NETWORKS } from "@/lib/constants";
+import { apiQuery } from "@/lib/api";
+import ProposalSimulationReport from "@/components/ProposalSimulationReport";
+import ProposalCalls from "@/components/ProposalCalls";
 
 interface ProposalExecutionProps {
   proposalId: string;
@@ -30,7 +34,20 @@ export default function ExecutionLayer({ proposalId, proposalTitle }: ProposalEx
   const { isConnected, openWalletModal } = useWallet();
   const { currentNetwork } = useNetwork();
   
-  const [activeTab, setActiveTab] = useState<"status" | "logs" | "compose">("status");
+  const [activeTab, setActiveTab] = useState<"status" | "logs" | "compose" | "simulation">("status");
+  
+  // The stored proposal, for its actions
+  const proposal = useQuery({
+    ...apiQuery.proposals.get({ params: { proposalId } }),
+    retry: false
+  });
+
+  // Dry run of the stored actions, fetched when the tab is first opened
+  const simulation = useQuery({
+    ...apiQuery.proposals.simulation({ params: { proposalId } }),
+    enabled: activeTab === "simulation",
+    retry: false
+  });
   const [executionDetails, setExecutionDetails] = useState<{
     isQueued: boolean;
     canExecute: boolean;
@@ -183,11 +200,12 @@ export default function ExecutionLayer({ proposalId, proposalTitle }: ProposalEx
         </div>
       </CardHeader>
       <CardContent className="space-y-6">
-        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "status" | "logs" | "compose")}>
-          <TabsList className="grid w-full grid-cols-3 mb-6">
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "status" | "logs" | "compose" | "simulation")}>
+          <TabsList className="grid w-full grid-cols-4 mb-6">
             <TabsTrigger value="status">Execution Status</TabsTrigger>
             <TabsTrigger value="logs">Execution Logs</TabsTrigger>
             <TabsTrigger value="compose">lzCompose</TabsTrigger>
+            <TabsTrigger value="simulation">Simulation</TabsTrigger>
           </TabsList>
           
           <TabsContent value="status">
@@ -212,6 +230,17 @@ export default function ExecutionLayer({ proposalId, proposalTitle }: ProposalEx
                 </Alert>
               )}
               
+              {proposal.data && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-medium">Actions</h3>
+                  <ProposalCalls
+                    targets={proposal.data.targets}
+                    calldatas={proposal.data.calldatas}
+                    networkId={proposal.data.chain}
+                  />
+                </div>
+              )}
+              
               <div className="space-y-2">
                 <h3 className="text-lg font-medium">Execution Status by Chain</h3>
                 <div className="space-y-3">
@@ -350,6 +379,25 @@ export default function ExecutionLayer({ proposalId, proposalTitle }: ProposalEx
               </div>
             </div>
           </TabsContent>
+          
+          <TabsContent value="simulation">
+            {simulation.isLoading ? (
+              <p className="text-sm text-gray-500">Simulating proposal actions...</p>
+            ) : simulation.error ? (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Simulation Unavailable</AlertTitle>
+                <AlertDescription>{simulation.error.message}</AlertDescription>
+              </Alert>
+            ) : simulation.data && (
+              <div className="space-y-4">
+                <ProposalSimulationReport simulation={simulation.data} />
+                <Button variant="outline" size="sm" onClick={() => simulation.refetch()} disabled={simulation.isFetching}>
+                  {simulation.isFetching ? "Simulating..." : "Simulate Again"}
+                </Button>
+              </div>
+            )}
+          </TabsContent>
         </Tabs>
       </CardContent>
       <CardFooter className="flex justify-between space-x-4">
@@ -8,6 +8,7 @@ import { useToast } from '@/hooks/use-toast';
 import { useGovernance } from '@/hooks/useGovernance';
 import { useWallet } from '@/hooks/useWallet';
 import type { ProposalDetails } from '@/services/governance';
+import ProposalCalls from '@/components/ProposalCalls';
 
 export default function GovernanceOverview() {
   const { toast } = useToast();
@@ -183,6 +184,10 @@ export default function GovernanceOverview() {
                 </Badge>
               </div>
               
+              {proposal.targets.length > 0 && (
+                <ProposalCalls targets={proposal.targets} calldatas={proposal.calldatas} />
+              )}
+              
               <div className="space-y-1">
                 <div className="flex justify-between text-sm">
                   <span>For</span>
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
@@ -7,9 +7,12 @@ import { Slider } from '@/components/ui/slider';
 import { Checkbox } from '@/components/ui/checkbox';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useNetwork } from '@/hooks/useNetwork';
-import { useToast } from '@/hooks/use-toast';
+import { useDVNConfig } from '@/hooks/useDVNConfig';
+import { scoreDvnSettings } from '@shared/dvn';
+import { securityRating } from '@shared/securityScore';
 import { Progress } from '@/components/ui/progress';
-import { LucideAlertTriangle, LucideCheckCircle, LucideSettings, LucideShieldCheck, LucideWifi } from 'lucide-react';
+import { LucideAlertTriangle, LucideCheckCircle, LucideFileText, LucideKeyRound, LucideSettings, LucideShieldCheck, LucideWifi } from 'lucide-react';
+import type { DvnAdminAccess } from '@shared/dvn';
 
 const DVN_OPTIONS = [
   {
@@ -32,17 +35,38 @@ const DVN_OPTIONS = [
   }
 ];
 
+const shortenAddress = (value: string) =>
+  /^0x[a-fA-F0-9]{40}$/.test(value) ? `${value.slice(0, 6)}...${value.slice(-4)}` : value;
+
+const ADMIN_ROLE_LABELS: Record<NonNullable<DvnAdminAccess['role']>, string> = {
+  owner: 'DVNConfigManager owner',
+  timelockProposer: 'timelock proposer'
+};
+
 export default function LayerZeroDVNConfig() {
   const { currentNetwork } = useNetwork();
-  const { toast } = useToast();
   
-  // State for DVN configuration
-  const [securityLevel, setSecurityLevel] = useState(2); // 1-4
-  const [selectedDVNs, setSelectedDVNs] = useState<string[]>(['default']);
-  const [trustedEndpointMode, setTrustedEndpointMode] = useState(false);
-  const [multiSignatureVerification, setMultiSignatureVerification] = useState(false);
-  const [securityScore, setSecurityScore] = useState(65);
-  const [isConfiguring, setIsConfiguring] = useState(false);
+  // Saved DVN configuration for the current network and the draft being edited
+  const {
+    currentConfig,
+    isLoading: isConfiguring,
+    selectedSecurityLevel: securityLevel,
+    setSelectedSecurityLevel: setSecurityLevel,
+    selectedDVNs,
+    setSelectedDVNs,
+    trustedEndpointMode,
+    setTrustedEndpointMode,
+    multiSignatureVerification,
+    setMultiSignatureVerification,
+    applySecuritySettings,
+    isAuthenticated,
+    access,
+    isLoadingAccess,
+    accessError
+  } = useDVNConfig();
+  const securityScore = currentConfig?.securityScore ?? 0;
+  const lastChangedBy = currentConfig?.updatedBy;
+  const isAdmin = access?.mode === 'admin';
   
   // Handle DVN selection change
   const handleDVNChange = (dvnId: string, checked: boolean) => {
@@ -55,52 +79,30 @@ export default function LayerZeroDVNConfig() {
   
   // Apply security configuration
   const applyConfiguration = () => {
-    setIsConfiguring(true);
-    
-    // Calculate new security score based on settings
-    let score = 0;
-    
-    // Base score from security level
-    score += securityLevel * 15;
-    
-    // Score from DVNs
-    if (selectedDVNs.includes('default')) score += 25;
-    if (selectedDVNs.includes('ultra')) score += 35;
-    if (selectedDVNs.includes('lite')) score += 15;
-    
-    // Additional features
-    if (trustedEndpointMode) score += 15;
-    if (multiSignatureVerification) score += 20;
-    
-    // Cap at 100
-    score = Math.min(score, 100);
-    
-    // Simulate API call to update configuration
-    setTimeout(() => {
-      setSecurityScore(score);
-      setIsConfiguring(false);
-      
-      toast({
-        title: "Security Configuration Updated",
-        description: `DVN settings applied with a security score of ${score}/100.`,
-        duration: 5000,
-      });
-    }, 2000);
+    applySecuritySettings();
   };
   
-  // Get security level text based on score
+  // Score of the draft as DVNConfigManager would compute it once applied
+  const draftScore = scoreDvnSettings({
+    securityLevel,
+    enabledDvns: selectedDVNs,
+    trustedEndpointMode,
+    multiSignatureVerification
+  });
+  
+  // Colors follow the shared Low / Medium / High rating
   const getSecurityLevelText = (score: number) => {
-    if (score >= 80) return { text: "Very High", color: "text-green-500" };
-    if (score >= 60) return { text: "High", color: "text-green-400" };
-    if (score >= 40) return { text: "Medium", color: "text-yellow-500" };
-    return { text: "Low", color: "text-red-500" };
+    const rating = securityRating(score);
+    if (rating === "High") return { text: rating, color: "text-green-500" };
+    if (rating === "Medium") return { text: rating, color: "text-yellow-500" };
+    return { text: rating, color: "text-red-500" };
   };
   
   // Get progress bar color based on score
   const getProgressColor = (score: number) => {
-    if (score >= 80) return "bg-green-500";
-    if (score >= 60) return "bg-green-400";
-    if (score >= 40) return "bg-yellow-500";
+    const rating = securityRating(score);
+    if (rating === "High") return "bg-green-500";
+    if (rating === "Medium") return "bg-yellow-500";
     return "bg-red-500";
   };
 
@@ -145,6 +147,9 @@ export default function LayerZeroDVNConfig() {
             {/* DVN Selection */}
             <div className="space-y-4">
               <Label>Select Data Verification Networks</Label>
+              <p className="text-xs text-muted-foreground">
+                Each DVN's signature count is shared by every pathway and is not changed here.
+              </p>
               
               <div className="space-y-3">
                 {DVN_OPTIONS.map((dvn) => (
@@ -218,13 +223,49 @@ export default function LayerZeroDVNConfig() {
             </div>
           </CardContent>
           
-          <CardFooter className="pt-6">
+          <CardFooter className="pt-6 flex-col items-stretch gap-3">
+            {/* Which mode applies: direct changes for admins, draft proposals for everyone else */}
+            <div className="flex items-start gap-2 text-sm rounded-md border border-border p-3">
+              {!isAuthenticated ? (
+                <>
+                  <LucideAlertTriangle className="w-4 h-4 mt-0.5 text-yellow-500 shrink-0" />
+                  <span className="text-muted-foreground">Connect and sign in with your wallet to change DVN settings.</span>
+                </>
+              ) : isLoadingAccess ? (
+                <span className="text-muted-foreground">Checking your DVN admin rights...</span>
+              ) : accessError ? (
+                <>
+                  <LucideAlertTriangle className="w-4 h-4 mt-0.5 text-red-500 shrink-0" />
+                  <span className="text-muted-foreground">Could not check admin rights on {currentNetwork?.name}: {accessError.message}</span>
+                </>
+              ) : isAdmin && access?.role ? (
+                <>
+                  <LucideKeyRound className="w-4 h-4 mt-0.5 text-green-500 shrink-0" />
+                  <span>
+                    <span className="font-medium">Admin mode.</span>{' '}
+                    <span className="text-muted-foreground">As {ADMIN_ROLE_LABELS[access.role]} your changes apply directly.</span>
+                  </span>
+                </>
+              ) : (
+                <>
+                  <LucideFileText className="w-4 h-4 mt-0.5 text-primary shrink-0" />
+                  <span>
+                    <span className="font-medium">Proposal mode.</span>{' '}
+                    <span className="text-muted-foreground">
+                      Only {access ? shortenAddress(access.owner) : 'the DVNConfigManager owner'} or a timelock proposer can change these settings directly, so yours are submitted as a draft governance proposal.
+                    </span>
+                  </span>
+                </>
+              )}
+            </div>
             <Button 
               onClick={applyConfiguration} 
-              disabled={isConfiguring || selectedDVNs.length === 0}
+              disabled={isConfiguring || selectedDVNs.length === 0 || !isAuthenticated || isLoadingAccess}
               className="w-full"
             >
-              {isConfiguring ? "Applying Configuration..." : "Apply Security Configuration"}
+              {isAdmin
+                ? (isConfiguring ? "Applying Configuration..." : "Apply Security Configuration")
+                : (isConfiguring ? "Submitting Proposal..." : "Submit as Proposal")}
             </Button>
           </CardFooter>
         </Card>
@@ -262,6 +303,31 @@ export default function LayerZeroDVNConfig() {
               </div>
             </div>
             
+            {/* Why the saved configuration scores what it does */}
+            <div className="space-y-2">
+              <Label>Score Breakdown</Label>
+              <div className="space-y-1 mt-1">
+                {(currentConfig?.scoreComponents || []).map(component => (
+                  <div key={component.key} className="flex justify-between text-sm">
+                    <span className="text-muted-foreground" title={component.detail}>{component.label}</span>
+                    <span className="font-['Roboto_Mono']">{component.points > 0 ? '+' : ''}{component.points}</span>
+                  </div>
+                ))}
+              </div>
+              {currentConfig && draftScore.score !== securityScore && (
+                <p className="text-xs text-muted-foreground">
+                  Applying your changes would score {draftScore.score} ({draftScore.rating}), with each DVN's registered signature count.
+                </p>
+              )}
+            </div>
+            
+            {/* Who saved the configuration last */}
+            <div className="text-xs text-muted-foreground">
+              {currentConfig?.saved && currentConfig.updatedAt
+                ? `Last changed ${new Date(currentConfig.updatedAt).toLocaleString()}${lastChangedBy ? ` by ${shortenAddress(lastChangedBy)}` : ''}`
+                : 'Using the default configuration'}
+            </div>
+            
             {/* Active DVNs */}
             <div className="space-y-2">
               <Label>Active DVNs</Label>
@@ -2,6 +2,7 @@ import { Button } from "@/components/ui/button";
 import { Network } from "@/types/token";
 import { useToast } from "@/hooks/use-toast";
 import { AVAILABLE_NETWORKS } from "@/lib/constants";
+import { requireNetwork, toAddEthereumChainParams } from "@shared/networks";
 
 interface NetworkAddButtonProps {
   networkId?: string;
@@ -43,27 +44,7 @@ export default function NetworkAddButton({
       // Add the network to wallet
       await window.ethereum.request({
         method: 'wallet_addEthereumChain',
-        params: [
-          {
-            chainId: `0x${network.chainId.toString(16)}`,
-            chainName: network.name,
-            nativeCurrency: {
-              name: network.id === 'sepolia' ? 'Sepolia Ether' : 'Amoy MATIC',
-              symbol: network.id === 'sepolia' ? 'ETH' : 'MATIC',
-              decimals: 18,
-            },
-            rpcUrls: [
-              network.id === 'sepolia' 
-                ? 'https://rpc.sepolia.org' 
-                : 'https://rpc-amoy.polygon.technology'
-            ],
-            blockExplorerUrls: [
-              network.id === 'sepolia'
-                ? 'https://sepolia.etherscan.io/'
-                : 'https://www.oklink.com/amoy'
-            ],
-          },
-        ],
+        params: [toAddEthereumChainParams(requireNetwork(network.id))],
       });
       
       toast({
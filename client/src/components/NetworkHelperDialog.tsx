@@ -1,6 +1,7 @@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { AVAILABLE_NETWORKS } from "@/lib/constants";
+import { requireNetwork, toAddEthereumChainParams } from "@shared/networks";
 import { useToast } from "@/hooks/use-toast";
 import { Network } from "@/types/token";
 
@@ -30,27 +31,7 @@ export default function NetworkHelperDialog({
       // Add the network to wallet
       await window.ethereum.request({
         method: 'wallet_addEthereumChain',
-        params: [
-          {
-            chainId: `0x${network.chainId.toString(16)}`,
-            chainName: network.name,
-            nativeCurrency: {
-              name: network.id === 'sepolia' ? 'Sepolia Ether' : 'Amoy MATIC',
-              symbol: network.id === 'sepolia' ? 'ETH' : 'MATIC',
-              decimals: 18,
-            },
-            rpcUrls: [
-              network.id === 'sepolia' 
-                ? 'https://rpc.sepolia.org' 
-                : 'https://rpc-amoy.polygon.technology'
-            ],
-            blockExplorerUrls: [
-              network.id === 'sepolia'
-                ? 'https://sepolia.etherscan.io/'
-                : 'https://www.oklink.com/amoy'
-            ],
-          },
-        ],
+        params: [toAddEthereumChainParams(requireNetwork(network.id))],
       });
       
       toast({
@@ -1,6 +1,16 @@
 
 import { useNetworkData } from "@/hooks/useNetworkData";
 
+const STATUS_STYLES: Record<string, { dot: string; badge: string }> = {
+  active: { dot: "bg-green-500", badge: "lz-badge-green" },
+  degraded: { dot: "bg-yellow-500", badge: "lz-badge-yellow" },
+  inactive: { dot: "bg-red-500", badge: "lz-badge-red" }
+};
+
+function formatGasPrice(gwei?: string) {
+  return gwei ? parseFloat(gwei).toFixed(2) : '--';
+}
+
 export default function NetworkStatus() {
   const { enhancedNetworks } = useNetworkData();
   
@@ -14,16 +24,12 @@ export default function NetworkStatus() {
             <div className="flex items-center justify-between mb-2">
               <div className="flex items-center">
                 <div className={`w-2 h-2 rounded-full ${
-                  network.status === "active" 
-                    ? "bg-green-500" 
-                    : "bg-yellow-500"
+                  (STATUS_STYLES[network.status || "active"] || STATUS_STYLES.active).dot
                 } mr-2 network-active`}></div>
                 <h3 className="font-['Roboto']">{network.name}</h3>
               </div>
               <span className={`lz-badge ${
-                network.status === "active" 
-                  ? "lz-badge-green" 
-                  : "lz-badge-yellow"
+                (STATUS_STYLES[network.status || "active"] || STATUS_STYLES.active).badge
               }`}>
                 {network.status}
               </span>
@@ -34,13 +40,22 @@ export default function NetworkStatus() {
                 <span className="secondary-text">Latency</span>
                 <span className="font-['Roboto_Mono']">{network.latency || '--'}ms</span>
               </div>
+              <div className="flex justify-between text-sm">
+                <span className="secondary-text">Latest Block</span>
+                <span className="font-['Roboto_Mono']">
+                  {network.blockNumber ?? '--'}
+                  {network.blockAge !== undefined && network.blockAge !== null && (
+                    <span className="secondary-text"> ({network.blockAge}s ago)</span>
+                  )}
+                </span>
+              </div>
               <div className="flex justify-between text-sm">
                 <span className="secondary-text">Gas Price</span>
-                <span className="font-['Roboto_Mono']">{network.gasPrice || '--'} Gwei</span>
+                <span className="font-['Roboto_Mono']">{formatGasPrice(network.gasPrice)} Gwei</span>
               </div>
               <div className="flex justify-between text-sm">
                 <span className="secondary-text">Tx Count</span>
-                <span className="font-['Roboto_Mono']">{network.txCount || '--'}</span>
+                <span className="font-['Roboto_Mono']">{network.txCount ?? '--'}</span>
               </div>
             </div>
           </div>
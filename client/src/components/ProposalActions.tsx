@@ -0,0 +1,210 @@
+import type { Dispatch, SetStateAction } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { getNetworkById } from "@shared/networks";
+import { getActionContract } from "@shared/contractActions";
+import ActionComposer, { type ComposedAction } from "@/components/ActionComposer";
+import CalldataSummary from "@/components/CalldataSummary";
+import { HUB_NETWORK_ID } from "@/hooks/useActionContracts";
+
+// One action of a proposal as it is being edited. Actions are composed against
+// the hub's deployment; the executor runs every action on each configured chain.
+export interface ProposalActionDraft {
+  id: number;                       // Stable key while actions are reordered
+  customCall: boolean;              // Raw target and calldata instead of the composer
+  targetAddress: string;            // Custom calls only
+  calldata: string;                 // Custom calls only
+  composed: ComposedAction | null;  // Latest output of the action composer
+}
+
+// An action ready to submit
+export interface ProposalAction {
+  target: string;
+  calldata: string;
+}
+
+let nextActionId = 1;
+
+export function newProposalAction(): ProposalActionDraft {
+  return {
+    id: nextActionId++,
+    customCall: false,
+    targetAddress: "",
+    calldata: "0x",
+    composed: null
+  };
+}
+
+// The problems that keep an action from being submitted, in the order they appear in the editor
+export function proposalActionErrors(draft: ProposalActionDraft): string[] {
+  const errors: string[] = [];
+
+  if (draft.customCall) {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(draft.targetAddress)) errors.push("Invalid Ethereum address format");
+    if (!/^0x([a-fA-F0-9]{2})*$/.test(draft.calldata)) errors.push("Call data must be 0x-prefixed hex bytes");
+  } else if (draft.composed && !draft.composed.target) {
+    errors.push(`${getActionContract(draft.composed.contractId).name} is not deployed on ${getNetworkById(HUB_NETWORK_ID)?.name ?? HUB_NETWORK_ID}`);
+  } else if (!draft.composed?.calldata) {
+    errors.push("Fill in every argument of the call");
+  }
+  return errors;
+}
+
+// The submittable action, or null while the draft has errors
+export function toProposalAction(draft: ProposalActionDraft): ProposalAction | null {
+  if (proposalActionErrors(draft).length > 0) return null;
+
+  return {
+    target: draft.customCall ? draft.targetAddress : draft.composed!.target!,
+    calldata: draft.customCall ? draft.calldata : draft.composed!.calldata!
+  };
+}
+
+function describeCall(draft: ProposalActionDraft): string {
+  if (draft.customCall) return "Custom call";
+  if (!draft.composed) return "—";
+  return `${getActionContract(draft.composed.contractId).name}.${draft.composed.signature}`;
+}
+
+function shorten(hex: string, length = 10): string {
+  return hex.length > length * 2 ? `${hex.slice(0, length)}…${hex.slice(-4)}` : hex;
+}
+
+interface ProposalActionsProps {
+  actions: ProposalActionDraft[];
+  onChange: Dispatch<SetStateAction<ProposalActionDraft[]>>;
+  showErrors?: boolean;
+}
+
+/**
+ * Ordered list of the calls a proposal makes, each built with the action
+ * composer against the hub's deployment or entered as a custom call; the
+ * summary lists every call in execution order.
+ */
+export default function ProposalActions({ actions, onChange, showErrors = false }: ProposalActionsProps) {
+  const update = (id: number, changes: Partial<ProposalActionDraft>) => {
+    onChange(current => current.map(action => (action.id === id ? { ...action, ...changes } : action)));
+  };
+
+  const move = (index: number, offset: number) => {
+    onChange(current => {
+      const next = [...current];
+      const [moved] = next.splice(index, 1);
+      next.splice(index + offset, 0, moved);
+      return next;
+    });
+  };
+
+  const remove = (id: number) => {
+    onChange(current => current.filter(action => action.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {actions.map((action, index) => {
+        const errors = showErrors ? proposalActionErrors(action) : [];
+
+        return (
+          <div key={action.id} className="space-y-4 rounded-md border p-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm font-medium">Action {index + 1}</p>
+              <div className="flex items-center gap-1">
+                <Button type="button" variant="ghost" size="icon" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move action up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" disabled={index === actions.length - 1} onClick={() => move(index, 1)} aria-label="Move action down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" disabled={actions.length === 1} onClick={() => remove(action.id)} aria-label="Remove action">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update(action.id, { customCall: !action.customCall })}
+              >
+                {action.customCall ? "Use Action Builder" : "Enter Custom Call"}
+              </Button>
+            </div>
+
+            {action.customCall ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`action-${action.id}-target`}>Target Contract Address</Label>
+                  <Input
+                    id={`action-${action.id}-target`}
+                    placeholder="0x..."
+                    value={action.targetAddress}
+                    onChange={(e) => update(action.id, { targetAddress: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`action-${action.id}-calldata`}>Call Data (hex)</Label>
+                  <Input
+                    id={`action-${action.id}-calldata`}
+                    placeholder="0x..."
+                    value={action.calldata}
+                    onChange={(e) => update(action.id, { calldata: e.target.value })}
+                  />
+                </div>
+              </div>
+            ) : (
+              <ActionComposer
+                onChange={(composed) => update(action.id, { composed })}
+                showErrors={showErrors}
+              />
+            )}
+
+            {errors.map(error => (
+              <p key={error} className="text-sm font-medium text-destructive">{error}</p>
+            ))}
+          </div>
+        );
+      })}
+
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange(current => [...current, newProposalAction()])}>
+        <Plus className="mr-1 h-4 w-4" /> Add Action
+      </Button>
+
+      {/* Every call the proposal makes, in execution order */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Summary</p>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Call</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>Calldata</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {actions.map((action, index) => {
+              const resolved = toProposalAction(action);
+              return (
+                <TableRow key={action.id}>
+                  <TableCell>{index + 1}</TableCell>
+                  <TableCell className="font-['Roboto_Mono'] text-xs">{describeCall(action)}</TableCell>
+                  <TableCell className="font-['Roboto_Mono'] text-xs">{resolved ? shorten(resolved.target, 8) : "—"}</TableCell>
+                  <TableCell>
+                    {resolved
+                      ? <CalldataSummary calldata={resolved.calldata} target={resolved.target} />
+                      : <span className="text-destructive">Incomplete</span>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import CalldataSummary from "@/components/CalldataSummary";
+
+interface ProposalCallsProps {
+  targets: string[];
+  calldatas: string[];
+  networkId?: string;   // Chain the proposal was created on, the hub by default
+}
+
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+// The calls of a submitted proposal, decoded one per line
+export default function ProposalCalls({ targets, calldatas, networkId }: ProposalCallsProps) {
+  if (targets.length === 0) {
+    return <p className="text-sm text-muted-foreground">No actions</p>;
+  }
+
+  return (
+    <ol className="space-y-2">
+      {targets.map((target, i) => (
+        <li key={i} className="flex gap-2 border rounded-md p-2 text-sm">
+          <span className="text-muted-foreground">{i + 1}.</span>
+          <div className="min-w-0 space-y-1">
+            <p className="text-xs text-muted-foreground font-['Roboto_Mono']">{shortenAddress(target)}</p>
+            <CalldataSummary calldata={calldatas[i] ?? "0x"} target={target} networkId={networkId} />
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+}
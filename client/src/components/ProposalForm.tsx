@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { z } from "zod";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -10,40 +11,80 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { useGovernance } from "@/hooks/useGovernance";
 import { useWallet } from "@/hooks/useWallet";
+import { apiClient } from "@/lib/api";
+import ProposalActions, { newProposalAction, toProposalAction, type ProposalAction, type ProposalActionDraft } from "@/components/ProposalActions";
+import ProposalSimulationReport from "@/components/ProposalSimulationReport";
 
-// Form schema for proposal creation
+// Form schema for proposal creation; the actions are validated by ProposalActions
 const proposalSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters").max(100, "Title must be less than 100 characters"),
-  description: z.string().min(20, "Description must be at least 20 characters"),
-  targetAddress: z.string().refine(val => /^0x[a-fA-F0-9]{40}$/.test(val), {
-    message: "Invalid Ethereum address format"
-  }),
-  value: z.string().refine(val => !isNaN(parseFloat(val)) && parseFloat(val) >= 0, {
-    message: "Value must be a non-negative number"
-  }),
-  calldata: z.string().default("0x")
+  description: z.string().min(20, "Description must be at least 20 characters")
 });
 
 type ProposalFormValues = z.infer<typeof proposalSchema>;
 
 export default function ProposalForm() {
   const { toast } = useToast();
-  const { proposeAction, loading, error } = useGovernance();
+  const { createProposal, isLoading } = useGovernance();
   const { isConnected, openWalletModal } = useWallet();
-  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [actions, setActions] = useState<ProposalActionDraft[]>(() => [newProposalAction()]);
+  const [showActionErrors, setShowActionErrors] = useState(false);
+  
+  // Dry run of the actions from the hub's timelock, so reverts show up before anyone votes
+  const simulation = useMutation({
+    mutationFn: (ready: ProposalAction[]) => apiClient.proposals.simulate({
+      body: {
+        actions: ready.map(action => ({
+          target: action.target,
+          value: "0",
+          calldata: action.calldata
+        }))
+      }
+    }),
+    onError: (err: any) => {
+      toast({
+        title: "Simulation Failed",
+        description: err.message || "Failed to simulate the proposal actions",
+        variant: "destructive"
+      });
+    }
+  });
+  const resetSimulation = simulation.reset;
+  
+  // A report only describes the actions it was run on
+  useEffect(() => {
+    resetSimulation();
+  }, [actions, resetSimulation]);
   
   // Initialize form with default values
   const form = useForm<ProposalFormValues>({
     resolver: zodResolver(proposalSchema),
     defaultValues: {
       title: "",
-      description: "",
-      targetAddress: "",
-      value: "0",
-      calldata: "0x"
+      description: ""
     }
   });
   
+  // Every action resolved, or null after highlighting the incomplete ones
+  const resolveActions = (purpose: string): ProposalAction[] | null => {
+    const resolved = actions.map(toProposalAction);
+    if (resolved.some(action => action === null)) {
+      setShowActionErrors(true);
+      toast({
+        title: "Incomplete Actions",
+        description: `Fix the highlighted actions before ${purpose}`,
+        variant: "destructive"
+      });
+      return null;
+    }
+    return resolved as ProposalAction[];
+  };
+  
+  const simulate = () => {
+    const ready = resolveActions("simulating the proposal");
+    if (ready) simulation.mutate(ready);
+  };
+  
   // Handle form submission
   const onSubmit = async (data: ProposalFormValues) => {
     if (!isConnected) {
@@ -51,21 +92,23 @@ export default function ProposalForm() {
       return;
     }
     
+    // Every action must be complete before anything is submitted
+    const ready = resolveActions("creating the proposal");
+    if (!ready) return;
+    
     try {
-      // Format for the governance contract
-      const targets = [data.targetAddress];
-      const values = [data.value]; // Will be converted to ETH in proposeAction
-      const calldatas = [data.calldata];
-      const description = `${data.title}\n\n${data.description}`;
-      
-      const proposalId = await proposeAction(targets, values, calldatas, description);
+      // Parallel arrays for the proposal executor, in execution order
+      const proposalId = await createProposal(
+        data.title,
+        data.description,
+        ready.map(action => action.target),
+        ready.map(action => action.calldata)
+      );
       
       if (proposalId) {
         form.reset();
-        toast({
-          title: "Proposal Created",
-          description: `Your proposal has been created with ID: ${proposalId}`
-        });
+        setActions([newProposalAction()]);
+        setShowActionErrors(false);
       }
     } catch (err: any) {
       toast({
@@ -150,89 +193,34 @@ export default function ProposalForm() {
               )}
             />
             
-            <FormField
-              control={form.control}
-              name="targetAddress"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Target Contract Address</FormLabel>
-                  <FormControl>
-                    <Input 
-                      placeholder="0x..." 
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    The address of the contract your proposal will interact with
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Actions</p>
+              <p className="text-sm text-muted-foreground">
+                The calls this proposal makes if it passes, executed in order. Actions are built and
+                simulated against the hub's contracts, and the executor sends every action to each
+                chain it has configured.
+              </p>
+              <ProposalActions actions={actions} onChange={setActions} showErrors={showActionErrors} />
+            </div>
             
-            <FormField
-              control={form.control}
-              name="value"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Value (ETH)</FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number" 
-                      step="0.001"
-                      min="0"
-                      placeholder="0.0" 
-                      {...field} 
-                    />
-                  </FormControl>
-                  <FormDescription>
-                    Amount of ETH to send with the proposal (usually 0)
-                  </FormDescription>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {simulation.data && <ProposalSimulationReport simulation={simulation.data} />}
             
-            <div>
+            <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-4">
               <Button
                 type="button"
                 variant="outline"
-                size="sm"
-                onClick={() => setShowAdvanced(!showAdvanced)}
+                onClick={simulate}
+                disabled={simulation.isPending}
+                className="w-full sm:w-auto"
               >
-                {showAdvanced ? "Hide Advanced Options" : "Show Advanced Options"}
+                {simulation.isPending ? "Simulating..." : "Simulate Actions"}
               </Button>
-            </div>
-            
-            {showAdvanced && (
-              <FormField
-                control={form.control}
-                name="calldata"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Call Data (hex)</FormLabel>
-                    <FormControl>
-                      <Input 
-                        placeholder="0x..." 
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormDescription>
-                      The encoded function call data for your proposal (advanced)
-                    </FormDescription>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            )}
-            
-            <div className="flex justify-end pt-4">
               <Button 
                 type="submit" 
-                disabled={loading}
+                disabled={isLoading}
                 className="w-full sm:w-auto"
               >
-                {loading ? "Creating..." : "Create Proposal"}
+                {isLoading ? "Creating..." : "Create Proposal"}
               </Button>
             </div>
           </form>
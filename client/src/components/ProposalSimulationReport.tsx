@@ -0,0 +1,92 @@
+import { Badge } from "@/components/ui/badge";
+import CalldataSummary from "@/components/CalldataSummary";
+import { CheckCircle, XCircle } from "lucide-react";
+import { getNetworkById } from "@shared/networks";
+import type { ActionSimulation, ProposalSimulation } from "@shared/proposalSimulation";
+
+interface ProposalSimulationReportProps {
+  simulation: ProposalSimulation;
+}
+
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function ActionEvents({ action }: { action: ActionSimulation }) {
+  if (action.events === null) {
+    return action.success
+      ? <p className="text-xs text-gray-400">Events unavailable: the RPC node does not support call tracing</p>
+      : null;
+  }
+  if (action.events.length === 0) {
+    return <p className="text-xs text-gray-400">No events emitted</p>;
+  }
+
+  return (
+    <ul className="text-xs font-['Roboto_Mono'] space-y-1">
+      {action.events.map((event, i) => (
+        <li key={i} className="break-all">
+          {event.name
+            ? `${event.name}(${Object.entries(event.args ?? {}).map(([name, value]) => `${name}: ${value}`).join(", ")})`
+            : `Unknown event ${event.topics[0]?.slice(0, 10) ?? ""}`}
+          <span className="text-gray-400"> · {shortenAddress(event.address)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Outcome of dry-running every action of a proposal from the timelock:
+ * success or why it fails, gas and emitted events per action.
+ */
+export default function ProposalSimulationReport({ simulation }: ProposalSimulationReportProps) {
+  const failures = simulation.actions.filter(action => !action.success).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">Simulation</p>
+        <Badge variant={simulation.success ? "outline" : "destructive"}>
+          {simulation.success ? "All actions succeed" : `${failures} of ${simulation.actions.length} fail`}
+        </Badge>
+      </div>
+
+      {simulation.actions.map(action => (
+        <div key={action.index} className="flex items-start border rounded-md p-3">
+          <div className="mr-3 flex-shrink-0">
+            {action.success
+              ? <CheckCircle className="h-5 w-5 text-green-500" />
+              : <XCircle className="h-5 w-5 text-red-500" />}
+          </div>
+          <div className="flex-1 space-y-1 min-w-0">
+            <div className="flex flex-wrap justify-between gap-2">
+              <span className="font-medium">
+                Action {action.index + 1} on {getNetworkById(action.networkId)?.name ?? action.networkId}
+              </span>
+              <span className="text-xs text-gray-500">
+                {action.mode === "fork" ? "Local fork" : "eth_call"}
+                {action.gasUsed && ` · ${Number(action.gasUsed).toLocaleString()} gas`}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500 font-['Roboto_Mono']">
+              {shortenAddress(action.from)} → {shortenAddress(action.target)}
+            </p>
+            <div>
+              <CalldataSummary calldata={action.calldata} target={action.target} networkId={action.networkId} />
+            </div>
+            {action.revertReason && (
+              <p className="text-sm text-red-500 break-words">Fails: {action.revertReason}</p>
+            )}
+            <ActionEvents action={action} />
+          </div>
+        </div>
+      ))}
+
+      <p className="text-xs text-gray-400">
+        Simulated {new Date(simulation.simulatedAt).toLocaleString()}
+        {simulation.actions.some(action => action.mode === "call") && " · eth_call runs each action against current state, without the effects of earlier actions"}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import { CheckCircle, Clock, XCircle } from "lucide-react";
+import type { LifecycleStage } from "@shared/proposalLifecycle";
+import { useProposalLifecycle } from "@/hooks/useProposalLifecycle";
+
+interface ProposalTimelineProps {
+  proposalId: string;
+}
+
+// "2d 4h 10m" style countdown; seconds are only shown inside the last hour
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${seconds}s`;
+}
+
+function getStageIcon(stage: LifecycleStage) {
+  if (stage.status === 'completed') {
+    return <div className="h-8 w-8 rounded-full bg-green-100 flex items-center justify-center text-green-600"><CheckCircle /></div>;
+  } else if (stage.status === 'current') {
+    return <div className="h-8 w-8 rounded-full bg-blue-100 flex items-center justify-center text-blue-600"><Clock /></div>;
+  } else if (stage.status === 'skipped') {
+    return <div className="h-8 w-8 rounded-full bg-red-50 flex items-center justify-center text-red-300"><XCircle /></div>;
+  }
+  return <div className="h-8 w-8 rounded-full border-2 border-gray-300 flex items-center justify-center text-gray-300">⋯</div>;
+}
+
+export default function ProposalTimeline({ proposalId }: ProposalTimelineProps) {
+  const { lifecycle, now, isLoading, error } = useProposalLifecycle(proposalId);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center py-8">
+          <Spinner size="lg" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error || !lifecycle) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Proposal #{proposalId} Timeline</CardTitle>
+          <CardDescription className="text-red-500">
+            {error instanceof Error ? error.message : "Failed to load the proposal lifecycle"}
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  // The first stage still ahead gets the countdown
+  const nextStage = lifecycle.stages.find(stage => stage.status === 'upcoming');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Proposal #{proposalId} Timeline</CardTitle>
+          <Badge variant={lifecycle.outcome ? "destructive" : "outline"}>{lifecycle.state}</Badge>
+        </div>
+        <CardDescription>
+          Block {lifecycle.currentBlock.toLocaleString()} on {lifecycle.networkId}
+          {lifecycle.blockTimeSeconds > 0 && ` · ~${lifecycle.blockTimeSeconds.toFixed(1)}s per block`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {lifecycle.stages.map(stage => {
+          const startsAt = new Date(stage.startsAt);
+          const isNext = stage === nextStage;
+
+          return (
+            <div key={stage.stage} className="flex items-start">
+              <div className="mr-3 flex-shrink-0">
+                {getStageIcon(stage)}
+              </div>
+              <div className="flex-1">
+                <div className="flex items-center justify-between">
+                  <h4 className={`font-medium ${stage.status === 'skipped' ? 'text-gray-400 line-through' : ''}`}>
+                    {stage.stage}
+                  </h4>
+                  {isNext && startsAt.getTime() > now && (
+                    <span className="text-sm font-['Roboto_Mono'] text-blue-600">
+                      in {stage.estimated ? '~' : ''}{formatCountdown(startsAt.getTime() - now)}
+                    </span>
+                  )}
+                </div>
+                {stage.status !== 'skipped' && (
+                  <p className="text-xs text-gray-500">
+                    {stage.estimated && stage.status !== 'completed' ? '~' : ''}{startsAt.toLocaleString()}
+                    {stage.block !== null && ` · block ${stage.block.toLocaleString()}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+
+        {lifecycle.outcome && (
+          <p className="text-sm text-red-500">
+            This proposal was {lifecycle.outcome.toLowerCase()} and will not be executed.
+          </p>
+        )}
+
+        {lifecycle.state === 'Queued' && lifecycle.eta && (
+          <p className="text-sm text-gray-500">
+            Held by the timelock for {formatCountdown(lifecycle.timelockDelay * 1000)}; executable from {new Date(lifecycle.eta).toLocaleString()}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,107 +1,87 @@
-import React, { useState } from 'react';
+import React from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { useNetwork } from '@/hooks/useNetwork';
 import { useToast } from '@/hooks/use-toast';
-
-interface SupplyStatus {
-  date: string;
-  chains: string;
-  event: string;
-  status: 'Verified' | 'Reconciled' | 'Mismatch';
-}
+import { apiClient, apiKeys, apiQuery } from '@/lib/api';
+import { getNetworkById } from '@shared/networks';
+import { parseSupplyCheckDetails } from '@shared/supply';
+import SupplyHistoryChart from '@/components/SupplyHistoryChart';
 
 interface ChainSupply {
   name: string;
   amount: string;
   percentage: number;
   color: string;
+  isHub: boolean;
 }
 
+const formatTokens = (amount: string) =>
+  parseFloat(amount).toLocaleString(undefined, { maximumFractionDigits: 2 });
+
 export default function SupplyConsistencyChecker() {
   const { toast } = useToast();
   const { networks } = useNetwork();
+  const queryClient = useQueryClient();
   
-  const [isChecking, setIsChecking] = useState(false);
-  const [lastChecked, setLastChecked] = useState('10 mins ago');
-  const [totalSupply] = useState('100,000,000');
+  // Supply check history, newest first
+  const { data: supplyChecks = [] } = useQuery(apiQuery.supply.checks());
   
-  // Mock chain distribution data
-  const [chainSupplies] = useState<ChainSupply[]>([
-    {
-      name: "Ethereum Sepolia",
-      amount: "50,000,000",
-      percentage: 50,
-      color: "#627EEA"
-    },
-    {
-      name: "Polygon Amoy",
-      amount: "50,000,000",
-      percentage: 50,
-      color: "#8247E5"
-    }
-  ]);
+  // The most recent cross-chain check carries the per-chain readings
+  const latestCheck = supplyChecks.find(check => parseSupplyCheckDetails(check.details));
+  const latestResult = latestCheck ? parseSupplyCheckDetails(latestCheck.details) : null;
   
-  // Mock supply check history
-  const [supplyChecks] = useState<SupplyStatus[]>([
-    {
-      date: new Date(Date.now() - 10 * 60 * 1000).toLocaleTimeString(),
-      chains: "Sepolia → Amoy",
-      event: "checkSupply()",
-      status: "Verified"
-    },
-    {
-      date: new Date(Date.now() - 60 * 60 * 1000).toLocaleTimeString(),
-      chains: "All Chains",
-      event: "dailyAudit()",
-      status: "Verified"
-    },
-    {
-      date: new Date(Date.now() - 2 * 60 * 60 * 1000).toLocaleTimeString(),
-      chains: "Amoy → Sepolia",
-      event: "checkSupply()",
-      status: "Reconciled"
-    }
-  ]);
+  const totalSupply = latestResult ? formatTokens(latestResult.total) : '-';
+  const lastChecked = latestCheck?.date ? new Date(latestCheck.date).toLocaleString() : 'Never';
   
-  // Function to verify token supply across chains
-  const verifySupply = async () => {
-    setIsChecking(true);
+  const chainSupplies: ChainSupply[] = (latestResult?.chains || []).map(chain => {
+    const network = getNetworkById(chain.networkId);
+    const total = parseFloat(latestResult!.total);
     
-    try {
-      // Simulate network delay for the supply check
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Update the last checked time
-      setLastChecked('Just now');
-      
-      // Add a new supply check to the history
-      const newCheck: SupplyStatus = {
-        date: new Date().toLocaleTimeString(),
-        chains: "All Chains",
-        event: "manualCheck()",
-        status: "Verified"
-      };
-      
-      // In a real implementation, we would call the contract to check supply
+    return {
+      name: chain.name,
+      amount: formatTokens(chain.supply),
+      percentage: total > 0 ? Math.round((parseFloat(chain.supply) / total) * 10000) / 100 : 0,
+      color: network?.color || '#6B7280',
+      isHub: network?.isHub === true
+    };
+  });
+  
+  // Function to verify token supply across chains
+  const verifyMutation = useMutation({
+    mutationFn: () => apiClient.supply.verify(),
+    onSuccess: ({ supplyData }) => {
+      queryClient.invalidateQueries({ queryKey: apiKeys.supply.checks() });
+      queryClient.invalidateQueries({ queryKey: apiKeys.supply.history() });
       
-      toast({
-        title: "Supply Verified",
-        description: "Token supply is consistent across all chains",
-        variant: "default",
-      });
-    } catch (error) {
+      if (supplyData.status === 'Deviation') {
+        toast({
+          title: "Supply Deviation",
+          description: `Total supply is off by ${formatTokens(supplyData.deviation)} OGT (${supplyData.deviationRate / 100}%)`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: supplyData.status === 'Reconciled' ? "Supply Reconciled" : "Supply Verified",
+          description: "Token supply is consistent across all chains",
+          variant: "default",
+        });
+      }
+    },
+    onError: (error) => {
       console.error("Error verifying supply:", error);
       toast({
         title: "Verification Failed",
         description: "There was an error checking the token supply",
         variant: "destructive",
       });
-    } finally {
-      setIsChecking(false);
-    }
-  };
+    },
+  });
+  
+  const isChecking = verifyMutation.isPending;
+  const verifySupply = () => verifyMutation.mutate();
   
   // Format status badge based on status
   const getStatusBadge = (status: string) => {
@@ -110,8 +90,8 @@ export default function SupplyConsistencyChecker() {
         return <span className="bg-green-900/20 text-green-500 px-2 py-0.5 text-xs rounded">Verified</span>;
       case 'Reconciled':
         return <span className="bg-amber-900/20 text-amber-500 px-2 py-0.5 text-xs rounded">Reconciled</span>;
-      case 'Mismatch':
-        return <span className="bg-red-900/20 text-red-500 px-2 py-0.5 text-xs rounded">Mismatch</span>;
+      case 'Deviation':
+        return <span className="bg-red-900/20 text-red-500 px-2 py-0.5 text-xs rounded">Deviation</span>;
       default:
         return <span className="bg-gray-800 text-gray-400 px-2 py-0.5 text-xs rounded">{status}</span>;
     }
@@ -144,7 +124,9 @@ export default function SupplyConsistencyChecker() {
               </svg>
             </div>
             <div className="text-xs text-gray-400">Status</div>
-            <div className="text-sm font-medium text-green-500">Verified</div>
+            <div className={`text-sm font-medium ${latestResult?.status === 'Deviation' ? 'text-red-500' : 'text-green-500'}`}>
+              {latestResult?.status || 'Unchecked'}
+            </div>
           </div>
           
           <div className="text-center">
@@ -155,7 +137,7 @@ export default function SupplyConsistencyChecker() {
               </svg>
             </div>
             <div className="text-xs text-gray-400">Chains</div>
-            <div className="text-sm font-medium">{networks.length} verified</div>
+            <div className="text-sm font-medium">{latestResult?.chains.length ?? networks.length} checked</div>
           </div>
         </div>
       </div>
@@ -185,7 +167,7 @@ export default function SupplyConsistencyChecker() {
               </div>
               <div className="flex justify-between mt-1">
                 <span className="text-xs text-gray-400">{chain.percentage}%</span>
-                {index === 0 && (
+                {chain.isHub && (
                   <span className="text-xs text-gray-400">Hub Chain</span>
                 )}
               </div>
@@ -213,19 +195,29 @@ export default function SupplyConsistencyChecker() {
         )}
       </div>
       
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-gray-300">Supply History</h3>
+        <SupplyHistoryChart />
+      </div>
+      
       <div className="space-y-2">
         <h3 className="text-sm font-medium text-gray-300">Recent Checks</h3>
         
         <div className="divide-y divide-gray-800">
-          {supplyChecks.map((check, index) => (
-            <div key={index} className="py-2 flex justify-between">
+          {supplyChecks.length === 0 && (
+            <div className="py-2 text-sm text-gray-400">No supply checks yet</div>
+          )}
+          {supplyChecks.slice(0, 5).map((check) => (
+            <div key={check.id} className="py-2 flex justify-between">
               <div>
-                <div className="text-sm">{check.chains}</div>
+                <div className="text-sm">{check.chain}</div>
                 <div className="text-xs text-gray-400">{check.event}</div>
               </div>
               <div className="flex items-center">
                 {getStatusBadge(check.status)}
-                <div className="text-xs text-gray-400 ml-2">{check.date}</div>
+                <div className="text-xs text-gray-400 ml-2">
+                  {check.date ? new Date(check.date).toLocaleTimeString() : ''}
+                </div>
               </div>
             </div>
           ))}
@@ -0,0 +1,77 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CartesianGrid, Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { NETWORK_REGISTRY } from '@shared/networks';
+import { apiQuery } from '@/lib/api';
+
+// One line per network, coloured like the rest of the UI
+const chartConfig: ChartConfig = Object.fromEntries(
+  NETWORK_REGISTRY.map(network => [network.id, { label: network.name, color: network.color }])
+);
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit' });
+
+const formatSupply = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value.toLocaleString();
+
+/**
+ * Per-chain token supply recorded by supply checks over time. When supply is
+ * currently drifting, the period since the first deviating check is shaded.
+ */
+export default function SupplyHistoryChart() {
+  const { data: history, isLoading } = useQuery(apiQuery.supply.history());
+  
+  if (isLoading) {
+    return <div className="h-40 flex items-center justify-center text-xs text-gray-400">Loading supply history...</div>;
+  }
+  
+  if (!history || history.points.length === 0) {
+    return <div className="h-40 flex items-center justify-center text-xs text-gray-400">No supply audits recorded yet</div>;
+  }
+  
+  const data = history.points.map(point => ({
+    checkedAt: point.checkedAt,
+    ...Object.fromEntries(Object.entries(point.chains).map(([networkId, supply]) => [networkId, parseFloat(supply)]))
+  }));
+  const lastPoint = history.points[history.points.length - 1];
+  
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+        <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="checkedAt" tickFormatter={formatTime} tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis tickFormatter={formatSupply} tickLine={false} axisLine={false} width={48} />
+          <ChartTooltip content={<ChartTooltipContent labelFormatter={(value) => formatTime(String(value))} />} />
+          {history.driftStartedAt && (
+            <ReferenceArea
+              x1={history.driftStartedAt}
+              x2={lastPoint.checkedAt}
+              fill="#EF4444"
+              fillOpacity={0.12}
+              strokeOpacity={0}
+            />
+          )}
+          {NETWORK_REGISTRY.map(network => (
+            <Line
+              key={network.id}
+              dataKey={network.id}
+              type="monotone"
+              stroke={`var(--color-${network.id})`}
+              strokeWidth={2}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+      
+      {history.driftStartedAt && (
+        <p className="text-xs text-red-500">
+          Supply has been drifting since {new Date(history.driftStartedAt).toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+}
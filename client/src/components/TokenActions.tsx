@@ -3,6 +3,7 @@ import { useToken } from "@/hooks/useToken";
 import { useNetwork } from "@/hooks/useNetwork";
 import { useWallet } from "@/hooks/useWallet";
 import ContractDetails from "@/components/ContractDetails";
+import { BridgeFees } from "@/types/token";
 
 interface TokenActionsProps {
   openWalletModal: () => void;
@@ -17,11 +18,11 @@ export default function TokenActions({ openWalletModal }: TokenActionsProps) {
   const [destinationChain, setDestinationChain] = useState("");
   const [isBridging, setIsBridging] = useState(false);
   const [calculatingFees, setCalculatingFees] = useState(false);
-  const [fees, setFees] = useState({
+  const [fees, setFees] = useState<BridgeFees>({
     layerZeroFee: 0.15,
     bridgeFee: 0,
-    gasFee: 1.25,
-    totalCost: 1.40
+    gasFee: null,
+    totalCost: 0.15
   });
   
   // Set default destination chain when current network changes
@@ -181,7 +182,13 @@ export default function TokenActions({ openWalletModal }: TokenActionsProps) {
                 </div>
                 <div className="flex justify-between items-center mb-1">
                   <span className="text-sm secondary-text">Gas Fee</span>
-                  <span className="text-sm font-['Roboto_Mono']">≈ ${fees.gasFee.toFixed(2)}</span>
+                  <span className="text-sm font-['Roboto_Mono']">
+                    {fees.gasFee !== null
+                      ? `≈ $${fees.gasFee.toFixed(2)}`
+                      : fees.gasCost
+                        ? `≈ ${fees.gasCost.amount.toFixed(6)} ${fees.gasCost.symbol}`
+                        : '--'}
+                  </span>
                 </div>
                 <div className="border-t border-[#323232] mt-2 pt-2 flex justify-between items-center">
                   <span className="text-sm secondary-text">Total Cost</span>
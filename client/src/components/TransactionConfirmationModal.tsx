@@ -11,12 +11,15 @@ import { Spinner } from "@/components/ui/spinner";
 import { CheckCircle, XCircle, ExternalLink, ArrowRight } from "lucide-react";
 import TransactionErrorHandler from './TransactionErrorHandler';
 import { ErrorType, ErrorInfo } from '@/types/error';
-import { TransactionStatus } from '@/types/transaction';
+import { TransactionStatus, TransactionStatusChange } from '@/types/transaction';
+import { useGasEstimates } from '@/hooks/useGasEstimates';
+import { OFT_SEND_GAS_LIMIT } from '@/lib/constants';
 
 interface TransactionStep {
   title: string;
   description: string;
   status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  reachedAt?: Date;        // When the step finished, from the status history
 }
 
 interface TransactionConfirmationModalProps {
@@ -25,11 +28,14 @@ interface TransactionConfirmationModalProps {
   title: string;
   description?: string;
   sourceChain: string;
+  sourceNetworkId?: string;  // Registry id of the source chain, used to look up live gas
+  gasLimit?: number;
   destinationChain?: string;
   status: TransactionStatus;
   sourceTxHash?: string;
   destinationTxHash?: string;
   error?: Error | ErrorInfo | null;
+  history?: TransactionStatusChange[];
   onRetry?: () => void;
 }
 
@@ -39,14 +45,19 @@ export default function TransactionConfirmationModal({
   title,
   description = "Please wait while your transaction is being processed.",
   sourceChain,
+  sourceNetworkId,
+  gasLimit = OFT_SEND_GAS_LIMIT,
   destinationChain,
   status,
   sourceTxHash,
   destinationTxHash,
   error,
+  history = [],
   onRetry,
 }: TransactionConfirmationModalProps) {
   const [steps, setSteps] = useState<TransactionStep[]>([]);
+  const { getGasCost } = useGasEstimates();
+  const gasCost = getGasCost(sourceNetworkId, gasLimit);
 
   // Set up steps based on props
   useEffect(() => {
@@ -95,11 +106,11 @@ export default function TransactionConfirmationModal({
       newSteps.forEach((step, index) => {
         newSteps[index].status = 'completed';
       });
-    } else if (status === 'failed') {
+    } else if (status === 'failed' || status === 'source_failed') {
       let failedStepIndex = 0;
       
       // Find which step failed
-      if (sourceTxHash) {
+      if (status === 'failed' && sourceTxHash) {
         failedStepIndex = destinationChain ? 1 : 0; // If we have sourceTxHash but failed, then either the source completed (cross-chain) or it's a single chain tx
       }
       
@@ -112,8 +123,20 @@ export default function TransactionConfirmationModal({
       }
     }
 
+    // Attach the time each step finished, using the status that closes it
+    const closingStatuses: TransactionStatus[][] = destinationChain
+      ? [['source_confirmed'], ['destination_confirmed'], ['completed']]
+      : [['completed']];
+    
+    newSteps.forEach((step, index) => {
+      const change = history.find(h => closingStatuses[index]?.includes(h.toStatus as TransactionStatus));
+      if (change?.createdAt && step.status === 'completed') {
+        step.reachedAt = new Date(change.createdAt);
+      }
+    });
+
     setSteps(newSteps);
-  }, [sourceChain, destinationChain, status, sourceTxHash]);
+  }, [sourceChain, destinationChain, status, sourceTxHash, history]);
 
   const getStepIcon = (step: TransactionStep) => {
     if (step.status === 'pending') {
@@ -153,6 +176,18 @@ export default function TransactionConfirmationModal({
           )}
         </div>
 
+        {/* Live gas cost on the source chain */}
+        {gasCost && (
+          <div className="mb-4 flex justify-between text-sm text-gray-500">
+            <span>Estimated gas on {sourceChain}</span>
+            <span className="font-['Roboto_Mono']">
+              ≈ {gasCost.native.toFixed(6)} {gasCost.symbol}
+              {gasCost.usd !== null && ` ($${gasCost.usd.toFixed(2)})`}
+              {gasCost.estimate.estimatedTimeSeconds > 0 && ` · ~${gasCost.estimate.estimatedTimeSeconds}s`}
+            </span>
+          </div>
+        )}
+
         {/* Transaction progress steps */}
         <div className="space-y-4">
           {steps.map((step, index) => (
@@ -163,6 +198,9 @@ export default function TransactionConfirmationModal({
               <div>
                 <h4 className="font-medium">{step.title}</h4>
                 <p className="text-sm text-gray-500">{step.description}</p>
+                {step.reachedAt && (
+                  <p className="text-xs text-gray-400">{step.reachedAt.toLocaleTimeString()}</p>
+                )}
                 
                 {/* Show transaction hash links if available */}
                 {index === 0 && sourceTxHash && (
@@ -192,7 +230,7 @@ export default function TransactionConfirmationModal({
         </div>
 
         {/* Error message if transaction failed */}
-        {status === 'failed' && error && (
+        {(status === 'failed' || status === 'source_failed') && error && (
           <div className="mt-4">
             <TransactionErrorHandler 
               error={error}
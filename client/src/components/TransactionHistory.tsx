@@ -19,9 +19,12 @@ import { Badge } from "@/components/ui/badge";
 import { Spinner } from "@/components/ui/spinner";
 import { ArrowRight, ExternalLink, RotateCw, CheckCircle, XCircle, Clock, Activity } from "lucide-react";
 import { LayerZeroTransaction, TransactionStatus } from "@/types/transaction";
+import { apiClient, apiKeys } from '@/lib/api';
 import { useWalletContext } from './WalletProvider';
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { ErrorType } from '@/types/error';
+import { useTransactionStream } from '@/hooks/useTransactionStream';
+import { getNetworkById, getHubNetwork } from '@shared/networks';
 
 interface TransactionHistoryProps {
   limit?: number;
@@ -34,44 +37,40 @@ export default function TransactionHistory({
   showTitle = true,
   className
 }: TransactionHistoryProps) {
-  const { address, isConnected } = useWalletContext();
+  const { address, isAuthenticated, signIn } = useWalletContext();
   const queryClient = useQueryClient();
   const [filteredStatus, setFilteredStatus] = useState<string | null>(null);
   
-  // Query transactions
+  // Status changes are pushed by the server; polling below is only a fallback
+  useTransactionStream(isAuthenticated ? address : null);
+  
+  // Query transactions, one page of `limit` rows at a time
   const { 
-    data: transactions, 
+    data, 
     isLoading, 
     error,
-    refetch
-  } = useQuery<LayerZeroTransaction[]>({
-    queryKey: ['/api/transactions', address, filteredStatus],
-    queryFn: async () => {
-      let url = '/api/transactions';
-      const params = new URLSearchParams();
-      
-      if (address) {
-        params.append('walletAddress', address);
-      }
-      
-      if (filteredStatus) {
-        params.append('status', filteredStatus);
-      }
-      
-      if (params.toString()) {
-        url += `?${params.toString()}`;
-      }
-      
-      const response = await fetch(url);
-      if (!response.ok) {
-        throw new Error('Failed to fetch transactions');
+    refetch,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
+  } = useInfiniteQuery({
+    queryKey: apiKeys.transactions.list({ query: { walletAddress: address ?? undefined, status: filteredStatus ?? undefined, limit } }),
+    queryFn: ({ pageParam }) => apiClient.transactions.list({
+      query: {
+        walletAddress: address ?? undefined,
+        status: filteredStatus ?? undefined,
+        limit,
+        cursor: pageParam ?? undefined
       }
-      return response.json();
-    },
-    enabled: isConnected,
-    refetchInterval: 10000, // Refetch every 10 seconds
+    }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: isAuthenticated, // History is only served to the signed-in owner
+    refetchInterval: 60000, // Refetch every minute in case the stream dropped an event
   });
   
+  const transactions = data?.pages.flatMap(page => page.items);
+  
   // Function to display a friendly status badge
   const getStatusBadge = (status: TransactionStatus) => {
     switch (status) {
@@ -109,16 +108,10 @@ export default function TransactionHistory({
   // Function to retry a failed transaction
   const retryTransaction = async (id: number) => {
     try {
-      const response = await fetch(`/api/transactions/${id}/retry`, {
-        method: 'POST',
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to retry transaction');
-      }
+      await apiClient.transactions.retry({ params: { id } });
       
       // Invalidate the transaction list to refresh
-      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: apiKeys.transactions.list() });
     } catch (error) {
       console.error('Error retrying transaction:', error);
     }
@@ -179,11 +172,16 @@ export default function TransactionHistory({
         <CardContent>
           <div className="text-center p-6 text-gray-500">
             <p>No transactions found</p>
-            {address && (
+            {isAuthenticated && (
               <p className="text-sm mt-1">
                 Start a cross-chain transaction to see it here
               </p>
             )}
+            {address && !isAuthenticated && (
+              <Button variant="link" size="sm" className="mt-1" onClick={signIn}>
+                Sign in with your wallet to view your transactions
+              </Button>
+            )}
             {!address && (
               <p className="text-sm mt-1">
                 Connect your wallet to view your transactions
@@ -247,7 +245,7 @@ export default function TransactionHistory({
               </TableRow>
             </TableHeader>
             <TableBody>
-              {transactions.slice(0, limit).map((tx) => (
+              {transactions.map((tx) => (
                 <TableRow key={tx.id}>
                   <TableCell className="font-medium">
                     {tx.type === 'token_bridge' ? 'Bridge' : 
@@ -275,7 +273,7 @@ export default function TransactionHistory({
                       {tx.sourceTxHash && (
                         <Button variant="ghost" size="icon" asChild>
                           <a 
-                            href={`https://sepolia.etherscan.io/tx/${tx.sourceTxHash}`} 
+                            href={`${(getNetworkById(tx.sourceChain) || getHubNetwork()).explorer}/tx/${tx.sourceTxHash}`} 
                             target="_blank" 
                             rel="noopener noreferrer"
                             title="View on Explorer"
@@ -303,10 +301,16 @@ export default function TransactionHistory({
           </Table>
         </div>
         
-        {transactions.length > limit && (
+        {hasNextPage && (
           <div className="mt-4 flex justify-center">
-            <Button variant="outline" size="sm">
-              View All Transactions
+            <Button 
+              variant="outline" 
+              size="sm"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage ? <Spinner size="sm" className="mr-2" /> : null}
+              Load More
             </Button>
           </div>
         )}
@@ -8,17 +8,8 @@ import { useToast } from "@/hooks/use-toast";
 import { useGovernance } from "@/hooks/useGovernance";
 import { useWallet } from "@/hooks/useWallet";
 import { useNetwork } from "@/hooks/useNetwork";
-import { AVAILABLE_NETWORKS } from "@/lib/constants";
-
-interface ChainVotes {
-  chainId: string;
-  chainName: string;
-  forVotes: string;
-  againstVotes: string;
-  abstainVotes: string;
-  totalVotes: string;
-  percentage: number;
-}
+import type { ChainVotes } from "@shared/votes";
+import { apiClient } from "@/lib/api";
 
 interface AggregatedVotes {
   forVotes: number;
@@ -27,6 +18,12 @@ interface AggregatedVotes {
   totalVotes: number;
 }
 
+// Percentage of a chain's votes, 0 when the chain has none
+function shareOf(votes: string, total: string): number {
+  const totalVotes = parseFloat(total);
+  return totalVotes > 0 ? (parseFloat(votes) / totalVotes) * 100 : 0;
+}
+
 export default function VoteAggregation() {
   const { toast } = useToast();
   const { getProposal, loading, error } = useGovernance();
@@ -42,6 +39,7 @@ export default function VoteAggregation() {
     abstainVotes: 0,
     totalVotes: 0
   });
+  const [votesError, setVotesError] = useState<string | null>(null);
   
   // Load proposal details and vote data
   useEffect(() => {
@@ -63,60 +61,41 @@ export default function VoteAggregation() {
     }
   };
   
-  // Load vote data from all chains
-  const loadChainVotes = async () => {
-    // In a real implementation, we would use a contract to fetch vote data from all chains
-    // This is a mock version for demo purposes
-    const mockVotes: ChainVotes[] = AVAILABLE_NETWORKS.map(network => {
-      // Generate realistic but random vote numbers
-      const forVotes = Math.floor(Math.random() * 50000) + 10000;
-      const againstVotes = Math.floor(Math.random() * 30000) + 5000;
-      const abstainVotes = Math.floor(Math.random() * 10000) + 1000;
-      const totalVotes = forVotes + againstVotes + abstainVotes;
-      
-      return {
-        chainId: network.id,
-        chainName: network.name,
-        forVotes: forVotes.toString(),
-        againstVotes: againstVotes.toString(),
-        abstainVotes: abstainVotes.toString(),
-        totalVotes: totalVotes.toString(),
-        percentage: (totalVotes / 500000) * 100 // Scale for visual representation
-      };
-    });
-    
-    setChainVotes(mockVotes);
-    
-    // Calculate aggregated vote totals
-    const aggregate = mockVotes.reduce((acc, chain) => {
-      acc.forVotes += parseInt(chain.forVotes);
-      acc.againstVotes += parseInt(chain.againstVotes);
-      acc.abstainVotes += parseInt(chain.abstainVotes);
-      acc.totalVotes += parseInt(chain.totalVotes);
-      return acc;
-    }, {
-      forVotes: 0,
-      againstVotes: 0,
-      abstainVotes: 0,
-      totalVotes: 0
-    });
-    
-    setAggregatedVotes(aggregate);
+  // Load the per-chain tally read from the hub governor
+  const loadChainVotes = async (): Promise<boolean> => {
+    try {
+      const tally = await apiClient.proposals.votes({ params: { proposalId } });
+      setChainVotes(tally.chains);
+      setAggregatedVotes({
+        forVotes: parseFloat(tally.aggregate.forVotes),
+        againstVotes: parseFloat(tally.aggregate.againstVotes),
+        abstainVotes: parseFloat(tally.aggregate.abstainVotes),
+        totalVotes: parseFloat(tally.aggregate.totalVotes)
+      });
+      setVotesError(null);
+      return true;
+    } catch (err) {
+      console.error("Failed to load chain votes:", err);
+      setChainVotes([]);
+      setAggregatedVotes({ forVotes: 0, againstVotes: 0, abstainVotes: 0, totalVotes: 0 });
+      setVotesError(err instanceof Error ? err.message : "Failed to load vote data");
+      return false;
+    }
   };
   
   // Force a refresh of vote data
-  const refreshVoteData = () => {
+  const refreshVoteData = async () => {
     toast({
       title: "Refreshing Vote Data",
       description: "Fetching latest vote data from all chains..."
     });
     
-    loadChainVotes();
-    
-    toast({
-      title: "Vote Data Updated",
-      description: "The latest vote data has been aggregated from all chains"
-    });
+    if (await loadChainVotes()) {
+      toast({
+        title: "Vote Data Updated",
+        description: "The latest vote data has been aggregated from all chains"
+      });
+    }
   };
   
   // Calculate percentages for aggregated votes
@@ -229,31 +208,43 @@ export default function VoteAggregation() {
             </Button>
           </div>
           
+          {votesError && (
+            <p className="text-sm text-red-600">{votesError}</p>
+          )}
+          
           <div className="space-y-3">
             {chainVotes.map((chain) => (
               <div key={chain.chainId} className="space-y-1">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm font-medium">{chain.chainName}</span>
-                  <span className="text-sm">{parseInt(chain.totalVotes).toLocaleString()} votes</span>
+                  <span className="text-sm font-medium">
+                    {chain.chainName}
+                    <span className="ml-2 text-xs text-gray-500">{chain.origin === "local" ? "Hub" : "Relayed"}</span>
+                    {!chain.counted && (
+                      <span className="ml-2 text-xs text-amber-600">Not counted by the governor</span>
+                    )}
+                  </span>
+                  <span className="text-sm">
+                    {parseFloat(chain.totalVotes).toLocaleString()} votes ({chain.percentage.toFixed(2)}%)
+                  </span>
                 </div>
                 <div className="h-3 w-full bg-gray-100 rounded-full overflow-hidden flex">
                   <div 
                     className="h-full bg-green-500" 
-                    style={{ width: `${parseInt(chain.forVotes) / parseInt(chain.totalVotes) * 100}%` }}
+                    style={{ width: `${shareOf(chain.forVotes, chain.totalVotes)}%` }}
                   />
                   <div 
                     className="h-full bg-red-500" 
-                    style={{ width: `${parseInt(chain.againstVotes) / parseInt(chain.totalVotes) * 100}%` }}
+                    style={{ width: `${shareOf(chain.againstVotes, chain.totalVotes)}%` }}
                   />
                   <div 
                     className="h-full bg-gray-400" 
-                    style={{ width: `${parseInt(chain.abstainVotes) / parseInt(chain.totalVotes) * 100}%` }}
+                    style={{ width: `${shareOf(chain.abstainVotes, chain.totalVotes)}%` }}
                   />
                 </div>
                 <div className="flex text-xs text-gray-500 justify-between mt-0.5">
-                  <span>For: {parseInt(chain.forVotes).toLocaleString()}</span>
-                  <span>Against: {parseInt(chain.againstVotes).toLocaleString()}</span>
-                  <span>Abstain: {parseInt(chain.abstainVotes).toLocaleString()}</span>
+                  <span>For: {parseFloat(chain.forVotes).toLocaleString()}</span>
+                  <span>Against: {parseFloat(chain.againstVotes).toLocaleString()}</span>
+                  <span>Abstain: {parseFloat(chain.abstainVotes).toLocaleString()}</span>
                 </div>
               </div>
             ))}
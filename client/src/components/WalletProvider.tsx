@@ -1,9 +1,23 @@
-import { createContext, useContext, useEffect, ReactNode } from 'react';
+import { createContext, useCallback, useContext, useEffect, useRef, ReactNode } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useWallet } from '@/hooks/useWallet';
+import { useToast } from '@/hooks/use-toast';
+import { fetchSession, signInWithEthereum, signOut as endSession } from '@/lib/siwe';
+import type { AuthSession } from '@shared/siwe';
 import WalletConnectModal from '@/components/WalletConnectModal';
+import { apiKeys } from '@/lib/api';
+
+const SESSION_QUERY_KEY = apiKeys.auth.session();
+
+type WalletContextValue = ReturnType<typeof useWallet> & {
+  isAuthenticated: boolean;       // The server session belongs to the connected address
+  sessionAddress: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+};
 
 // Create a wallet context
-export const WalletContext = createContext<ReturnType<typeof useWallet> | undefined>(undefined);
+export const WalletContext = createContext<WalletContextValue | undefined>(undefined);
 
 interface WalletProviderProps {
   children: ReactNode;
@@ -11,6 +25,61 @@ interface WalletProviderProps {
 
 export default function WalletProvider({ children }: WalletProviderProps) {
   const wallet = useWallet();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  // Restores an existing sign-in on page load
+  const { data: session, isFetched: isSessionFetched } = useQuery<AuthSession>({
+    queryKey: SESSION_QUERY_KEY,
+    queryFn: fetchSession,
+  });
+  const sessionAddress = session?.address ?? null;
+  const isAuthenticated = !!sessionAddress && !!wallet.address &&
+    sessionAddress.toLowerCase() === wallet.address.toLowerCase();
+  
+  // Per-wallet data is served by session, so everything is refetched when it changes
+  const setSession = useCallback((next: AuthSession) => {
+    queryClient.setQueryData(SESSION_QUERY_KEY, next);
+    queryClient.invalidateQueries({ predicate: query => query.queryKey[0] !== apiKeys.auth()[0] });
+  }, [queryClient]);
+  
+  const signIn = useCallback(async () => {
+    if (!wallet.signer || !wallet.address) return;
+    try {
+      setSession(await signInWithEthereum(wallet.signer, wallet.address, wallet.chainId));
+    } catch (error: any) {
+      console.error("Error signing in:", error);
+      toast({
+        title: "Sign-in Failed",
+        description: "Sign the message in your wallet to access your transactions and settings.",
+        variant: "destructive",
+      });
+    }
+  }, [wallet.signer, wallet.address, wallet.chainId, setSession, toast]);
+  
+  const signOut = useCallback(async () => {
+    try {
+      setSession(await endSession());
+    } catch (error) {
+      console.error("Error signing out:", error);
+    }
+  }, [setSession]);
+  
+  // Sign in once per connected address; a declined signature is not asked for again
+  // until the wallet connects with a different account
+  const signInAttemptedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!isSessionFetched || !wallet.address || isAuthenticated) return;
+    if (signInAttemptedFor.current === wallet.address) return;
+    signInAttemptedFor.current = wallet.address;
+    signIn();
+  }, [isSessionFetched, wallet.address, isAuthenticated, signIn]);
+  
+  const disconnectWallet = useCallback(() => {
+    signInAttemptedFor.current = null;
+    wallet.disconnectWallet();
+    signOut();
+  }, [wallet.disconnectWallet, signOut]);
 
   useEffect(() => {
     // Check connection status on mount and when window.ethereum changes
@@ -29,7 +98,7 @@ export default function WalletProvider({ children }: WalletProviderProps) {
     if (window.ethereum) {
       window.ethereum.on('accountsChanged', (accounts: string[]) => {
         if (accounts.length === 0) {
-          wallet.disconnectWallet();
+          disconnectWallet();
         } else {
           wallet.connectWallet('metamask');
         }
@@ -44,7 +113,7 @@ export default function WalletProvider({ children }: WalletProviderProps) {
   }, []);
   
   return (
-    <WalletContext.Provider value={wallet}>
+    <WalletContext.Provider value={{ ...wallet, disconnectWallet, isAuthenticated, sessionAddress, signIn, signOut }}>
       {children}
       <WalletConnectModal 
         isOpen={wallet.showWalletModal} 
@@ -1,5 +1,6 @@
 // OmniGovern DAO Contract Deployments
 import { Network } from '../lib/networkConfig';
+import { NETWORK_REGISTRY } from '@shared/networks';
 
 // Network Chain IDs
 export const CHAIN_IDS = {
@@ -42,17 +43,15 @@ export function getContractAddresses(network: Network): {
   return CONTRACT_ADDRESSES[chainId] || null;
 }
 
-// LayerZero Endpoints
-export const LZ_ENDPOINTS: { [chainId: number]: string } = {
-  [CHAIN_IDS.ETHEREUM_SEPOLIA]: '0x6EDCE65403992e310A62460808c4b910D972f10f',
-  [CHAIN_IDS.POLYGON_AMOY]: '0x6098e96a28E02f27B1e6BD381f870F1C8Bd169d3'
-};
+// LayerZero Endpoints, keyed by EVM chain ID
+export const LZ_ENDPOINTS: { [chainId: number]: string } = Object.fromEntries(
+  NETWORK_REGISTRY.map(network => [network.chainId, network.lzEndpoint])
+);
 
-// LayerZero Chain IDs
-export const LZ_CHAIN_IDS: { [chainId: number]: number } = {
-  [CHAIN_IDS.ETHEREUM_SEPOLIA]: 40161, // LZ Chain ID for Sepolia
-  [CHAIN_IDS.POLYGON_AMOY]: 40181  // LZ Chain ID for Polygon Amoy
-};
+// LayerZero Chain IDs (V2 endpoint IDs), keyed by EVM chain ID
+export const LZ_CHAIN_IDS: { [chainId: number]: number } = Object.fromEntries(
+  NETWORK_REGISTRY.map(network => [network.chainId, network.lzChainId])
+);
 
 // Get LayerZero Chain ID for EVM Chain
 export function getLzChainId(evmChainId: number): number | null {
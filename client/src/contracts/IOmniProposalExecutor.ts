@@ -3,7 +3,7 @@ import { ethers } from 'ethers';
 
 export const OmniProposalExecutorABI = [
   // Proposal Management
-  "function createProposal(string calldata title, string calldata description, bytes[] calldata actions, uint16[] calldata targetChains) returns (uint256)",
+  "function createProposal(string calldata title, string calldata description, address[] calldata targets, bytes[] calldata calldatas) returns (uint256)",
   "function executeProposal(uint256 proposalId) returns (bool)",
   "function cancelProposal(uint256 proposalId) returns (bool)",
   "function getProposal(uint256 proposalId) view returns (tuple(uint256 id, string title, string description, address proposer, uint8 status, uint256 startTime, uint256 endTime, uint256 forVotes, uint256 againstVotes, uint256 abstainVotes))",
@@ -21,7 +21,7 @@ export const OmniProposalExecutorABI = [
   "function getExecutionStatus(bytes32 messageId) view returns (uint8)",
   
   // Events
-  "event ProposalCreated(uint256 indexed proposalId, address indexed proposer, string title, bytes[] actions, uint16[] targetChains, uint256 startTime, uint256 endTime)",
+  "event ProposalCreated(uint256 proposalId, address proposer, string title)",
   "event VoteCast(address indexed voter, uint256 indexed proposalId, uint8 support, uint256 weight)",
   "event ProposalExecuted(uint256 indexed proposalId, bytes32 messageId)",
   "event ProposalCanceled(uint256 indexed proposalId)",
@@ -34,8 +34,8 @@ export interface OmniProposalExecutor extends ethers.Contract {
   createProposal(
     title: string,
     description: string,
-    actions: string[],
-    targetChains: number[]
+    targets: string[],
+    calldatas: string[]
   ): Promise<ethers.ContractTransaction>;
   
   executeProposal(proposalId: ethers.BigNumberish): Promise<ethers.ContractTransaction>;
@@ -0,0 +1,57 @@
+// Local selector registry - functions proposals reach that the contract ABIs in this directory do not declare
+
+export interface RegisteredSignatures {
+  contract: string | null;   // Contract the functions belong to, null for standard interfaces
+  signatures: readonly string[];
+}
+
+export const SELECTOR_REGISTRY: readonly RegisteredSignatures[] = [
+  {
+    // TimelockedExecutor, on top of OpenZeppelin's TimelockController
+    contract: "timelock",
+    signatures: [
+      "function schedule(address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt, uint256 delay)",
+      "function scheduleBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt, uint256 delay)",
+      "function execute(address target, uint256 value, bytes payload, bytes32 predecessor, bytes32 salt) payable",
+      "function executeBatch(address[] targets, uint256[] values, bytes[] payloads, bytes32 predecessor, bytes32 salt) payable",
+      "function queueCrossChainTransaction(uint16 chainId, address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt) returns (bytes32)",
+      "function executeCrossChainTransaction(uint16 chainId, address target, uint256 value, bytes data, bytes32 predecessor, bytes32 salt, address refundAddress, bytes adapterParams) payable",
+      "function executeAtomicCrossChainBatch(uint16[] chainIds, address[] targets, uint256[] values, bytes[] dataElements, bytes32[] predecessors, bytes32[] salts, address refundAddress, bytes adapterParams) payable",
+      "function confirmRemoteExecution(bytes32 operationId, uint16 chainId, bool result)"
+    ]
+  },
+  {
+    // OmniProposalExecutor's LayerZero receive path
+    contract: "executor",
+    signatures: [
+      "function lzReceive((uint32 srcEid, bytes32 sender, uint64 nonce) origin, bytes32 guid, bytes message, address executor, bytes extraData)",
+      "function handleLayerZeroMessage(uint32 srcEid, bytes32 guid, bytes message)"
+    ]
+  },
+  {
+    // LayerZero V2 endpoint
+    contract: "endpoint",
+    signatures: [
+      "function lzCompose(address from, address to, bytes32 guid, uint16 index, bytes message, bytes extraData) payable",
+      "function sendCompose(address to, bytes32 guid, uint16 index, bytes message)",
+      "function lzReceive((uint32 srcEid, bytes32 sender, uint64 nonce) origin, address receiver, bytes32 guid, bytes message, bytes extraData) payable",
+      "function setDelegate(address delegate)"
+    ]
+  },
+  {
+    // ERC-20, Ownable and AccessControl functions any target may expose
+    contract: null,
+    signatures: [
+      "function transfer(address to, uint256 amount) returns (bool)",
+      "function transferFrom(address from, address to, uint256 amount) returns (bool)",
+      "function approve(address spender, uint256 amount) returns (bool)",
+      "function increaseAllowance(address spender, uint256 addedValue) returns (bool)",
+      "function decreaseAllowance(address spender, uint256 subtractedValue) returns (bool)",
+      "function transferOwnership(address newOwner)",
+      "function renounceOwnership()",
+      "function grantRole(bytes32 role, address account)",
+      "function revokeRole(bytes32 role, address account)",
+      "function renounceRole(bytes32 role, address account)"
+    ]
+  }
+];
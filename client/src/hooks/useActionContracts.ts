@@ -0,0 +1,24 @@
+import { useQuery } from '@tanstack/react-query';
+import { getHubNetwork } from '@shared/networks';
+import { apiQuery } from '@/lib/api';
+
+// Actions run on the hub unless they are sent to another chain for execution
+export const HUB_NETWORK_ID = getHubNetwork().id;
+
+/**
+ * Deployed addresses of the contracts the proposal action composer can
+ * target on a network, from /api/network/:networkId/contracts.
+ */
+export function useActionContracts(networkId: string = HUB_NETWORK_ID) {
+  const { data, isLoading, error } = useQuery({
+    ...apiQuery.networks.contracts({ params: { networkId } }),
+    staleTime: 5 * 60 * 1000, // Deployments only change on redeploy
+  });
+
+  return {
+    networkId,
+    addresses: data?.addresses ?? {},
+    isLoading,
+    error
+  };
+}
@@ -1,269 +1,152 @@
 // Hook for DVN Configuration Management
 import { useState, useCallback, useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from './use-toast';
 import { useNetwork } from './useNetwork';
-import { useContractService } from './useContractService';
-import { SUPPORTED_DVNS } from '../config/contracts';
-import { ContractErrorType } from '../services/contractService';
-
-export interface DVNStatus {
-  address: string;
-  name: string; 
-  description: string;
-  enabled: boolean;
-  requiredSignatures: number;
-}
-
-export interface NetworkSecurityConfig {
-  chainId: string;
-  name: string;
-  securityLevel: number;
-  dvns: DVNStatus[];
-}
+import { useWalletContext } from '@/components/WalletProvider';
+import { apiClient, apiKeys, apiQuery } from '@/lib/api';
+import type { DvnConfigUpdate } from '@shared/dvn';
 
+/**
+ * The latest saved DVN configuration of every network, plus an editable draft
+ * of the current network's settings. applySecuritySettings saves the draft when
+ * the signed-in account administers the network's DVNConfigManager, and
+ * submits it as a draft governance proposal otherwise.
+ */
 export function useDVNConfig() {
   const { toast } = useToast();
-  const { currentNetwork, networks } = useNetwork();
-  const { contractService, isInitialized } = useContractService();
-  
-  const [isLoading, setIsLoading] = useState(false);
-  const [securityConfigs, setSecurityConfigs] = useState<NetworkSecurityConfig[]>([]);
+  const { currentNetwork } = useNetwork();
+  const { isAuthenticated } = useWalletContext();
+  const queryClient = useQueryClient();
+  const networkId = currentNetwork?.id;
+
+  const { data: configsByNetwork = {}, isLoading: isLoadingConfigs, refetch } = useQuery(apiQuery.dvn.all());
+
+  // Only the signed-in account's own changes are served
+  const { data: changes = [] } = useQuery({
+    ...apiQuery.dvn.changes({ params: { networkId: networkId ?? '' } }),
+    enabled: !!networkId && isAuthenticated,
+  });
+
+  // Admin or proposal mode, decided on-chain by the DVNConfigManager owner and timelock roles
+  const { data: access, isLoading: isLoadingAccess, error: accessError } = useQuery({
+    ...apiQuery.dvn.access({ params: { networkId: networkId ?? '' } }),
+    enabled: !!networkId && isAuthenticated,
+    retry: false,
+  });
+
+  const currentConfig = networkId ? configsByNetwork[networkId] : undefined;
+
   const [selectedSecurityLevel, setSelectedSecurityLevel] = useState(1);
   const [selectedDVNs, setSelectedDVNs] = useState<string[]>([]);
-  
-  // Get DVN configurations for all networks
-  const fetchDVNConfigs = useCallback(async () => {
-    if (!isInitialized || !currentNetwork) return;
-    
-    setIsLoading(true);
-    
-    try {
-      const configs: NetworkSecurityConfig[] = [];
-      
-      for (const network of networks) {
-        try {
-          if (!network.chainId) continue;
-          
-          // Set network for contract service
-          contractService.setNetwork(network);
-          
-          // Get chain ID as number
-          const chainId = parseInt(network.chainId);
-          
-          // Get security level
-          const securityLevel = await contractService.getSecurityLevel(chainId);
-          
-          // Get DVN configuration
-          const dvnConfig = await contractService.getDVNs(chainId);
-          
-          // Create DVN status records
-          const dvnStatuses: DVNStatus[] = [];
-          
-          // Map addresses to status
-          if (dvnConfig.addresses.length === dvnConfig.enabled.length && 
-              dvnConfig.enabled.length === dvnConfig.requiredSignatures.length) {
-            
-            for (let i = 0; i < dvnConfig.addresses.length; i++) {
-              const addr = dvnConfig.addresses[i];
-              const dvnInfo = SUPPORTED_DVNS.find(d => d.address.toLowerCase() === addr.toLowerCase());
-              
-              dvnStatuses.push({
-                address: addr,
-                name: dvnInfo?.name || 'Unknown DVN',
-                description: dvnInfo?.description || 'Unknown Verification Network',
-                enabled: dvnConfig.enabled[i],
-                requiredSignatures: dvnConfig.requiredSignatures[i]
-              });
-            }
-          }
-          
-          // If no DVNs found, add all as disabled
-          if (dvnStatuses.length === 0) {
-            for (const dvn of SUPPORTED_DVNS) {
-              dvnStatuses.push({
-                ...dvn,
-                enabled: false,
-                requiredSignatures: 1
-              });
-            }
-          }
-          
-          // Add network config
-          configs.push({
-            chainId: network.chainId,
-            name: network.name,
-            securityLevel,
-            dvns: dvnStatuses
-          });
-          
-        } catch (error) {
-          console.error(`Error getting DVN config for ${network.name}:`, error);
-          
-          // Add default config for this network
-          configs.push({
-            chainId: network.chainId || '0',
-            name: network.name,
-            securityLevel: 1,
-            dvns: SUPPORTED_DVNS.map(dvn => ({
-              ...dvn,
-              enabled: false,
-              requiredSignatures: 1
-            }))
-          });
-        }
-      }
-      
-      setSecurityConfigs(configs);
-      
-      // Set selected security level from current network
-      if (currentNetwork && currentNetwork.chainId) {
-        const currentNetworkConfig = configs.find(c => c.chainId === currentNetwork.chainId);
-        if (currentNetworkConfig) {
-          setSelectedSecurityLevel(currentNetworkConfig.securityLevel);
-          
-          // Set selected DVNs from current network
-          const enabledDVNs = currentNetworkConfig.dvns
-            .filter(dvn => dvn.enabled)
-            .map(dvn => dvn.address);
-          
-          setSelectedDVNs(enabledDVNs);
-        }
-      }
-      
-    } catch (error) {
-      console.error('Error fetching DVN configs:', error);
+  const [trustedEndpointMode, setTrustedEndpointMode] = useState(false);
+  const [multiSignatureVerification, setMultiSignatureVerification] = useState(false);
+
+  // Reset the draft whenever the network or its saved configuration changes
+  useEffect(() => {
+    if (!currentConfig) return;
+    setSelectedSecurityLevel(currentConfig.settings.securityLevel);
+    setSelectedDVNs(currentConfig.settings.enabledDvns);
+    setTrustedEndpointMode(currentConfig.settings.trustedEndpointMode);
+    setMultiSignatureVerification(currentConfig.settings.multiSignatureVerification);
+  }, [currentConfig?.networkId, currentConfig?.updatedAt]);
+
+  const saveMutation = useMutation({
+    mutationFn: (update: DvnConfigUpdate) => apiClient.dvn.save({ params: { networkId: networkId! }, body: update }),
+    onSuccess: (saved) => {
+      // Covers the configuration views and this account's change history
+      queryClient.invalidateQueries({ queryKey: apiKeys.dvn() });
+
       toast({
-        title: 'Failed to load security configurations',
-        description: 'Could not retrieve DVN settings. Please try again later.',
+        title: 'Security settings applied',
+        description: `DVN settings saved for ${currentNetwork?.name} with a security score of ${saved.securityScore}/100.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to apply security settings',
+        description: error.message || 'An error occurred while updating security configuration.',
         variant: 'destructive',
       });
-    } finally {
-      setIsLoading(false);
     }
-  }, [contractService, currentNetwork, networks, isInitialized, toast]);
-  
-  // Apply security settings to current network
+  });
+
+  const proposalMutation = useMutation({
+    mutationFn: (update: DvnConfigUpdate) => apiClient.dvn.propose({ params: { networkId: networkId! }, body: update }),
+    onSuccess: (proposal) => {
+      toast({
+        title: 'Proposal drafted',
+        description: `"${proposal.title}" was saved as a draft proposal (#${proposal.id}) for governance to review.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: 'Failed to submit proposal',
+        description: error.message || 'An error occurred while drafting the proposal.',
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Save the draft as the current network's configuration, or propose it
   const applySecuritySettings = useCallback(async () => {
-    if (!isInitialized || !currentNetwork || !currentNetwork.chainId) {
+    if (!networkId) {
       toast({
         title: 'Cannot apply settings',
-        description: 'Please connect your wallet and select a network first.',
+        description: 'Please select a network first.',
         variant: 'destructive',
       });
       return;
     }
-    
-    setIsLoading(true);
-    
-    try {
-      // Set network for contract service
-      contractService.setNetwork(currentNetwork);
-      
-      // Get chain ID as number
-      const chainId = parseInt(currentNetwork.chainId);
-      
-      // 1. Set security level
-      await contractService.setSecurityLevel(chainId, selectedSecurityLevel);
-      
-      // Get current DVN configuration
-      const currentConfig = securityConfigs.find(c => c.chainId === currentNetwork.chainId);
-      
-      if (currentConfig) {
-        // 2. Update each DVN
-        for (const dvn of currentConfig.dvns) {
-          const isSelected = selectedDVNs.includes(dvn.address);
-          
-          // Only update if the state has changed
-          if (isSelected !== dvn.enabled) {
-            await contractService.configureDVN(
-              chainId,
-              dvn.address,
-              isSelected
-            );
-            
-            // If enabled, set required signatures
-            if (isSelected) {
-              await contractService.setDVNRequiredSignatures(
-                chainId,
-                dvn.address,
-                dvn.requiredSignatures
-              );
-            }
-          }
-        }
-      }
-      
+    if (!isAuthenticated) {
       toast({
-        title: 'Security settings applied',
-        description: `Security configuration updated for ${currentNetwork.name}.`,
+        title: 'Cannot apply settings',
+        description: 'Connect and sign in with your wallet first.',
+        variant: 'destructive',
       });
-      
-      // Refresh DVN configs
-      fetchDVNConfigs();
-      
-    } catch (error: any) {
-      console.error('Error applying security settings:', error);
-      
-      // Handle different error types
-      if (error.type === ContractErrorType.USER_REJECTED) {
-        toast({
-          title: 'Transaction rejected',
-          description: 'You rejected the security configuration transaction.',
-          variant: 'destructive',
-        });
-      } else if (error.type === ContractErrorType.INSUFFICIENT_FUNDS) {
-        toast({
-          title: 'Insufficient funds',
-          description: 'You do not have enough funds to complete this transaction.',
-          variant: 'destructive',
-        });
-      } else {
-        toast({
-          title: 'Failed to apply security settings',
-          description: error.message || 'An error occurred while updating security configuration.',
-          variant: 'destructive',
-        });
-      }
-    } finally {
-      setIsLoading(false);
+      return;
     }
-  }, [
-    contractService, 
-    currentNetwork, 
-    isInitialized, 
-    selectedSecurityLevel, 
-    selectedDVNs, 
-    securityConfigs, 
-    toast, 
-    fetchDVNConfigs
-  ]);
-  
+
+    const update: DvnConfigUpdate = {
+      dvns: selectedDVNs as DvnConfigUpdate['dvns'],
+      securityLevel: selectedSecurityLevel,
+      trustedEndpointMode,
+      multiSignatureVerification
+    };
+    const mutation = access?.mode === 'admin' ? saveMutation : proposalMutation;
+    await mutation.mutateAsync(update).catch(() => undefined); // Reported through onError
+  }, [networkId, selectedDVNs, selectedSecurityLevel, trustedEndpointMode, multiSignatureVerification, isAuthenticated, access?.mode, saveMutation, proposalMutation, toast]);
+
   // Toggle a DVN in the selected list
-  const toggleDVN = useCallback((address: string) => {
+  const toggleDVN = useCallback((id: string) => {
     setSelectedDVNs(prev => {
-      if (prev.includes(address)) {
-        return prev.filter(a => a !== address);
+      if (prev.includes(id)) {
+        return prev.filter(d => d !== id);
       } else {
-        return [...prev, address];
+        return [...prev, id];
       }
     });
   }, []);
-  
-  // Load DVN configs on initialization
-  useEffect(() => {
-    if (isInitialized && currentNetwork) {
-      fetchDVNConfigs();
-    }
-  }, [isInitialized, currentNetwork, fetchDVNConfigs]);
-  
+
   return {
-    isLoading,
-    securityConfigs,
+    isLoading: isLoadingConfigs || saveMutation.isPending || proposalMutation.isPending,
+    securityConfigs: Object.values(configsByNetwork),
+    currentConfig,
+    isAuthenticated,
+    access,
+    isLoadingAccess: isAuthenticated && isLoadingAccess,
+    accessError: accessError as Error | null,
+    changes,
     selectedSecurityLevel,
     setSelectedSecurityLevel,
     selectedDVNs,
+    setSelectedDVNs,
     toggleDVN,
+    trustedEndpointMode,
+    setTrustedEndpointMode,
+    multiSignatureVerification,
+    setMultiSignatureVerification,
     applySecuritySettings,
-    refreshConfigs: fetchDVNConfigs
+    refreshConfigs: refetch
   };
-}
\ No newline at end of file
+}
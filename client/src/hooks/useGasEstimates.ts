@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { estimateGasCost, type GasEstimate } from '@shared/gas';
+import { apiQuery } from '@/lib/api';
+
+/**
+ * Live gas estimates for every network from /api/network/gas. The server
+ * caches per block, so polling faster than the block time is cheap.
+ */
+export function useGasEstimates() {
+  const { data: gasEstimates = {}, isLoading, error } = useQuery({
+    ...apiQuery.networks.gas(),
+    refetchInterval: 15000,
+  });
+  
+  const getGasEstimate = useCallback(
+    (networkId: string | undefined): GasEstimate | undefined => (networkId ? gasEstimates[networkId] : undefined),
+    [gasEstimates]
+  );
+  
+  // Cost of a transaction using gasLimit on a network, or undefined while no estimate is available
+  const getGasCost = useCallback((networkId: string | undefined, gasLimit: number) => {
+    const estimate = getGasEstimate(networkId);
+    return estimate ? { ...estimateGasCost(estimate, gasLimit), symbol: estimate.nativeSymbol, estimate } : undefined;
+  }, [getGasEstimate]);
+  
+  return {
+    gasEstimates,
+    getGasEstimate,
+    getGasCost,
+    isLoading,
+    error
+  };
+}
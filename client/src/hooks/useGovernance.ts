@@ -346,12 +346,12 @@ export function useGovernance() {
     }
   }, [contractService, currentNetwork, isInitialized, toast, fetchProposals]);
   
-  // Create a new proposal
+  // Create a new proposal from per-action targets and calldatas
   const createProposal = useCallback(async (
     title: string,
     description: string,
-    actions: string[],
-    targetChains: number[]
+    targets: string[],
+    calldatas: string[]
   ) => {
     if (!isInitialized || !currentNetwork) {
       toast({
@@ -377,8 +377,8 @@ export function useGovernance() {
       const proposalId = await contractService.createProposal(
         title,
         description,
-        actions,
-        targetChains
+        targets,
+        calldatas
       );
       
       toast({
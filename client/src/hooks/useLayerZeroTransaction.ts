@@ -1,11 +1,20 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { 
   LayerZeroTransaction, 
   TransactionStatus,
+  TransactionStatusChange,
   TransactionErrorType 
 } from '@/types/transaction';
 import { ErrorType, ErrorInfo } from '@/types/error';
+import { 
+  canTransition, 
+  isTerminalStatus, 
+  INITIAL_TRANSACTION_STATUS 
+} from '@shared/transactionStatus';
+import { subscribeToTransactions } from '@/lib/transactionStream';
+import { apiClient, apiKeys } from '@/lib/api';
+import type { ApiRequest, transactionsApi } from '@shared/api';
 
 interface TransactionOptions {
   onSubmitStart?: () => void;
@@ -19,64 +28,124 @@ interface TransactionOptions {
 export function useLayerZeroTransaction(options: TransactionOptions = {}) {
   const queryClient = useQueryClient();
   const [currentTransaction, setCurrentTransaction] = useState<LayerZeroTransaction | null>(null);
-  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>('pending');
+  const [transactionStatus, setTransactionStatus] = useState<TransactionStatus>(INITIAL_TRANSACTION_STATUS);
+  const [statusHistory, setStatusHistory] = useState<TransactionStatusChange[]>([]);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [error, setError] = useState<Error | ErrorInfo | null>(null);
   
+  // Unsubscribes and stops polling for the transaction being tracked
+  const stopTrackingRef = useRef<(() => void) | null>(null);
+  
+  const stopTracking = useCallback(() => {
+    stopTrackingRef.current?.();
+    stopTrackingRef.current = null;
+  }, []);
+  
+  // Nothing keeps listening once the component is gone
+  useEffect(() => stopTracking, [stopTracking]);
+  
+  // Load the per-stage timeline for a transaction
+  const fetchHistory = useCallback(async (transactionId: number) => {
+    try {
+      setStatusHistory(await apiClient.transactions.history({ params: { id: transactionId } }));
+    } catch (error) {
+      console.error('Error fetching transaction history:', error);
+    }
+  }, []);
+  
   // Track a transaction
   const trackTransaction = useCallback(async (transaction: LayerZeroTransaction) => {
+    // Only one transaction is followed at a time
+    stopTracking();
+    
     try {
+      let lastStatus = transaction.status as TransactionStatus;
+      
       setCurrentTransaction(transaction);
-      setTransactionStatus(transaction.status as TransactionStatus);
+      setTransactionStatus(lastStatus);
       setIsModalOpen(true);
       setError(null);
+      fetchHistory(transaction.id);
       
       options.onSubmitStart?.();
       
-      // Set up polling to track transaction status
+      // Apply a newer version of the transaction, from the stream or from polling
+      const applyUpdate = (updatedTransaction: LayerZeroTransaction) => {
+        // A poll that resolves after tracking stopped or moved on is stale
+        if (stopTrackingRef.current !== stopListening) {
+          return;
+        }
+        
+        const nextStatus = updatedTransaction.status as TransactionStatus;
+        
+        // Ignore out-of-order updates that would move the lifecycle backwards
+        if (!canTransition(lastStatus, nextStatus)) {
+          return;
+        }
+        
+        const statusChanged = nextStatus !== lastStatus;
+        lastStatus = nextStatus;
+        
+        setCurrentTransaction(updatedTransaction);
+        setTransactionStatus(nextStatus);
+        
+        if (!statusChanged) {
+          return;
+        }
+        
+        fetchHistory(transaction.id);
+        
+        // Handle status transitions
+        if (nextStatus === 'source_confirmed') {
+          options.onSourceConfirmed?.(updatedTransaction.sourceTxHash);
+        }
+        
+        if (nextStatus === 'destination_confirmed') {
+          options.onDestinationConfirmed?.(updatedTransaction.destinationTxHash || '');
+        }
+        
+        if (isTerminalStatus(nextStatus)) {
+          stopTracking();
+        }
+        
+        if (nextStatus === 'completed') {
+          options.onComplete?.(updatedTransaction);
+        }
+        
+        if (nextStatus === 'failed' || nextStatus === 'source_failed') {
+          const error: ErrorInfo = {
+            message: updatedTransaction.error || 'Transaction failed',
+            type: ErrorType.UNKNOWN,
+            details: updatedTransaction.data || undefined
+          };
+          setError(error);
+          options.onError?.(error);
+        }
+      };
+      
+      // Status changes are pushed by the server as they happen
+      const unsubscribe = subscribeToTransactions(transaction.walletAddress, (change) => {
+        if (change.transaction.id === transaction.id) {
+          applyUpdate(change.transaction);
+        }
+      });
+      
+      // Poll slowly as a fallback in case the stream misses an event
       const pollInterval = setInterval(async () => {
         try {
-          const response = await fetch(`/api/transactions/${transaction.id}`);
-          if (!response.ok) {
-            throw new Error('Failed to fetch transaction status');
-          }
-          
-          const updatedTransaction = await response.json();
-          setCurrentTransaction(updatedTransaction);
-          setTransactionStatus(updatedTransaction.status as TransactionStatus);
-          
-          // Handle status transitions
-          if (updatedTransaction.status === 'source_confirmed' && transaction.status !== 'source_confirmed') {
-            options.onSourceConfirmed?.(updatedTransaction.sourceTxHash);
-          }
-          
-          if (updatedTransaction.status === 'destination_confirmed' && transaction.status !== 'destination_confirmed') {
-            options.onDestinationConfirmed?.(updatedTransaction.destinationTxHash || '');
-          }
-          
-          if (updatedTransaction.status === 'completed') {
-            clearInterval(pollInterval);
-            options.onComplete?.(updatedTransaction);
-          }
-          
-          if (updatedTransaction.status === 'failed') {
-            clearInterval(pollInterval);
-            const error: ErrorInfo = {
-              message: updatedTransaction.error || 'Transaction failed',
-              type: ErrorType.UNKNOWN,
-              details: updatedTransaction.data || undefined
-            };
-            setError(error);
-            options.onError?.(error);
-          }
-          
+          applyUpdate(await apiClient.transactions.get({ params: { id: transaction.id } }));
         } catch (error) {
           console.error('Error polling transaction:', error);
         }
-      }, 3000); // Poll every 3 seconds
+      }, 15000); // Poll every 15 seconds
+      
+      const stopListening = () => {
+        clearInterval(pollInterval);
+        unsubscribe();
+      };
+      stopTrackingRef.current = stopListening;
       
-      // Clean up interval on component unmount
-      return () => clearInterval(pollInterval);
+      return stopTracking;
       
     } catch (err) {
       console.error('Error tracking transaction:', err);
@@ -87,28 +156,16 @@ export function useLayerZeroTransaction(options: TransactionOptions = {}) {
       setError(error);
       options.onError?.(error);
     }
-  }, [options, queryClient]);
+  }, [options, queryClient, fetchHistory, stopTracking]);
   
   // Create a new transaction
-  const createTransaction = useCallback(async (transactionData: Partial<LayerZeroTransaction>) => {
+  const createTransaction = useCallback(async (transactionData: ApiRequest<typeof transactionsApi.register>['body']) => {
     try {
-      const response = await fetch('/api/transactions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(transactionData),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to create transaction');
-      }
-      
-      const transaction = await response.json();
+      const transaction = await apiClient.transactions.register({ body: transactionData });
       trackTransaction(transaction);
       
       // Invalidate the transaction list query
-      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: apiKeys.transactions.list() });
       
       return transaction;
       
@@ -127,18 +184,10 @@ export function useLayerZeroTransaction(options: TransactionOptions = {}) {
   // Retry a failed transaction
   const retryTransaction = useCallback(async (transactionId: number) => {
     try {
-      const response = await fetch(`/api/transactions/${transactionId}/retry`, {
-        method: 'POST',
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to retry transaction');
-      }
-      
-      const result = await response.json();
+      const result = await apiClient.transactions.retry({ params: { id: transactionId } });
       
       // Invalidate the transaction list query
-      queryClient.invalidateQueries({ queryKey: ['/api/transactions'] });
+      queryClient.invalidateQueries({ queryKey: apiKeys.transactions.list() });
       
       // Track the retried transaction
       trackTransaction(result.transaction);
@@ -164,21 +213,25 @@ export function useLayerZeroTransaction(options: TransactionOptions = {}) {
   
   // Reset the current transaction state
   const resetTransaction = useCallback(() => {
+    stopTracking();
     setCurrentTransaction(null);
-    setTransactionStatus('pending');
+    setTransactionStatus(INITIAL_TRANSACTION_STATUS);
+    setStatusHistory([]);
     setIsModalOpen(false);
     setError(null);
-  }, []);
+  }, [stopTracking]);
   
   return {
     currentTransaction,
     transaction: currentTransaction, // Alias for better naming in components
     transactionStatus,
+    statusHistory,
     isModalOpen,
     error,
     transactionError: error, // Alias for better naming in components
     createTransaction,
     trackTransaction,
+    stopTracking,
     retryTransaction,
     closeTransactionModal,
     resetTransaction,
@@ -1,6 +1,7 @@
 import { useState, useCallback, useEffect } from "react";
 import { Network } from "@/types/network";
 import { AVAILABLE_NETWORKS } from "@/lib/constants";
+import { requireNetwork, toAddEthereumChainParams } from "@shared/networks";
 import { useWallet } from "@/hooks/useWallet";
 import { useToast } from "@/hooks/use-toast";
 
@@ -64,23 +65,7 @@ export function useNetwork() {
             try {
               await window.ethereum.request({
                 method: 'wallet_addEthereumChain',
-                params: [
-                  {
-                    chainId: `0x${network.chainId.toString(16)}`,
-                    chainName: network.name,
-                    nativeCurrency: {
-                      name: network.id === 'amoy' ? 'MATIC' : 'ETH',
-                      symbol: network.id === 'amoy' ? 'MATIC' : 'ETH',
-                      decimals: 18
-                    },
-                    rpcUrls: [network.id === 'sepolia' 
-                      ? 'https://sepolia.infura.io/v3/' 
-                      : 'https://rpc-amoy.polygon.technology'],
-                    blockExplorerUrls: [network.id === 'sepolia'
-                      ? 'https://sepolia.etherscan.io'
-                      : 'https://www.oklink.com/amoy']
-                  }
-                ]
+                params: [toAddEthereumChainParams(requireNetwork(network.id))]
               });
             } catch (addError) {
               console.error("Error adding chain:", addError);
@@ -1,5 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { apiQuery } from '@/lib/api';
 
 export interface Network {
   id: string;
@@ -11,21 +12,12 @@ export interface Network {
   color?: string;
   status?: 'active' | 'degraded' | 'inactive';
   blockNumber?: number;
+  blockAge?: number; // Seconds since the latest block
   gasPrice?: string;
   txCount?: number;
   latency?: number;
 }
 
-interface NetworkStatus {
-  networkId: string;
-  status: 'active' | 'degraded' | 'inactive';
-  latency?: number;
-  blockNumber?: number;
-  gasPrice?: string;
-  txCount?: number;
-  updatedAt?: Date;
-}
-
 export function useNetworkData() {
   const [selectedNetwork, setSelectedNetwork] = useState<Network | null>(null);
   
@@ -34,15 +26,8 @@ export function useNetworkData() {
     data: networks = [], 
     isLoading: isLoadingNetworks,
     error: networksError
-  } = useQuery<Network[]>({
-    queryKey: ['/api/layerzero/networks'],
-    queryFn: async () => {
-      const response = await fetch('/api/layerzero/networks');
-      if (!response.ok) {
-        throw new Error('Failed to fetch networks');
-      }
-      return response.json();
-    },
+  } = useQuery({
+    ...apiQuery.networks.registry(),
     refetchInterval: 60000, // Refetch every minute
   });
   
@@ -51,15 +36,8 @@ export function useNetworkData() {
     data: networkStatus = [],
     isLoading: isLoadingStatus,
     error: statusError
-  } = useQuery<NetworkStatus[]>({
-    queryKey: ['/api/networks'],
-    queryFn: async () => {
-      const response = await fetch('/api/networks');
-      if (!response.ok) {
-        throw new Error('Failed to fetch network status');
-      }
-      return response.json();
-    },
+  } = useQuery({
+    ...apiQuery.networks.statuses(),
     refetchInterval: 30000, // Refetch every 30 seconds
   });
   
@@ -101,10 +79,12 @@ export function useNetworkData() {
     return {
       ...network,
       status: status?.status || 'active',
-      blockNumber: status?.blockNumber,
-      gasPrice: status?.gasPrice,
-      txCount: status?.txCount,
-      latency: status?.latency
+      // Readings the probe has not taken yet are null in the response
+      blockNumber: status?.blockNumber ?? undefined,
+      blockAge: status?.blockAge ?? undefined,
+      gasPrice: status?.gasPrice ?? undefined,
+      txCount: status?.txCount ?? undefined,
+      latency: status?.latency ?? undefined
     };
   });
   
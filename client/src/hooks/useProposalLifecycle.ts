@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiQuery } from '@/lib/api';
+
+/**
+ * Lifecycle of a hub governor proposal from /api/proposal/:proposalId/lifecycle,
+ * plus a clock that ticks every second so countdowns to the next stage stay live
+ * between refetches.
+ */
+export function useProposalLifecycle(proposalId: string) {
+  const [now, setNow] = useState(() => Date.now());
+
+  const { data: lifecycle, isLoading, error } = useQuery({
+    ...apiQuery.proposals.lifecycle({ params: { proposalId } }),
+    refetchInterval: 30000,
+  });
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return {
+    lifecycle,
+    now,
+    isLoading,
+    error
+  };
+}
@@ -7,12 +7,14 @@ import {
   INITIAL_CHAIN_DISTRIBUTION,
   INITIAL_SUPPLY_CHECKS,
   BRIDGE_FEE_PERCENTAGE,
-  LAYERZERO_BASE_FEE
+  LAYERZERO_BASE_FEE,
+  OFT_SEND_GAS_LIMIT
 } from "@/lib/constants";
 import { useNetwork } from "@/hooks/useNetwork";
 import { useWallet } from "@/hooks/useWallet";
+import { useGasEstimates } from "@/hooks/useGasEstimates";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiClient } from "@/lib/api";
 import { ethers } from "ethers";
 import { useContractService } from "./useContractService";
 import { ContractErrorType } from "../services/contractService";
@@ -23,6 +25,7 @@ export function useToken() {
   const { currentNetwork, networks } = useNetwork();
   const { toast } = useToast();
   const { contractService, isInitialized } = useContractService();
+  const { getGasCost } = useGasEstimates();
   
   const [tokenStats, setTokenStats] = useState<TokenStats>(DEFAULT_TOKEN_STATS);
   const [userBalance, setUserBalance] = useState<UserBalance>(DEFAULT_USER_BALANCE);
@@ -147,20 +150,18 @@ export function useToken() {
       // LayerZero fee is a base fee plus a variable amount depending on destination
       let layerZeroFee = LAYERZERO_BASE_FEE;
       
-      // Gas fee depends on the source and destination chains
-      let gasFee = 1.25;
+      // Gas for the send() on the source chain, priced from the live estimate
+      const gasCost = getGasCost(currentNetwork.id, OFT_SEND_GAS_LIMIT);
+      const gasFee = gasCost?.usd ?? null;
       
-      if (destinationChainId.includes('arbitrum') || destinationChainId.includes('base')) {
-        gasFee = 0.85; // Lower gas fees for L2s
-      }
-      
-      // Calculate total cost
-      const totalCost = layerZeroFee + bridgeFee + gasFee;
+      // Calculate total cost; unpriced gas is shown separately in native currency
+      const totalCost = layerZeroFee + bridgeFee + (gasFee ?? 0);
       
       return {
         layerZeroFee,
         bridgeFee,
         gasFee,
+        gasCost: gasCost && { amount: gasCost.native, symbol: gasCost.symbol },
         totalCost
       };
     } catch (error) {
@@ -169,11 +170,11 @@ export function useToken() {
       return {
         layerZeroFee: LAYERZERO_BASE_FEE,
         bridgeFee: amount * BRIDGE_FEE_PERCENTAGE,
-        gasFee: 1.25,
-        totalCost: LAYERZERO_BASE_FEE + (amount * BRIDGE_FEE_PERCENTAGE) + 1.25
+        gasFee: null,
+        totalCost: LAYERZERO_BASE_FEE + (amount * BRIDGE_FEE_PERCENTAGE)
       };
     }
-  }, [currentNetwork, networks]);
+  }, [currentNetwork, networks, getGasCost]);
   
   // Bridge tokens to another chain using LayerZero
   const bridgeTokens = useCallback(async (amount: number, destinationChainId: string) => {
@@ -262,12 +263,13 @@ export function useToken() {
         );
         
         // Record the bridge transaction in our database
-        apiRequest('POST', '/api/bridge', {
-          amount,
-          fromChain: currentNetwork.id,
-          toChain: destinationChainId,
-          walletAddress: address,
-          txHash: txHash
+        apiClient.transactions.bridge({
+          body: {
+            amount,
+            fromChain: currentNetwork.id,
+            toChain: destinationChainId,
+            walletAddress: address
+          }
         });
         
         toast({
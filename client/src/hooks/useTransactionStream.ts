@@ -0,0 +1,41 @@
+import { useEffect } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import type { LayerZeroTransaction } from '@/types/transaction';
+import type { TransactionPage } from '@shared/transactionQuery';
+import { subscribeToTransactions } from '@/lib/transactionStream';
+import { apiKeys } from '@/lib/api';
+
+type TransactionPages = InfiniteData<TransactionPage<LayerZeroTransaction>>;
+
+/**
+ * Keep cached transaction lists in sync with server-pushed changes for a wallet.
+ * Updated rows are patched in place; new rows trigger a refetch so they land
+ * on the right page for each list's filters and sort order.
+ */
+export function useTransactionStream(walletAddress: string | null | undefined) {
+  const queryClient = useQueryClient();
+  
+  useEffect(() => {
+    if (!walletAddress) return;
+    
+    return subscribeToTransactions(walletAddress, (change) => {
+      if (change.kind === 'created') {
+        queryClient.invalidateQueries({ queryKey: apiKeys.transactions.list() });
+        return;
+      }
+      
+      const updated = change.transaction;
+      queryClient.setQueriesData<TransactionPages>({ queryKey: apiKeys.transactions.list() }, (data) => {
+        if (!data?.pages) return data;
+        
+        return {
+          ...data,
+          pages: data.pages.map(page => ({
+            ...page,
+            items: page.items.map(tx => (tx.id === updated.id ? updated : tx))
+          }))
+        };
+      });
+    });
+  }, [walletAddress, queryClient]);
+}
@@ -0,0 +1,126 @@
+import { api, type ApiContract, type ApiError, type ApiRequest, type ApiResponse } from "@shared/api";
+
+/**
+ * Typed client for the /api contracts in @shared/api, so a change to a route's
+ * request or response schema is a type error at every call site.
+ *
+ *   apiClient.transactions.get({ params: { id } })       -> Promise<LayerZeroTransaction>
+ *   apiKeys.transactions.list({ query })                  -> ["transactions", "list", { query }]
+ *   useQuery(apiQuery.dvn.access({ params: { networkId } }))
+ *
+ * Query keys are [group, endpoint, request], so apiKeys.transactions() and
+ * apiKeys.transactions.list() work as prefixes for invalidating a whole group
+ * or every page of one endpoint.
+ */
+
+type Api = typeof api;
+type ApiGroup = keyof Api;
+type ApiEndpoint<G extends ApiGroup> = keyof Api[G] & string;
+type ContractOf<G extends ApiGroup, E extends ApiEndpoint<G>> = Api[G][E] extends ApiContract ? Api[G][E] : never;
+
+// The request argument may be left out when nothing in it is required
+type RequestArgs<C extends ApiContract> = {} extends ApiRequest<C> ? [request?: ApiRequest<C>] : [request: ApiRequest<C>];
+
+export type ApiFunction<C extends ApiContract> = (...args: RequestArgs<C>) => Promise<ApiResponse<C>>;
+
+export type ApiQueryKey<G extends ApiGroup = ApiGroup, E extends string = string> =
+  readonly [G] | readonly [G, E] | readonly [G, E, unknown];
+
+export interface ApiQueryOptions<C extends ApiContract> {
+  queryKey: ApiQueryKey;
+  queryFn: () => Promise<ApiResponse<C>>;
+}
+
+type GroupKeys<G extends ApiGroup> = (() => readonly [G]) & {
+  [E in ApiEndpoint<G>]: (request?: ApiRequest<ContractOf<G, E>>) => ApiQueryKey<G, E>;
+};
+
+export class ApiRequestError extends Error {
+  constructor(public status: number, public body: ApiError | null, message: string) {
+    super(message);
+    this.name = "ApiRequestError";
+  }
+}
+
+function errorMessage(status: number, statusText: string, body: ApiError | null): string {
+  if (typeof body?.error === "string") return body.error;
+  if (Array.isArray(body?.error)) {
+    // zod issues from request validation
+    return body.error.map(issue => issue?.message ?? String(issue)).join("; ");
+  }
+  return `${status}: ${statusText}`;
+}
+
+function buildUrl(contract: ApiContract, request: ApiRequest<ApiContract>): string {
+  const params = ("params" in request ? request.params : undefined) as Record<string, unknown> | undefined;
+  const path = contract.path.replace(/:(\w+)(\([^)]*\))?/g, (_match, name: string) =>
+    encodeURIComponent(String(params?.[name])));
+
+  const query = ("query" in request ? request.query : undefined) as Record<string, unknown> | undefined;
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(query ?? {})) {
+    if (value === undefined || value === null) continue;
+    search.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Call one contract. Non-2xx responses throw an ApiRequestError carrying the
+ * server's { error } message.
+ */
+export async function callApi<C extends ApiContract>(contract: C, ...[request]: RequestArgs<C>): Promise<ApiResponse<C>> {
+  const input = (request ?? {}) as ApiRequest<ApiContract>;
+  const body = "body" in input ? input.body : undefined;
+  const headers: Record<string, string> = { ...("headers" in input ? input.headers as Record<string, string> : {}) };
+  if (body !== undefined) {
+    headers["Content-Type"] = "application/json";
+  }
+
+  const res = await fetch(buildUrl(contract, input), {
+    method: contract.method.toUpperCase(),
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const errorBody = await res.json().catch(() => null) as ApiError | null;
+    throw new ApiRequestError(res.status, errorBody, errorMessage(res.status, res.statusText, errorBody));
+  }
+  return res.json();
+}
+
+function mapGroups<T>(build: <G extends ApiGroup>(group: G, endpoints: Api[G]) => T): { [G in ApiGroup]: T } {
+  return Object.fromEntries(
+    (Object.keys(api) as ApiGroup[]).map(group => [group, build(group, api[group])])
+  ) as { [G in ApiGroup]: T };
+}
+
+function mapEndpoints<G extends ApiGroup, T>(endpoints: Api[G], build: (endpoint: string, contract: ApiContract) => T) {
+  return Object.fromEntries(
+    Object.entries(endpoints as Record<string, ApiContract>).map(([endpoint, contract]) => [endpoint, build(endpoint, contract)])
+  );
+}
+
+export const apiClient = mapGroups((_group, endpoints) =>
+  mapEndpoints(endpoints, (_endpoint, contract) => (request?: ApiRequest<ApiContract>) => callApi(contract, request))
+) as unknown as { [G in ApiGroup]: { [E in ApiEndpoint<G>]: ApiFunction<ContractOf<G, E>> } };
+
+export const apiKeys = mapGroups((group, endpoints) =>
+  Object.assign(
+    () => [group] as const,
+    mapEndpoints(endpoints, endpoint => (request?: unknown) =>
+      request === undefined ? [group, endpoint] as const : [group, endpoint, request] as const)
+  )
+) as unknown as { [G in ApiGroup]: GroupKeys<G> };
+
+// useQuery options (key and fetcher) for an endpoint
+export const apiQuery = mapGroups((group, endpoints) =>
+  mapEndpoints(endpoints, (endpoint, contract) => (request?: ApiRequest<ApiContract>) => ({
+    queryKey: request === undefined ? [group, endpoint] : [group, endpoint, request],
+    queryFn: () => callApi(contract, request),
+  }))
+) as unknown as { [G in ApiGroup]: { [E in ApiEndpoint<G>]: (...args: RequestArgs<ContractOf<G, E>>) => ApiQueryOptions<ContractOf<G, E>> } };
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { ethers } from "ethers";
+import { decodeCalldata } from "./calldataDecoder";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const TIMELOCK = "0x3333333333333333333333333333333333333333";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const ADDRESSES = { token: TOKEN, timelock: TIMELOCK };
+
+const coder = ethers.utils.defaultAbiCoder;
+const mint = new ethers.utils.Interface(["function mint(address account, uint256 amount)"])
+  .encodeFunctionData("mint", [RECIPIENT, ethers.utils.parseEther("1000")]);
+
+describe("decodeCalldata", () => {
+  it("names the function and the deployed contract a selector is sent to", () => {
+    const decoded = decodeCalldata(mint, { target: TOKEN, addresses: ADDRESSES });
+
+    expect(decoded.kind).toBe("call");
+    expect(decoded.summary).toBe("token.mint(0x2222…2222, 1,000 OGT)");
+    if (decoded.kind !== "call") return;
+    expect(decoded.signature).toBe("mint(address,uint256)");
+    expect(decoded.args.map(arg => arg.value)).toEqual([RECIPIENT, ethers.utils.parseEther("1000").toString()]);
+  });
+
+  it("prefers the ABI of the target when several contracts declare the selector", () => {
+    const data = new ethers.utils.Interface(["function grantRole(bytes32 role, address account)"])
+      .encodeFunctionData("grantRole", [ethers.utils.id("PROPOSER_ROLE"), RECIPIENT]);
+
+    const decoded = decodeCalldata(data, { target: TIMELOCK, addresses: ADDRESSES });
+    expect(decoded.kind === "call" && decoded.contract).toBe("timelock");
+    expect(decoded.summary.startsWith("timelock.grantRole(")).toBe(true);
+  });
+
+  it("shows an undeployed target by its address", () => {
+    const decoded = decodeCalldata(mint, { target: RECIPIENT, addresses: ADDRESSES });
+    expect(decoded.summary.startsWith("0x2222…2222.mint(")).toBe(true);
+  });
+
+  it("decodes the calls nested in an executor message against their targets", () => {
+    const message = coder.encode(["uint256", "address[]", "bytes[]"], [7, [TOKEN], [mint]]);
+
+    const decoded = decodeCalldata(message, { addresses: ADDRESSES });
+    expect(decoded.kind === "payload" && decoded.layout).toBe("executionMessage");
+    expect(decoded.summary).toBe("executionMessage(7, [0x1111…1111], [token.mint(0x2222…2222, 1,000 OGT)])");
+  });
+
+  it("decodes the call nested in a timelock operation", () => {
+    const operation = coder.encode(
+      ["bytes32", "address", "uint256", "bytes", "bytes32", "bytes32"],
+      [ethers.utils.id("operation"), TOKEN, ethers.utils.parseEther("0.5"), mint, ethers.constants.HashZero, ethers.constants.HashZero]
+    );
+
+    const decoded = decodeCalldata(operation, { addresses: ADDRESSES });
+    expect(decoded.kind === "payload" && decoded.layout).toBe("timelockOperation");
+    expect(decoded.summary).toContain("0.5 ETH, token.mint(0x2222…2222, 1,000 OGT)");
+  });
+
+  it("falls back to the raw bytes for unknown selectors", () => {
+    const data = `0xdeadbeef${"00".repeat(32)}`;
+
+    const decoded = decodeCalldata(data);
+    expect(decoded).toEqual({ kind: "raw", data, summary: "0xdeadbeef…0000 (36 bytes)" });
+  });
+
+  it("falls back to the raw bytes when the arguments do not decode", () => {
+    const truncated = mint.slice(0, 10 + 64);
+    expect(decodeCalldata(truncated, { target: TOKEN, addresses: ADDRESSES }).kind).toBe("raw");
+  });
+
+  it("leaves empty and non-hex calldata as it is", () => {
+    expect(decodeCalldata("0x").summary).toBe("0x");
+    expect(decodeCalldata("not calldata").kind).toBe("raw");
+  });
+});
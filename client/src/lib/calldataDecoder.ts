@@ -0,0 +1,235 @@
+import { ethers } from "ethers";
+import { ACTION_CONTRACTS } from "@shared/contractActions";
+import { OmniGovernTokenABI } from "@/contracts/IOmniGovernToken";
+import { OmniProposalExecutorABI } from "@/contracts/IOmniProposalExecutor";
+import { DVNConfigManagerABI } from "@/contracts/IDVNConfigManager";
+import { SELECTOR_REGISTRY } from "@/contracts/selectorRegistry";
+import OmniGovernorABI from "@/contracts/abis/OmniGovernor.json";
+import OmniGovernTokenJsonABI from "@/contracts/abis/OmniGovernToken.json";
+import OFTAbi from "@/contracts/OFTAbi.json";
+import LZEndpointAbi from "@/contracts/LZEndpointAbi.json";
+
+/**
+ * Human-readable calldata for proposal actions. Selectors are matched against
+ * the action contracts, the ABIs in client/src/contracts and the local
+ * selector registry. Bytes arguments are decoded again, so calls nested in
+ * executor messages, timelock operations and lzCompose messages read as calls
+ * too: token.mint(0xabc…1234, 1,000 OGT).
+ */
+
+export interface DecodedArgument {
+  name: string;
+  type: string;
+  value: string;      // Full value, e.g. for a tooltip
+  display: string;    // Compact form used in the summary
+}
+
+export type DecodedCalldata =
+  | { kind: "call"; contract: string | null; signature: string; args: DecodedArgument[]; summary: string }
+  | { kind: "payload"; layout: string; args: DecodedArgument[]; summary: string }   // ABI-encoded message without a selector
+  | { kind: "raw"; data: string; summary: string };
+
+export interface DecodeOptions {
+  target?: string;                                    // Address the calldata is sent to
+  addresses?: Partial<Record<string, string>>;        // Deployed contracts by id, to name targets
+}
+
+interface KnownFunction {
+  contract: string | null;
+  fragment: ethers.utils.FunctionFragment;
+}
+
+// Messages our contracts ABI-encode and pass around as bytes
+const PAYLOAD_LAYOUTS: { layout: string; types: string[] }[] = [
+  // OmniProposalExecutor lzCompose message to each chain's executor
+  { layout: "executionMessage", types: ["uint256 proposalId", "address[] targets", "bytes[] calldatas"] },
+  // TimelockedExecutor cross-chain payload
+  { layout: "timelockOperation", types: ["bytes32 operationId", "address target", "uint256 value", "bytes data", "bytes32 predecessor", "bytes32 salt"] }
+];
+
+const TOKEN_SYMBOL = "OGT";
+const MAX_DEPTH = 4;   // Nesting beyond this is shown as bytes
+
+// Selector -> every function declaring it, the deployed action contracts first
+const KNOWN_FUNCTIONS = buildSelectorIndex([
+  ...ACTION_CONTRACTS.map(contract => ({ contract: contract.id as string | null, abi: contract.abi as readonly any[] })),
+  { contract: "token", abi: OmniGovernTokenABI },
+  { contract: "executor", abi: OmniProposalExecutorABI },
+  { contract: "dvnManager", abi: DVNConfigManagerABI },
+  { contract: "governor", abi: OmniGovernorABI },
+  { contract: "token", abi: OmniGovernTokenJsonABI },
+  { contract: "token", abi: OFTAbi },
+  { contract: "endpoint", abi: LZEndpointAbi },
+  ...SELECTOR_REGISTRY.map(entry => ({ contract: entry.contract, abi: entry.signatures }))
+]);
+
+function buildSelectorIndex(sources: { contract: string | null; abi: readonly any[] }[]): Map<string, KnownFunction[]> {
+  const index = new Map<string, KnownFunction[]>();
+  for (const { contract, abi } of sources) {
+    // Fragment by fragment, as some generated ABIs repeat a definition
+    for (const entry of abi) {
+      const fragment = ethers.utils.Fragment.from(entry);
+      if (!(fragment instanceof ethers.utils.FunctionFragment)) continue;
+
+      const selector = ethers.utils.Interface.getSighash(fragment);
+      const known = index.get(selector) ?? [];
+      if (!known.some(entry => entry.contract === contract)) {
+        index.set(selector, [...known, { contract, fragment }]);
+      }
+    }
+  }
+  return index;
+}
+
+function shortenHex(hex: string, length = 6): string {
+  return hex.length > length * 2 + 2 ? `${hex.slice(0, length)}…${hex.slice(-4)}` : hex;
+}
+
+// Contract id of a deployed address, if it is one of ours
+function contractAt(address: string | undefined, addresses: DecodeOptions["addresses"]): string | null {
+  if (!address || !addresses) return null;
+  const match = Object.entries(addresses).find(([, deployed]) => deployed?.toLowerCase() === address.toLowerCase());
+  return match ? match[0] : null;
+}
+
+function formatAmount(value: ethers.BigNumber, unit: string): string {
+  return `${ethers.utils.commify(ethers.utils.formatEther(value)).replace(/\.0$/, "")} ${unit}`;
+}
+
+interface FormatContext {
+  contract: string | null;
+  addresses: DecodeOptions["addresses"];
+  depth: number;
+  target?: string | string[];   // Target paired with a bytes argument, for calls nested in it
+}
+
+function formatValue(param: ethers.utils.ParamType, value: any, context: FormatContext): { value: string; display: string } {
+  if (param.baseType === "array") {
+    const items = (value as any[]).map((item, i) =>
+      formatValue(param.arrayChildren, item, { ...context, target: Array.isArray(context.target) ? context.target[i] : context.target })
+    );
+    return {
+      value: `[${items.map(item => item.value).join(", ")}]`,
+      display: `[${items.map(item => item.display).join(", ")}]`
+    };
+  }
+
+  if (param.baseType === "tuple") {
+    const items = param.components.map((component, i) => formatValue(component, value[i], context));
+    return {
+      value: `(${items.map(item => item.value).join(", ")})`,
+      display: `(${items.map(item => item.display).join(", ")})`
+    };
+  }
+
+  if (param.type === "bytes") {
+    const target = Array.isArray(context.target) ? undefined : context.target;
+    const nested = decodeBytes(value, { target, addresses: context.addresses }, context.depth + 1);
+    return { value, display: nested.summary };
+  }
+
+  if (param.type === "address") {
+    return { value, display: shortenHex(value) };
+  }
+
+  if (param.type === "string") {
+    const text = JSON.stringify(value);
+    return { value: text, display: text.length > 34 ? `${text.slice(0, 32)}…"` : text };
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    const number = ethers.BigNumber.from(value);
+    // Token amounts on the token, native value everywhere else
+    if (context.contract === "token" && /amount|value/i.test(param.name ?? "")) {
+      return { value: number.toString(), display: formatAmount(number, TOKEN_SYMBOL) };
+    }
+    if (/^_?values?$/i.test(param.name ?? "")) {
+      return { value: number.toString(), display: formatAmount(number, "ETH") };
+    }
+    return { value: number.toString(), display: number.toString() };
+  }
+
+  if (param.type.startsWith("bytes")) {
+    return { value, display: shortenHex(value) };
+  }
+
+  return { value: String(value), display: String(value) };
+}
+
+// Targets sit next to the calldata they receive: target/data, targets/calldatas, ...
+function targetFor(params: ethers.utils.ParamType[], values: ethers.utils.Result): string | string[] | undefined {
+  const index = params.findIndex(param => /^_?targets?$/i.test(param.name ?? "") && param.type.startsWith("address"));
+  return index >= 0 ? values[index] : undefined;
+}
+
+function decodeArguments(params: ethers.utils.ParamType[], values: ethers.utils.Result, context: FormatContext): DecodedArgument[] {
+  const target = targetFor(params, values);
+  return params.map((param, i) => ({
+    name: param.name || `arg${i}`,
+    type: param.type,
+    ...formatValue(param, values[i], { ...context, target })
+  }));
+}
+
+function raw(data: string): DecodedCalldata {
+  const length = ethers.utils.isHexString(data) ? ethers.utils.hexDataLength(data) : 0;
+  return { kind: "raw", data, summary: length > 0 ? `${shortenHex(data, 10)} (${length} bytes)` : data };
+}
+
+function decodeCall(data: string, options: DecodeOptions, depth: number): DecodedCalldata | null {
+  const known = KNOWN_FUNCTIONS.get(data.slice(0, 10).toLowerCase());
+  if (!known) return null;
+
+  // Prefer the ABI of the contract the call is sent to
+  const targetContract = contractAt(options.target, options.addresses);
+  const match = known.find(entry => entry.contract === targetContract) ?? known[0];
+
+  let values: ethers.utils.Result;
+  try {
+    values = ethers.utils.defaultAbiCoder.decode(match.fragment.inputs, ethers.utils.hexDataSlice(data, 4));
+  } catch (error) {
+    return null;
+  }
+
+  const args = decodeArguments(match.fragment.inputs, values, { contract: match.contract, addresses: options.addresses, depth });
+  const receiver = targetContract ?? (options.target ? shortenHex(options.target) : match.contract);
+  return {
+    kind: "call",
+    contract: targetContract ?? match.contract,
+    signature: match.fragment.format(),
+    args,
+    summary: `${receiver ? `${receiver}.` : ""}${match.fragment.name}(${args.map(arg => arg.display).join(", ")})`
+  };
+}
+
+// Only a layout that re-encodes to exactly the same bytes is taken as a match
+function decodePayload(data: string, options: DecodeOptions, depth: number): DecodedCalldata | null {
+  for (const { layout, types } of PAYLOAD_LAYOUTS) {
+    const params = types.map(type => ethers.utils.ParamType.from(type));
+    try {
+      const values = ethers.utils.defaultAbiCoder.decode(params, data);
+      if (ethers.utils.defaultAbiCoder.encode(params, values).toLowerCase() !== data.toLowerCase()) continue;
+
+      const args = decodeArguments(params, values, { contract: null, addresses: options.addresses, depth });
+      return { kind: "payload", layout, args, summary: `${layout}(${args.map(arg => arg.display).join(", ")})` };
+    } catch (error) {
+      continue;
+    }
+  }
+  return null;
+}
+
+function decodeBytes(data: string, options: DecodeOptions, depth: number): DecodedCalldata {
+  if (!ethers.utils.isHexString(data) || data.length < 10 || depth > MAX_DEPTH) {
+    return raw(data);
+  }
+  return decodeCall(data, options, depth) ?? decodePayload(data, options, depth) ?? raw(data);
+}
+
+/**
+ * Decode the calldata of one action. Unknown selectors and malformed data
+ * fall back to the raw bytes.
+ */
+export function decodeCalldata(data: string, options: DecodeOptions = {}): DecodedCalldata {
+  return decodeBytes(data, options, 0);
+}
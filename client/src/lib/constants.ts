@@ -1,5 +1,6 @@
 import { ChainDistribution, SupplyCheck } from "@/types/token";
 import { Network } from "@/types/network";
+import { NETWORK_REGISTRY } from "@shared/networks";
 
 // Default token stats
 export const DEFAULT_TOKEN_STATS = {
@@ -79,38 +80,26 @@ export const INITIAL_SUPPLY_CHECKS: SupplyCheck[] = [
   }
 ];
 
-// Available testnet networks updated for LayerZero V2
-export const AVAILABLE_NETWORKS: Network[] = [
-  {
-    id: 'sepolia',
-    name: 'Ethereum Sepolia',
-    chainId: 11155111,
-    lzChainId: 10161, // LayerZero chain ID for Sepolia
-    status: 'active',
-    latency: 12,
-    gasPrice: '0.05',
-    txCount: 8765,
-    color: '#627EEA',
-    isHub: true, // Hub chain for governance coordination
-    lzEndpoint: '0xae92d5aD7583AD66E49A0c67BAd18F6ba52dDDc1' // LayerZero V2 endpoint on Sepolia
-  },
-  {
-    id: 'amoy',
-    name: 'Polygon Amoy',
-    chainId: 80002,
-    lzChainId: 40161, // LayerZero chain ID for Amoy
-    status: 'active',
-    latency: 8,
-    gasPrice: '0.01',
-    txCount: 5432,
-    color: '#8247E5',
-    isHub: false,
-    lzEndpoint: '0xf69186dfBa60DdB133E91E9A4B5673624293d8F8' // LayerZero V2 endpoint on Amoy
-  }
-];
+// Available testnet networks, from the shared network registry
+export const AVAILABLE_NETWORKS: Network[] = NETWORK_REGISTRY.map(network => ({
+  id: network.id,
+  name: network.name,
+  chainId: network.chainId,
+  lzChainId: network.lzChainId,
+  rpc: network.rpcUrls[0],
+  explorer: network.explorer,
+  isHub: network.isHub,
+  color: network.color,
+  type: 'testnet',
+  status: 'active',
+  lzEndpoint: network.lzEndpoint
+}));
 
 // Bridge fee percentage (0.1%)
 export const BRIDGE_FEE_PERCENTAGE = 0.001;
 
+// Gas limit budgeted for an OFT send() when estimating bridge gas costs
+export const OFT_SEND_GAS_LIMIT = 250000;
+
 // Fixed LayerZero fee (in USD)
 export const LAYERZERO_BASE_FEE = 0.15;
@@ -0,0 +1,37 @@
+import type { ethers } from "ethers";
+import { formatSiweMessage, SIWE_STATEMENT, type AuthSession } from "@shared/siwe";
+import { getHubNetwork, getNetworkByChainId } from "@shared/networks";
+import { apiClient } from "./api";
+
+// How long a signed message stays valid for /api/auth/verify
+const SIGN_IN_MESSAGE_TTL_MS = 10 * 60 * 1000;
+
+export function fetchSession(): Promise<AuthSession> {
+  return apiClient.auth.session();
+}
+
+// Ask the wallet to sign an EIP-4361 message and exchange it for a server session
+export async function signInWithEthereum(signer: ethers.Signer, address: string, chainId: number | null): Promise<AuthSession> {
+  const { nonce } = await apiClient.auth.nonce();
+  const issuedAt = new Date();
+
+  const message = formatSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    // Wallets on a chain outside the registry sign in against the hub
+    chainId: chainId && getNetworkByChainId(chainId) ? chainId : getHubNetwork().chainId,
+    nonce,
+    issuedAt: issuedAt.toISOString(),
+    expirationTime: new Date(issuedAt.getTime() + SIGN_IN_MESSAGE_TTL_MS).toISOString()
+  });
+  const signature = await signer.signMessage(message);
+
+  return apiClient.auth.verify({ body: { message, signature } });
+}
+
+export function signOut(): Promise<AuthSession> {
+  return apiClient.auth.logout();
+}
@@ -0,0 +1,56 @@
+import type { LayerZeroTransaction } from '@/types/transaction';
+import { TRANSACTION_STREAM_EVENT, type TransactionChangeEvent } from '@shared/transactionEvents';
+
+export type TransactionChange = TransactionChangeEvent<LayerZeroTransaction>;
+type ChangeListener = (change: TransactionChange) => void;
+
+interface Stream {
+  source: EventSource;
+  listeners: Set<ChangeListener>;
+}
+
+// One EventSource per wallet, shared by every subscriber for that wallet
+const streams = new Map<string, Stream>();
+
+function openStream(walletAddress: string): Stream {
+  const source = new EventSource(`/api/transactions/stream?walletAddress=${encodeURIComponent(walletAddress)}`);
+  const stream: Stream = { source, listeners: new Set() };
+  
+  source.addEventListener(TRANSACTION_STREAM_EVENT, (event) => {
+    try {
+      const change = JSON.parse((event as MessageEvent).data) as TransactionChange;
+      stream.listeners.forEach(listener => listener(change));
+    } catch (error) {
+      console.error('Invalid transaction stream event:', error);
+    }
+  });
+  
+  return stream;
+}
+
+/**
+ * Listen for changes to a wallet's LayerZero transactions.
+ * EventSource reconnects on its own after network errors.
+ * Returns a function that stops listening.
+ */
+export function subscribeToTransactions(walletAddress: string, listener: ChangeListener): () => void {
+  const key = walletAddress.toLowerCase();
+  let stream = streams.get(key);
+  
+  if (!stream) {
+    stream = openStream(key);
+    streams.set(key, stream);
+  }
+  stream.listeners.add(listener);
+  
+  return () => {
+    const current = streams.get(key);
+    if (!current) return;
+    
+    current.listeners.delete(listener);
+    if (current.listeners.size === 0) {
+      current.source.close();
+      streams.delete(key);
+    }
+  };
+}
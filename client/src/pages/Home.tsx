@@ -13,6 +13,7 @@ import ProposalVoting from "@/components/ProposalVoting";
 import CrossChainVoting from "@/components/CrossChainVoting";
 import VoteAggregation from "@/components/VoteAggregation";
 import ExecutionLayer from "@/components/ExecutionLayer";
+import ProposalTimeline from "@/components/ProposalTimeline";
 import WalletConnectModal from "@/components/WalletConnectModal";
 import { useWallet } from "@/hooks/useWallet";
 
@@ -51,6 +52,7 @@ export default function Home() {
           <div className="mt-4 space-y-6">
             <GovernanceOverview />
             <VoteAggregation />
+            <ProposalTimeline proposalId="1" />
             <ExecutionLayer proposalId="1" proposalTitle="Protocol Fee Adjustment" />
           </div>
         )}
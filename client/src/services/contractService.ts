@@ -244,34 +244,30 @@ export class ContractService {
     }
   }
   
-  // Submit a proposal
+  // Submit a proposal; targets and calldatas are per action, in execution order. The executor
+  // sends every action to each chain it has configured and cannot attach value to a call.
   async createProposal(
     title: string,
     description: string,
-    actions: string[],
-    targetChains: number[]
+    targets: string[],
+    calldatas: string[]
   ): Promise<number> {
     try {
       const { proposalExecutor } = this.getContracts();
       
-      // Convert target chains to LayerZero chain IDs
-      const lzTargetChains = targetChains.map(chainId => {
-        const lzChainId = getLzChainId(chainId);
-        if (!lzChainId) {
-          throw new ContractError(
-            `Target chain ${chainId} not supported by LayerZero`, 
-            ContractErrorType.INVALID_PARAMETERS
-          );
-        }
-        return lzChainId;
-      });
+      if (targets.length === 0 || calldatas.length !== targets.length) {
+        throw new ContractError(
+          'Every action needs a target and calldata',
+          ContractErrorType.INVALID_PARAMETERS
+        );
+      }
       
       // Create the proposal
       const tx = await proposalExecutor.createProposal(
         title,
         description,
-        actions,
-        lzTargetChains
+        targets,
+        calldatas
       );
       
       // Wait for transaction to be mined
@@ -1,37 +1,19 @@
 import { ethers } from 'ethers';
 import { Network } from '@/types/token';
 import OFTAbi from '@/contracts/OFTAbi.json';
-import { LZ_NETWORKS } from './layerzero';
+import { LZ_NETWORKS, quoteLayerZeroFee } from './layerzero';
+import { getNetworkByChainId } from '@shared/networks';
 
 // Get an ethers provider for a specific network
 export const getProvider = (network: Network) => {
-  // Default RPC endpoints for testnets - include multiple options for redundancy
-  const rpcUrls: Record<number, string[]> = {
-    5: [
-      'https://ethereum-goerli.publicnode.com',
-      'https://goerli.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-      'https://rpc.ankr.com/eth_goerli'
-    ],
-    80001: [
-      'https://rpc-mumbai.maticvigil.com',
-      'https://polygon-mumbai.infura.io/v3/9aa3d95b3bc440fa88ea12eaa4456161',
-      'https://rpc.ankr.com/polygon_mumbai'
-    ],
-    421613: [
-      'https://goerli-rollup.arbitrum.io/rpc',
-      'https://arbitrum-goerli.publicnode.com'
-    ],
-    84531: [
-      'https://goerli.base.org',
-      'https://base-goerli.public.blastapi.io'
-    ]
-  };
+  // Public RPC endpoints from the shared network registry
+  const rpcUrls = getNetworkByChainId(network.chainId)?.rpcUrls || [];
   
   try {
     // Check if we have specific RPC URLs for this network
-    if (rpcUrls[network.chainId] && rpcUrls[network.chainId].length > 0) {
+    if (rpcUrls.length > 0) {
       // Create a provider with automatic fallback
-      const providers = rpcUrls[network.chainId].map(url => new ethers.JsonRpcProvider(url));
+      const providers = rpcUrls.map(url => new ethers.JsonRpcProvider(url));
       
       // Return the first provider - in a production app we would implement
       // a more robust fallback mechanism
@@ -121,53 +103,32 @@ export const getWalletBalance = async (
   }
 };
 
-// Estimate LayerZero fee for cross-chain transfer
+// Estimate LayerZero fee for cross-chain transfer; rejects when the server cannot quote it
 export const estimateLayerZeroFee = async (
   srcChainId: number,
   dstChainId: number,
   walletAddress: string,
-  amount: string,
-  provider: ethers.Provider
+  amount: string
 ) => {
-  try {
-    // Find the network info for source and destination chains
-    const srcNetworkInfo = Object.values(LZ_NETWORKS).find(n => n.chainId === srcChainId);
-    const dstNetworkInfo = Object.values(LZ_NETWORKS).find(n => n.chainId === dstChainId);
-    
-    if (!srcNetworkInfo || !dstNetworkInfo) {
-      throw new Error("Source or destination network not supported");
-    }
-    
-    const contract = getOftContract(srcNetworkInfo.oftAddress, provider);
-    
-    // Convert destination address to bytes
-    const dstAddressBytes = ethers.toUtf8Bytes(walletAddress);
-    
-    // Convert amount to Wei based on decimals
-    const decimals = await contract.decimals();
-    const amountInWei = ethers.parseUnits(amount, decimals);
-    
-    // Estimate fee
-    const [nativeFee, zroFee] = await contract.estimateSendFee(
-      dstNetworkInfo.lzChainId,
-      dstAddressBytes,
-      amountInWei,
-      false, // don't use ZRO tokens for fees
-      '0x' // default adapter params
-    );
-    
-    return {
-      nativeFee: ethers.formatEther(nativeFee),
-      zroFee: ethers.formatEther(zroFee)
-    };
-  } catch (error) {
-    console.error("Error estimating LayerZero fee:", error);
-    // Return default values if estimation fails
-    return {
-      nativeFee: "0.01",
-      zroFee: "0"
-    };
+  // Find the network info for source and destination chains
+  const srcNetwork = getNetworkByChainId(srcChainId);
+  const dstNetwork = getNetworkByChainId(dstChainId);
+  
+  if (!srcNetwork || !dstNetwork) {
+    throw new Error("Source or destination network not supported");
   }
+  
+  const quote = await quoteLayerZeroFee({
+    src: srcNetwork.id,
+    dst: dstNetwork.id,
+    amount,
+    to: walletAddress
+  });
+  
+  return {
+    nativeFee: quote.nativeFee,
+    zroFee: quote.lzTokenFee
+  };
 };
 
 // Send tokens from one chain to another
@@ -19,6 +19,8 @@ export interface ProposalDetails {
   snapshot: number;
   quorum: string;
   executionETA: number | null;
+  targets: string[];      // Empty when the creation event could not be found
+  calldatas: string[];
 }
 
 /**
@@ -32,6 +34,9 @@ export interface VoteDetails {
   timestamp: number;
 }
 
+// OpenZeppelin Governor's creation event, which the generated ABI leaves out
+const PROPOSAL_CREATED_EVENT = 'event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)';
+
 /**
  * Get the OmniGovernor contract instance
  */
@@ -66,9 +71,12 @@ export async function getProposalDetails(
     executionETA = await governor.proposalEta(proposalId);
   }
   
-  // Get proposal description - we would need to find the create proposal event
-  // For demo purposes, use a placeholder
-  const description = `Proposal ${proposalId}`;
+  // Description and actions only exist in the creation event, emitted votingDelay blocks before the snapshot
+  const creationBlock = Number(snapshot) - Number(await governor.votingDelay());
+  const created: any = (await new ethers.Contract(governorAddress, [PROPOSAL_CREATED_EVENT], provider)
+    .queryFilter('ProposalCreated', creationBlock, creationBlock))
+    .find((event: any) => event.args.proposalId.toString() === proposalId);
+  const description = created ? created.args.description : `Proposal ${proposalId}`;
   
   // Map state number to human-readable status
   const statusMap: Record<number, string> = {
@@ -93,7 +101,9 @@ export async function getProposalDetails(
     deadline: Number(deadline),
     snapshot: Number(snapshot),
     quorum: ethers.formatEther(quorum),
-    executionETA: executionETA ? Number(executionETA) : null
+    executionETA: executionETA ? Number(executionETA) : null,
+    targets: created ? [...created.args.targets] : [],
+    calldatas: created ? [...created.args.calldatas] : []
   };
 }
 
@@ -312,7 +322,9 @@ export async function getRecentProposals(
       deadline: Math.floor(Date.now() / 1000) + 86400 * 3, // 3 days from now
       snapshot: Math.floor(Date.now() / 1000) - 3600, // 1 hour ago
       quorum: '2000000',
-      executionETA: null
+      executionETA: null,
+      targets: [],
+      calldatas: []
     }
   ];
 }
\ No newline at end of file
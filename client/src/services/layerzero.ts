@@ -3,6 +3,10 @@ import { Network } from '@/types/token';
 import OFTAbi from '@/contracts/OFTAbi.json';
 import LZEndpointAbi from '@/contracts/LZEndpointAbi.json';
 import { getProvider } from './ethereum';
+import { NETWORK_REGISTRY } from '@shared/networks';
+import { CONTRACT_ADDRESSES } from '@/config/contracts';
+import type { LayerZeroFeeQuery, LayerZeroFeeQuote } from '@shared/layerzeroFees';
+import { apiClient } from '@/lib/api';
 
 // LayerZero constants for all supported chains
 export interface LayerZeroNetworkInfo {
@@ -13,37 +17,16 @@ export interface LayerZeroNetworkInfo {
   endpointAddress: string;
 }
 
-// Real testnet addresses
-export const LZ_NETWORKS: Record<string, LayerZeroNetworkInfo> = {
-  'ethereum-goerli': {
-    chainId: 5,
-    lzChainId: 10121,
-    name: 'Ethereum Goerli',
-    oftAddress: '0x509Ee0d083DdF8AC028f2a56731412edD63223B9', // Sample OFT V2 token on Goerli
-    endpointAddress: '0xbfD2135BFfbb0B5378b56643c2Df8a87552Bfa23' // LZ Endpoint on Goerli
-  },
-  'polygon-mumbai': {
-    chainId: 80001,
-    lzChainId: 10109,
-    name: 'Polygon Mumbai',
-    oftAddress: '0xF8731EB567C4C7693cFF993965E76F9B1343e1c8', // Sample OFT V2 token on Mumbai
-    endpointAddress: '0xf69186dfBa60DdB133E91E9A4B5673624293d8F8' // LZ Endpoint on Mumbai
-  },
-  'arbitrum-goerli': {
-    chainId: 421613,
-    lzChainId: 10143,
-    name: 'Arbitrum Goerli',
-    oftAddress: '0x6aB5Ae6822647046626e83ee6dB8187151E1d5ab', // Sample OFT V2 token on Arbitrum Goerli
-    endpointAddress: '0x6098e96a28E02f27B1e6BD381f870F1C8Bd169d3' // LZ Endpoint on Arbitrum Goerli
-  },
-  'base-goerli': {
-    chainId: 84531,
-    lzChainId: 10160,
-    name: 'Base Goerli',
-    oftAddress: '0x0Fc5f8A8A887A8E7D158Fe21D6e9033Ed1c85Fd9', // Sample OFT V2 token on Base Goerli
-    endpointAddress: '0x6aB5Ae6822647046626e83ee6dB8187151E1d5ab' // LZ Endpoint on Base Goerli
-  }
-};
+// Supported networks from the shared registry, keyed by network id
+export const LZ_NETWORKS: Record<string, LayerZeroNetworkInfo> = Object.fromEntries(
+  NETWORK_REGISTRY.map(network => [network.id, {
+    chainId: network.chainId,
+    lzChainId: network.lzChainId,
+    name: network.name,
+    oftAddress: CONTRACT_ADDRESSES[network.chainId]?.tokenContract || '',
+    endpointAddress: network.lzEndpoint
+  }])
+);
 
 /**
  * Get the OFT contract instance for a specific network
@@ -84,58 +67,39 @@ export const getLZEndpointContract = (network: Network) => {
 }
 
 /**
- * Estimate gas fees for a cross-chain transfer
+ * Quote a LayerZero fee from the server, which reads it from the deployed
+ * adapter, OFT and DVN manager contracts
+ */
+export const quoteLayerZeroFee = async (query: LayerZeroFeeQuery): Promise<LayerZeroFeeQuote> => {
+  return apiClient.networks.fees({ query });
+}
+
+/**
+ * Estimate gas fees for a cross-chain transfer. A failed quote rejects with
+ * the ApiRequestError, as there is no fee to show without one.
  */
 export const estimateCrossChainFee = async (
-  srcNetwork: Network,
-  dstNetwork: Network,
+  srcNetwork: Pick<Network, 'id'>,
+  dstNetwork: Pick<Network, 'id'>,
   amount: string,
   addressFrom: string
 ) => {
-  try {
-    const srcNetworkInfo = LZ_NETWORKS[srcNetwork.id];
-    const dstNetworkInfo = LZ_NETWORKS[dstNetwork.id];
-    
-    if (!srcNetworkInfo || !dstNetworkInfo) {
-      throw new Error('Network not supported');
-    }
-    
-    const provider = getProvider(srcNetwork);
-    const oftContract = new ethers.Contract(srcNetworkInfo.oftAddress, OFTAbi, provider);
-    
-    // Convert the destination address to bytes
-    const dstAddressBytes = ethers.toUtf8Bytes(addressFrom);
-    
-    // Convert amount to Wei
-    const amountInWei = ethers.parseEther(amount);
-    
-    // Get fee estimate from the OFT contract
-    const [nativeFee, zroFee] = await oftContract.estimateSendFee(
-      dstNetworkInfo.lzChainId,
-      dstAddressBytes,
-      amountInWei,
-      false, // don't use ZRO tokens for fees
-      '0x' // default adapter params
-    );
-    
-    // Convert the fees from Wei to Ether
-    const nativeFeeInEth = ethers.formatEther(nativeFee);
-    const zroFeeInEth = ethers.formatEther(zroFee);
-    
-    return {
-      nativeFee: parseFloat(nativeFeeInEth),
-      zroFee: parseFloat(zroFeeInEth),
-      totalFee: parseFloat(nativeFeeInEth) + parseFloat(zroFeeInEth)
-    };
-  } catch (error) {
-    console.error("Error estimating cross-chain fee:", error);
-    // Return default values if estimation fails
-    return {
-      nativeFee: 0.01,
-      zroFee: 0,
-      totalFee: 0.01
-    };
-  }
+  const quote = await quoteLayerZeroFee({
+    src: srcNetwork.id,
+    dst: dstNetwork.id,
+    amount,
+    to: addressFrom
+  });
+  
+  const nativeFee = parseFloat(quote.nativeFee);
+  const zroFee = parseFloat(quote.lzTokenFee);
+  
+  return {
+    nativeFee,
+    zroFee,
+    totalFee: nativeFee + zroFee,
+    components: quote.components
+  };
 }
 
 /**
@@ -31,7 +31,8 @@ export interface Contracts {
 export interface BridgeFees {
   layerZeroFee: number;
   bridgeFee: number;
-  gasFee: number;
+  gasFee: number | null;                        // USD, null when the native currency has no price
+  gasCost?: { amount: number; symbol: string }; // Source-chain gas in native currency
   totalCost: number;
 }
 
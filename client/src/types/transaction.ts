@@ -3,6 +3,9 @@
  * These types help track and display cross-chain transactions powered by LayerZero
  */
 
+import type { TransactionStatus } from '@shared/transactionStatus';
+import type { ApiResponse, transactionsApi } from '@shared/api';
+
 // Transaction types supported by the platform
 export type TransactionType = 
   | 'token_bridge'    // OFT token bridging across chains
@@ -12,15 +15,8 @@ export type TransactionType =
   | 'execution'       // Executing a passed proposal
   | 'other';          // Other transaction types
 
-// Transaction status states
-export type TransactionStatus = 
-  | 'pending'                // Initial state, transaction submitted but not confirmed
-  | 'source_confirmed'       // Transaction confirmed on source chain
-  | 'source_failed'          // Transaction failed on source chain
-  | 'in_flight'              // Message in flight across chains via LayerZero
-  | 'destination_confirmed'  // Transaction confirmed on destination chain
-  | 'completed'              // Transaction fully completed on all chains
-  | 'failed';                // Transaction failed
+// Transaction status states, shared with the server's transition table
+export type { TransactionStatus } from '@shared/transactionStatus';
 
 // Error types that might occur during transactions
 export type TransactionErrorType =
@@ -33,24 +29,11 @@ export type TransactionErrorType =
   | 'relayer_error'          // LayerZero relayer error
   | 'unknown';               // Unknown error
 
-// Interface for LayerZero transaction objects
-export interface LayerZeroTransaction {
-  id: number;
-  type: TransactionType;
-  walletAddress: string;
-  sourceChain: string;
-  sourceTxHash: string;
-  destinationChain?: string | null;
-  destinationTxHash?: string | null;
-  amount?: string | null;
-  token?: string | null;
-  status: string;
-  messageId?: string | null;
-  data?: any | null;
-  error?: string | null;
-  createdAt: Date;
-  updatedAt: Date;
-}
+// LayerZero transaction rows as the API returns them
+export type LayerZeroTransaction = ApiResponse<typeof transactionsApi.get>;
+
+// A single lifecycle transition recorded by the server
+export type TransactionStatusChange = ApiResponse<typeof transactionsApi.history>[number];
 
 // Interface for transaction retry options
 export interface TransactionRetryOptions {
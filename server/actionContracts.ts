@@ -0,0 +1,34 @@
+import { ethers } from "ethers";
+import type { NetworkDefinition } from "@shared/networks";
+import { ACTION_CONTRACT_IDS, type ActionContractAddresses } from "@shared/contractActions";
+import { CONTRACT_ADDRESSES, GOVERNOR_ABI, providers } from "./web3";
+
+/**
+ * Addresses of the contracts on a network that governance actions can target,
+ * from its deployment file. A network whose deployment lists no timelock
+ * reports the one its governor queues on, when it has a governor.
+ */
+export async function getActionContractAddresses(network: NetworkDefinition): Promise<ActionContractAddresses> {
+  const deployment = CONTRACT_ADDRESSES[network.id] ?? {};
+  const addresses: ActionContractAddresses["addresses"] = {};
+
+  for (const id of ACTION_CONTRACT_IDS) {
+    // Deployment files are hand-edited, so their mixed case is not trusted as a checksum
+    const address = deployment[id]?.toLowerCase();
+    if (address && ethers.utils.isAddress(address)) {
+      addresses[id] = ethers.utils.getAddress(address);
+    }
+  }
+
+  const provider = providers[network.id];
+  if (!addresses.timelock && deployment.governor && provider) {
+    const timelock: string | null = await new ethers.Contract(deployment.governor, GOVERNOR_ABI, provider)
+      .timelock()
+      .catch(() => null);
+    if (timelock) {
+      addresses.timelock = timelock;
+    }
+  }
+
+  return { networkId: network.id, addresses };
+}
@@ -0,0 +1,114 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { ethers } from "ethers";
+import { parseSiweMessage } from "@shared/siwe";
+import { getNetworkByChainId } from "@shared/networks";
+import { pool } from "./db";
+
+declare module "express-session" {
+  interface SessionData {
+    nonce: string;            // Issued by /api/auth/nonce, consumed by the next verify
+    userId: number;
+    address: string;          // Checksummed address the session signed in as
+  }
+}
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export class SiweVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiweVerificationError";
+  }
+}
+
+function createSessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+// Promisified so route handlers can await session changes
+export function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => req.session.regenerate(err => err ? reject(err) : resolve()));
+}
+
+export function saveSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => req.session.save(err => err ? reject(err) : resolve()));
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => req.session.destroy(err => err ? reject(err) : resolve()));
+}
+
+// Check a signed EIP-4361 message against the session it was requested in
+export async function verifySiweMessage(req: Request, message: string, signature: string): Promise<string> {
+  const fields = parseSiweMessage(message);
+  const now = Date.now();
+
+  if (fields.domain !== req.get("host")) {
+    throw new SiweVerificationError(`Message was signed for "${fields.domain}"`);
+  }
+  if (!req.session.nonce || fields.nonce !== req.session.nonce) {
+    throw new SiweVerificationError("Nonce does not match this session; request a new one");
+  }
+  if (!getNetworkByChainId(fields.chainId)) {
+    throw new SiweVerificationError(`Unsupported chain id ${fields.chainId}`);
+  }
+  if (fields.expirationTime && Date.parse(fields.expirationTime) <= now) {
+    throw new SiweVerificationError("Message has expired");
+  }
+  if (fields.notBefore && Date.parse(fields.notBefore) > now) {
+    throw new SiweVerificationError("Message is not valid yet");
+  }
+
+  let signer: string;
+  try {
+    signer = ethers.utils.verifyMessage(message, signature);
+  } catch {
+    throw new SiweVerificationError("Signature is malformed");
+  }
+  if (signer.toLowerCase() !== fields.address.toLowerCase()) {
+    throw new SiweVerificationError("Signature does not match the message address");
+  }
+
+  return ethers.utils.getAddress(signer);
+}
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(session({
+    store: createSessionStore(),
+    secret: process.env.SESSION_SECRET || "omnigovern-dev-session-secret",
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.session.address) {
+    return res.status(401).json({ error: "Sign in with your wallet first" });
+  }
+  next();
+}
+
+// Whether the signed-in session owns data recorded under this address
+export function isOwner(req: Request, address: string | null | undefined): boolean {
+  return !!address && !!req.session.address && address.toLowerCase() === req.session.address.toLowerCase();
+}
@@ -1,41 +1,11 @@
 import { Pool } from 'pg';
-import { drizzle } from 'drizzle-orm/node-postgres';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
 import * as schema from "@shared/schema";
 
-// Create a mock DB implementation for demo mode
-const createMockDb = () => {
-  console.warn("Using mock database for demo mode");
-  return {
-    select: () => ({ 
-      from: () => ({ 
-        where: () => [],
-        orderBy: () => [] 
-      }) 
-    }),
-    insert: () => ({ 
-      values: () => ({ 
-        returning: () => [{ id: 1, createdAt: new Date() }] 
-      }) 
-    }),
-    update: () => ({ 
-      set: () => ({ 
-        where: () => ({ 
-          returning: () => [{ id: 1, updatedAt: new Date() }] 
-        }) 
-      }) 
-    }),
-    query: () => Promise.resolve([]),
-    delete: () => ({ 
-      where: () => ({ 
-        returning: () => [] 
-      }) 
-    }),
-  };
-};
-
-// Initialize database connection with simple error handling
-let pool = null;
-let db;
+// Initialize database connection with simple error handling.
+// Without DATABASE_URL both stay null and storage falls back to memory (demo mode).
+let pool: Pool | null = null;
+let db: NodePgDatabase<typeof schema> | null = null;
 
 try {
   if (process.env.DATABASE_URL) {
@@ -54,12 +24,12 @@ try {
     
     db = drizzle(pool, { schema });
   } else {
-    console.warn("No DATABASE_URL found. Using mock database.");
-    db = createMockDb();
+    console.warn("No DATABASE_URL found. Using in-memory storage for demo mode.");
   }
 } catch (error) {
   console.error("Database initialization error:", error);
-  db = createMockDb();
+  pool = null;
+  db = null;
 }
 
-export { pool, db };
\ No newline at end of file
+export { pool, db };
@@ -0,0 +1,81 @@
+import type { NetworkDefinition } from "@shared/networks";
+import type { DvnConfig } from "@shared/schema";
+import {
+  DVN_OPTIONS,
+  dvnStatusesFor,
+  scoreDvnSettings,
+  type DvnConfigUpdate,
+  type DvnConfigView,
+  type DvnSettings
+} from "@shared/dvn";
+import type { IStorage } from "./storage";
+import { NETWORKS } from "./web3";
+
+// What a network runs before anyone saves a configuration for it
+function defaultDvnSettings(network: NetworkDefinition): DvnSettings {
+  return {
+    securityLevel: 1,
+    enabledDvns: network.isHub ? ["default", "ultra"] : ["default", "lite"],
+    trustedEndpointMode: false,
+    multiSignatureVerification: false
+  };
+}
+
+function toDvnConfigView(networkId: string, settings: DvnSettings, saved?: DvnConfig): DvnConfigView {
+  const { score, rating, components } = scoreDvnSettings(settings);
+
+  return {
+    networkId,
+    securityScore: score,
+    securityLevel: rating,
+    scoreComponents: components,
+    settings: {
+      securityLevel: settings.securityLevel,
+      trustedEndpointMode: settings.trustedEndpointMode,
+      multiSignatureVerification: settings.multiSignatureVerification,
+      enabledDvns: settings.enabledDvns
+    },
+    dvns: dvnStatusesFor(settings),
+    saved: !!saved,
+    updatedBy: saved?.updatedBy ?? null,
+    updatedAt: saved?.updatedAt ? saved.updatedAt.toISOString() : null
+  };
+}
+
+// Latest saved configuration for a network, or its defaults if none was saved yet
+export async function getDvnConfigView(store: IStorage, network: NetworkDefinition): Promise<DvnConfigView> {
+  const saved = await store.getDvnConfig(network.id);
+  return toDvnConfigView(network.id, saved ?? defaultDvnSettings(network), saved);
+}
+
+export async function getAllDvnConfigViews(store: IStorage): Promise<Record<string, DvnConfigView>> {
+  const saved = await store.getAllDvnConfigs();
+
+  return Object.fromEntries(NETWORKS.map(network => {
+    const config = saved.find(c => c.networkId === network.id);
+    return [network.id, toDvnConfigView(network.id, config ?? defaultDvnSettings(network), config)];
+  }));
+}
+
+export function toDvnSettings(update: DvnConfigUpdate): DvnSettings {
+  return {
+    securityLevel: update.securityLevel,
+    // Stored in option order so the change log does not record reorderings
+    enabledDvns: DVN_OPTIONS.map(d => d.id).filter(id => update.dvns.includes(id)),
+    trustedEndpointMode: update.trustedEndpointMode,
+    multiSignatureVerification: update.multiSignatureVerification
+  };
+}
+
+export async function saveDvnConfig(store: IStorage, network: NetworkDefinition, update: DvnConfigUpdate, changedBy: string | null): Promise<DvnConfigView> {
+  const settings = toDvnSettings(update);
+
+  const saved = await store.saveDvnConfig({
+    networkId: network.id,
+    ...settings,
+    securityScore: scoreDvnSettings(settings).score,
+    updatedBy: changedBy
+  });
+
+  return toDvnConfigView(network.id, settings, saved);
+}
@@ -0,0 +1,134 @@
+import { ethers } from "ethers";
+import type { NetworkDefinition } from "@shared/networks";
+import type { InsertProposal } from "@shared/schema";
+import {
+  DVN_OPTIONS,
+  dvnStatusesFor,
+  scoreDvnSettings,
+  type DvnAdminAccess,
+  type DvnConfigUpdate
+} from "@shared/dvn";
+import { CONTRACT_ADDRESSES, DVN_MANAGER_ABI, TIMELOCK_ABI, providers } from "./web3";
+import { toDvnSettings } from "./dvn";
+
+// TimelockController.PROPOSER_ROLE
+const PROPOSER_ROLE = ethers.utils.id("PROPOSER_ROLE");
+
+export class DvnAdminUnavailableError extends Error {
+  constructor(public networkId: string, reason: string) {
+    super(`Cannot check DVN admin rights on "${networkId}": ${reason}`);
+    this.name = "DvnAdminUnavailableError";
+  }
+}
+
+export class InvalidDvnProposalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidDvnProposalError";
+  }
+}
+
+function dvnManagerOn(network: NetworkDefinition): ethers.Contract {
+  const address = CONTRACT_ADDRESSES[network.id]?.dvnManager;
+  const provider = providers[network.id];
+  if (!address || !provider) {
+    throw new DvnAdminUnavailableError(network.id, "no DVNConfigManager deployment configured");
+  }
+  try {
+    return new ethers.Contract(address, DVN_MANAGER_ABI, provider);
+  } catch (error) {
+    throw new DvnAdminUnavailableError(network.id, `invalid DVNConfigManager address ${address}`);
+  }
+}
+
+/**
+ * Whether an address may change the network's DVN configuration directly.
+ *
+ * The owner of DVNConfigManager always may. When governance owns it through a
+ * timelock, proposers on that timelock may too, since they can schedule the
+ * same calls. Only the owner itself is asked for the role: a timelock that
+ * does not own the manager cannot change it.
+ */
+export async function getDvnAdminAccess(network: NetworkDefinition, address: string): Promise<DvnAdminAccess> {
+  const manager = dvnManagerOn(network);
+
+  let owner: string;
+  try {
+    owner = await manager.owner();
+  } catch (error) {
+    throw new DvnAdminUnavailableError(network.id, error instanceof Error ? error.message : String(error));
+  }
+
+  if (owner.toLowerCase() === address.toLowerCase()) {
+    return { networkId: network.id, address, mode: "admin", role: "owner", owner, timelock: null };
+  }
+
+  // An owner that is an EOA or a contract without roles reverts here: it is no timelock
+  const isProposer: boolean | null = await new ethers.Contract(owner, TIMELOCK_ABI, providers[network.id])
+    .hasRole(PROPOSER_ROLE, address)
+    .catch(() => null);
+
+  return {
+    networkId: network.id,
+    address,
+    mode: isProposer ? "admin" : "proposal",
+    role: isProposer ? "timelockProposer" : null,
+    owner,
+    timelock: isProposer === null ? null : owner
+  };
+}
+
+/**
+ * A draft governance proposal that applies the update to the network's
+ * pathway with configureChainSecurity. It leaves the DVNs' signature counts
+ * alone: updateDVNSignatures is global per DVN and would change every other
+ * pathway too. Stored with status "Draft" until someone submits it to governance.
+ */
+export function draftDvnConfigProposal(network: NetworkDefinition, update: DvnConfigUpdate, proposer: string): InsertProposal {
+  const manager = dvnManagerOn(network);
+  const settings = toDvnSettings(update);
+  const enabled = dvnStatusesFor(settings).filter(dvn => dvn.enabled);
+
+  if (enabled.length === 0) {
+    // configureChainSecurity reverts without at least one DVN
+    throw new InvalidDvnProposalError("Enable at least one DVN to propose a configuration");
+  }
+
+  const onChainIdOf = (id: string) => DVN_OPTIONS.find(option => option.id === id)!.onChainId;
+  const calldatas = [
+    manager.interface.encodeFunctionData("configureChainSecurity", [
+      network.lzChainId,
+      Math.min(settings.securityLevel, enabled.length),
+      settings.trustedEndpointMode,
+      settings.multiSignatureVerification,
+      enabled.map(dvn => onChainIdOf(dvn.id))
+    ])
+  ];
+
+  const { score, rating } = scoreDvnSettings(settings);
+  const description = [
+    `Applies the following DVN security configuration on ${network.name} (endpoint ${network.lzChainId}):`,
+    "",
+    `- Security level: ${settings.securityLevel}`,
+    `- DVNs: ${enabled.map(dvn => `${dvn.name} (${dvn.requiredSignatures} signature${dvn.requiredSignatures === 1 ? "" : "s"})`).join(", ")}`,
+    `- Trusted endpoint mode: ${settings.trustedEndpointMode ? "on" : "off"}`,
+    `- Multi-signature verification: ${settings.multiSignatureVerification ? "on" : "off"}`,
+    "",
+    "Signature counts are set per DVN for every pathway and are not changed by this proposal.",
+    `Resulting security score, with the counts the DVNs were registered with: ${score}/100 (${rating}).`
+  ].join("\n");
+
+  return {
+    onChainId: null,
+    chain: network.id,
+    source: "executor",
+    title: `Update DVN security configuration on ${network.name}`,
+    description,
+    proposer,
+    targets: calldatas.map(() => manager.address),
+    values: calldatas.map(() => "0"),
+    calldatas,
+    status: "Draft",
+    txHash: null
+  };
+}
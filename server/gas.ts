@@ -0,0 +1,160 @@
+import { ethers } from "ethers";
+import type { NetworkDefinition } from "@shared/networks";
+import {
+  PRIORITY_FEE_PERCENTILES,
+  TRANSFER_GAS_LIMIT,
+  estimateGasCost,
+  type GasEstimate,
+  type GasEstimates,
+  type PriorityFeeEstimate
+} from "@shared/gas";
+import { NETWORKS, providers } from "./web3";
+
+// How many recent blocks eth_feeHistory looks back over
+const FEE_HISTORY_BLOCKS = parseInt(process.env.GAS_FEE_HISTORY_BLOCKS || "20");
+
+export class GasEstimatesUnavailableError extends Error {
+  constructor(public failures: Record<string, string>) {
+    super(`Could not estimate gas on any network: ${Object.entries(failures).map(([id, reason]) => `${id} (${reason})`).join(", ")}`);
+    this.name = "GasEstimatesUnavailableError";
+  }
+}
+
+interface FeeHistory {
+  oldestBlock: string;
+  baseFeePerGas: string[];   // One more entry than blocks: the last is the next block's base fee
+  gasUsedRatio: number[];
+  reward: string[][];        // Per block, one reward per requested percentile
+}
+
+// SEPOLIA_NATIVE_USD, AMOY_NATIVE_USD, ... price the native currency when a rate is known
+function nativePriceFor(network: NetworkDefinition): number | null {
+  const price = parseFloat(process.env[`${network.id.toUpperCase().replace(/-/g, "_")}_NATIVE_USD`] || "");
+  return Number.isFinite(price) ? price : null;
+}
+
+function median(values: ethers.BigNumber[]): ethers.BigNumber {
+  if (values.length === 0) return ethers.constants.Zero;
+  const sorted = [...values].sort((a, b) => (a.lt(b) ? -1 : a.gt(b) ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Expected blocks until a transaction paying `tip` is included: a block would
+ * have taken it if the tip beats that block's cheapest (10th percentile)
+ * payers, so the recent hit rate is treated as a per-block probability.
+ */
+function expectedInclusionBlocks(tip: ethers.BigNumber, floors: ethers.BigNumber[]): number {
+  if (floors.length === 0) return 1;
+  const hits = floors.filter(floor => tip.gte(floor)).length;
+  return hits === 0 ? FEE_HISTORY_BLOCKS : Math.min(Math.ceil(floors.length / hits), FEE_HISTORY_BLOCKS);
+}
+
+/**
+ * Computes gas estimates from eth_feeHistory and caches them per block, so
+ * repeated requests within a block only cost one eth_blockNumber call.
+ */
+export class GasOracle {
+  private cache = new Map<string, { blockNumber: number; estimate: Promise<GasEstimate> }>();
+
+  async getEstimates(): Promise<GasEstimates> {
+    const results = await Promise.allSettled(NETWORKS.map(network => this.getEstimate(network)));
+
+    const estimates: GasEstimates = {};
+    const failures: Record<string, string> = {};
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        estimates[NETWORKS[i].id] = result.value;
+      } else {
+        failures[NETWORKS[i].id] = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      }
+    });
+
+    if (Object.keys(estimates).length === 0) {
+      throw new GasEstimatesUnavailableError(failures);
+    }
+    Object.entries(failures).forEach(([id, reason]) => console.warn(`Gas estimate unavailable for ${id}: ${reason}`));
+
+    return estimates;
+  }
+
+  private async getEstimate(network: NetworkDefinition): Promise<GasEstimate> {
+    const provider = providers[network.id];
+    if (!provider) {
+      throw new Error("No provider configured");
+    }
+
+    const blockNumber = await provider.getBlockNumber();
+    const cached = this.cache.get(network.id);
+    if (cached && cached.blockNumber === blockNumber) {
+      return cached.estimate;
+    }
+
+    const estimate = this.computeEstimate(network, provider, blockNumber);
+    this.cache.set(network.id, { blockNumber, estimate });
+    // Do not keep a failed lookup around for the rest of the block
+    estimate.catch(() => {
+      if (this.cache.get(network.id)?.estimate === estimate) {
+        this.cache.delete(network.id);
+      }
+    });
+    return estimate;
+  }
+
+  private async computeEstimate(
+    network: NetworkDefinition,
+    provider: ethers.providers.JsonRpcProvider,
+    blockNumber: number
+  ): Promise<GasEstimate> {
+    const blockCount = Math.min(FEE_HISTORY_BLOCKS, blockNumber + 1);
+    const history: FeeHistory = await provider.send("eth_feeHistory", [
+      ethers.utils.hexValue(blockCount),
+      ethers.utils.hexValue(blockNumber),
+      [...PRIORITY_FEE_PERCENTILES]
+    ]);
+
+    const oldestBlock = ethers.BigNumber.from(history.oldestBlock).toNumber();
+    const [oldest, newest] = await Promise.all([provider.getBlock(oldestBlock), provider.getBlock(blockNumber)]);
+    const blockTime = blockNumber > oldestBlock ? (newest.timestamp - oldest.timestamp) / (blockNumber - oldestBlock) : 0;
+
+    const baseFee = ethers.BigNumber.from(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+
+    // Empty blocks report zero rewards, which would drag every percentile down
+    const rewards = (history.reward || [])
+      .filter((_, i) => history.gasUsedRatio[i] > 0)
+      .map(block => block.map(reward => ethers.BigNumber.from(reward)));
+    const floors = rewards.map(block => block[0]);
+
+    const tier = (index: number): PriorityFeeEstimate => {
+      const priorityFee = median(rewards.map(block => block[index]));
+      return {
+        percentile: PRIORITY_FEE_PERCENTILES[index],
+        priorityFee: ethers.utils.formatUnits(priorityFee, "gwei"),
+        total: ethers.utils.formatUnits(baseFee.add(priorityFee), "gwei"),
+        estimatedTimeBlocks: expectedInclusionBlocks(priorityFee, floors)
+      };
+    };
+    const tiers = { slow: tier(0), standard: tier(1), fast: tier(2) };
+
+    const estimate: GasEstimate = {
+      networkId: network.id,
+      chainId: network.chainId,
+      blockNumber,
+      baseFee: ethers.utils.formatUnits(baseFee, "gwei"),
+      priorityFee: tiers.standard.priorityFee,
+      total: tiers.standard.total,
+      estimatedTimeBlocks: tiers.standard.estimatedTimeBlocks,
+      estimatedTimeSeconds: Math.round(tiers.standard.estimatedTimeBlocks * blockTime),
+      tiers,
+      nativeSymbol: network.nativeCurrency.symbol,
+      nativePriceUSD: nativePriceFor(network),
+      equivalentUSD: null
+    };
+
+    const { usd } = estimateGasCost(estimate, TRANSFER_GAS_LIMIT);
+    estimate.equivalentUSD = usd === null ? null : usd.toFixed(6);
+    return estimate;
+  }
+}
+
+export const gasOracle = new GasOracle();
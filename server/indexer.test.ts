@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ethers } from "ethers";
+import type { LayerZeroTransaction } from "@shared/schema";
+import { LayerZeroEventIndexer } from "./indexer";
+import { LocalChainProvider, createLocalProviders } from "./localProvider";
+import { MemStorage } from "./storage";
+import { ADAPTER_ABI, CONTRACT_ADDRESSES, TOKEN_ABI } from "./web3";
+
+// Deterministic stand-ins for the deployed contracts on both chains
+const address = (label: string) => ethers.utils.getAddress(ethers.utils.hexDataSlice(ethers.utils.id(label), 12));
+const DEPLOYMENTS = {
+  sepolia: { token: address("sepolia-token"), adapter: address("sepolia-adapter") },
+  amoy: { token: address("amoy-token"), adapter: address("amoy-adapter") }
+};
+const WALLET = address("wallet");
+const GUID = ethers.utils.id("guid");
+
+const OPTIONS = { pollIntervalMs: 1000, confirmations: 2, lookbackBlocks: 100, maxBlockRange: 1000 };
+
+describe("LayerZeroEventIndexer on local chains", () => {
+  let store: MemStorage;
+  let chains: Record<string, LocalChainProvider>;
+  let indexer: LayerZeroEventIndexer;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    Object.assign(CONTRACT_ADDRESSES, DEPLOYMENTS);
+
+    store = new MemStorage();
+    chains = createLocalProviders(["sepolia", "amoy"]);
+    indexer = new LayerZeroEventIndexer(store, OPTIONS);
+    indexer.start(chains);
+    indexer.stop();   // Ticks are driven by the tests
+  });
+
+  afterEach(() => {
+    delete CONTRACT_ADDRESSES.sepolia;
+    delete CONTRACT_ADDRESSES.amoy;
+    vi.restoreAllMocks();
+  });
+
+  // Send tokens from Sepolia, optionally emitting OFTSent with the message guid
+  async function bridge(options: { status?: 0 | 1; guid?: string } = {}): Promise<LayerZeroTransaction> {
+    const receipt = chains.sepolia.submitTransaction({
+      from: WALLET,
+      to: DEPLOYMENTS.sepolia.token,
+      status: options.status,
+      events: options.guid
+        ? [{ address: DEPLOYMENTS.sepolia.token, abi: TOKEN_ABI, name: "OFTSent", args: [options.guid, 40231, WALLET, 100, 100] }]
+        : []
+    });
+
+    const { transaction } = await store.registerLayerZeroTransaction({
+      type: "token_bridge",
+      sourceChain: "sepolia",
+      destinationChain: "amoy",
+      sourceTxHash: receipt.transactionHash,
+      walletAddress: WALLET
+    });
+    return transaction;
+  }
+
+  // Deliver the message on Amoy, as the OFT's lzReceive would
+  function deliver(guid: string, status: 0 | 1 = 1) {
+    return chains.amoy.submitTransaction({
+      to: DEPLOYMENTS.amoy.token,
+      status,
+      events: [{ address: DEPLOYMENTS.amoy.token, abi: TOKEN_ABI, name: "OFTReceived", args: [guid, 40161, WALLET, 100] }]
+    });
+  }
+
+  async function statusOf(tx: LayerZeroTransaction) {
+    return (await store.getLayerZeroTransaction(tx.id))!;
+  }
+
+  it("confirms the source transaction once it has enough confirmations", async () => {
+    const tx = await bridge();
+
+    await indexer.tick();
+    expect((await statusOf(tx)).status).toBe("pending");
+
+    chains.sepolia.mine();
+    await indexer.tick();
+    // Without an outbound guid there is nothing to follow across chains yet
+    expect((await statusOf(tx)).status).toBe("source_confirmed");
+  });
+
+  it("marks a transaction in flight with the guid of its outbound message", async () => {
+    const tx = await bridge({ guid: GUID });
+    chains.sepolia.mine();
+
+    await indexer.tick();
+
+    const updated = await statusOf(tx);
+    expect(updated.status).toBe("in_flight");
+    expect(updated.messageId).toBe(GUID);
+  });
+
+  it("confirms the destination when the message is delivered, then completes", async () => {
+    const tx = await bridge({ guid: GUID });
+    chains.sepolia.mine();
+    await indexer.tick();
+
+    const delivery = deliver(GUID);
+    await indexer.tick();
+
+    const confirmed = await statusOf(tx);
+    expect(confirmed.status).toBe("destination_confirmed");
+    expect(confirmed.destinationTxHash).toBe(delivery.transactionHash);
+
+    chains.amoy.mine();
+    await indexer.tick();
+    expect((await statusOf(tx)).status).toBe("completed");
+  });
+
+  it("ignores deliveries of other messages or on other chains", async () => {
+    const tx = await bridge({ guid: GUID });
+    chains.sepolia.mine();
+    await indexer.tick();
+
+    deliver(ethers.utils.id("other guid"));
+    chains.sepolia.submitTransaction({
+      to: DEPLOYMENTS.sepolia.adapter,
+      events: [{ address: DEPLOYMENTS.sepolia.adapter, abi: ADAPTER_ABI, name: "MessageReceived", args: [WALLET, 40231, GUID, "0x"] }]
+    });
+    await indexer.tick();
+
+    expect((await statusOf(tx)).status).toBe("in_flight");
+  });
+
+  it("fails a transaction that reverted on the source chain", async () => {
+    const tx = await bridge({ status: 0 });
+
+    await indexer.tick();
+
+    const failed = await statusOf(tx);
+    expect(failed.status).toBe("source_failed");
+    expect(failed.error).toBe("Transaction reverted on source chain");
+  });
+
+  it("fails a transaction whose delivery reverted on the destination chain", async () => {
+    const tx = await bridge({ guid: GUID });
+    chains.sepolia.mine();
+    await indexer.tick();
+
+    deliver(GUID, 0);
+    await indexer.tick();
+    await indexer.tick();
+
+    const failed = await statusOf(tx);
+    expect(failed.status).toBe("failed");
+    expect(failed.error).toBe("Message delivery reverted on destination chain");
+  });
+});
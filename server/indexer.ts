@@ -0,0 +1,363 @@
+import { ethers } from "ethers";
+import type { LayerZeroTransaction, InsertLayerZeroTransaction } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { NETWORKS, CONTRACT_ADDRESSES, TOKEN_ABI, EXECUTOR_ABI, ADAPTER_ABI, GOVERNOR_ABI } from "./web3";
+import { applyProposalEvent, type ProposalSource } from "./proposalEvents";
+
+// The subset of an ethers provider the indexer relies on
+export interface ChainEventSource {
+  getBlockNumber(): Promise<number>;
+  getLogs(filter: ethers.providers.Filter): Promise<ethers.providers.Log[]>;
+  getTransactionReceipt(hash: string): Promise<ethers.providers.TransactionReceipt | null>;
+}
+
+export interface IndexerOptions {
+  pollIntervalMs: number;
+  confirmations: number;   // Blocks required before a receipt is treated as final
+  lookbackBlocks: number;  // How far back to scan when a chain is first seen
+  maxBlockRange: number;   // Maximum block span per getLogs request
+}
+
+// Inbound LayerZero delivery observed on a destination chain
+interface Delivery {
+  networkId: string;
+  txHash: string;
+  seenAt: number;
+}
+
+// OmniProposalExecutor.ExecutionCompleted observed on a destination chain
+interface ExecutionResult {
+  networkId: string;
+  srcEid: number;
+  proposalId: string;
+  success: boolean;
+  txHash: string;
+  seenAt: number;
+}
+
+// Outbound message details extracted from a source receipt
+interface OutboundMessage {
+  guid?: string;
+  proposalId?: string;
+}
+
+const OPEN_STATUSES = ["pending", "source_confirmed", "in_flight", "destination_confirmed"];
+
+// Observed deliveries are kept around in case the source side is indexed later
+const DELIVERY_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const tokenInterface = new ethers.utils.Interface(TOKEN_ABI);
+const executorInterface = new ethers.utils.Interface(EXECUTOR_ABI);
+const adapterInterface = new ethers.utils.Interface(ADAPTER_ABI);
+const governorInterface = new ethers.utils.Interface(GOVERNOR_ABI);
+
+function readData(tx: LayerZeroTransaction): Record<string, any> {
+  if (!tx.data) return {};
+  try {
+    const parsed = JSON.parse(tx.data);
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function tryParseLog(iface: ethers.utils.Interface, log: ethers.providers.Log) {
+  try {
+    return iface.parseLog(log);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Follows LayerZero adapter, OFT, governor and proposal executor events on
+ * every configured chain and moves layerzero_transactions rows through their
+ * lifecycle based on real receipts. Proposal events are handed to
+ * applyProposalEvent to keep the proposals table in sync.
+ */
+export class LayerZeroEventIndexer {
+  private sources: Record<string, ChainEventSource> = {};
+  private cursors: Record<string, number> = {};
+  private deliveries = new Map<string, Delivery>();
+  private executions: ExecutionResult[] = [];
+  private unreachable = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(private store: IStorage, private options: IndexerOptions) {}
+
+  start(sources: Record<string, ChainEventSource>) {
+    this.stop();
+    this.sources = sources;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(err => console.error("Indexer tick failed:", err));
+    }, this.options.pollIntervalMs);
+
+    console.log(`LayerZero event indexer started for ${Object.keys(sources).join(", ")}`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  getSource(networkId: string): ChainEventSource | undefined {
+    return this.sources[networkId];
+  }
+
+  // Scan every chain for new events, then advance all open transactions
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      for (const [networkId, source] of Object.entries(this.sources)) {
+        try {
+          await this.scanNetwork(networkId, source);
+          this.unreachable.delete(networkId);
+        } catch (err) {
+          // Only log the first failure for a chain until it recovers
+          if (!this.unreachable.has(networkId)) {
+            console.warn(`Indexer could not scan ${networkId}:`, err instanceof Error ? err.message : err);
+            this.unreachable.add(networkId);
+          }
+        }
+      }
+
+      this.pruneObservations();
+      await this.processOpenTransactions();
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async scanNetwork(networkId: string, source: ChainEventSource) {
+    const latest = await source.getBlockNumber();
+    const fromBlock = this.cursors[networkId] ?? Math.max(0, latest - this.options.lookbackBlocks);
+
+    if (fromBlock > latest) return;
+
+    const toBlock = Math.min(latest, fromBlock + this.options.maxBlockRange - 1);
+    const addresses = CONTRACT_ADDRESSES[networkId] || {};
+
+    const watched: Array<{ address?: string; iface: ethers.utils.Interface; events: string[]; proposals?: ProposalSource }> = [
+      { address: addresses.adapter, iface: adapterInterface, events: ["MessageReceived"] },
+      { address: addresses.token, iface: tokenInterface, events: ["OFTReceived"] },
+      {
+        address: addresses.executor,
+        iface: executorInterface,
+        events: ["ExecutionCompleted", "ProposalCreated", "ExecutionRequested", "ProposalExecuted"],
+        proposals: "executor"
+      },
+      {
+        address: addresses.governor,
+        iface: governorInterface,
+        events: ["ProposalCreated", "ProposalQueued", "ProposalExecuted", "ProposalCanceled"],
+        proposals: "governor"
+      }
+    ];
+
+    for (const { address, iface, events, proposals } of watched) {
+      if (!address) continue;
+
+      const logs = await source.getLogs({
+        address,
+        fromBlock,
+        toBlock,
+        topics: [events.map(event => iface.getEventTopic(event))]
+      });
+
+      for (const log of logs) {
+        const parsed = tryParseLog(iface, log);
+        if (!parsed) continue;
+
+        if (parsed.name === "MessageReceived" || parsed.name === "OFTReceived") {
+          this.deliveries.set(String(parsed.args.guid).toLowerCase(), {
+            networkId,
+            txHash: log.transactionHash,
+            seenAt: Date.now()
+          });
+        } else if (parsed.name === "ExecutionCompleted") {
+          this.executions.push({
+            networkId,
+            srcEid: Number(parsed.args.chainId),
+            proposalId: parsed.args.proposalId.toString(),
+            success: Boolean(parsed.args.success),
+            txHash: log.transactionHash,
+            seenAt: Date.now()
+          });
+        }
+
+        if (proposals) {
+          try {
+            await applyProposalEvent(this.store, networkId, proposals, parsed, log);
+          } catch (err) {
+            console.error(`Indexer failed to apply ${parsed.name} on ${networkId}:`, err);
+          }
+        }
+      }
+    }
+
+    this.cursors[networkId] = toBlock + 1;
+  }
+
+  private pruneObservations() {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+
+    this.deliveries.forEach((delivery, guid) => {
+      if (delivery.seenAt < cutoff) this.deliveries.delete(guid);
+    });
+    this.executions = this.executions.filter(execution => execution.seenAt >= cutoff);
+  }
+
+  private async processOpenTransactions() {
+    const [pending, sourceConfirmed, inFlight, destinationConfirmed] = await Promise.all(
+      OPEN_STATUSES.map(status => this.store.getLayerZeroTransactionsByStatus(status))
+    );
+
+    const steps: Array<[LayerZeroTransaction[], (tx: LayerZeroTransaction) => Promise<void>]> = [
+      [pending, tx => this.checkSourceReceipt(tx)],
+      [sourceConfirmed, tx => this.markInFlight(tx)],
+      [inFlight, tx => this.matchDelivery(tx)],
+      [destinationConfirmed, tx => this.checkDestinationReceipt(tx)]
+    ];
+
+    for (const [transactions, step] of steps) {
+      for (const tx of transactions) {
+        try {
+          await step(tx);
+        } catch (err) {
+          console.error(`Indexer failed to advance transaction ${tx.id}:`, err);
+        }
+      }
+    }
+  }
+
+  private async update(tx: LayerZeroTransaction, updates: Partial<InsertLayerZeroTransaction>) {
+    const updated = await this.store.updateLayerZeroTransaction(tx.id, updates);
+    console.log(`Transaction ${tx.id} ${tx.status} -> ${updated.status}`);
+    return updated;
+  }
+
+  private async checkSourceReceipt(tx: LayerZeroTransaction) {
+    const source = this.sources[tx.sourceChain];
+    if (!source) return;
+
+    const receipt = await source.getTransactionReceipt(tx.sourceTxHash);
+    if (!receipt) return;
+
+    if (receipt.status === 0) {
+      await this.update(tx, {
+        status: "source_failed",
+        error: "Transaction reverted on source chain"
+      });
+      return;
+    }
+
+    if (receipt.confirmations < this.options.confirmations) return;
+
+    // Same-chain transactions are done once the source receipt is final
+    if (!tx.destinationChain) {
+      await this.update(tx, { status: "completed" });
+      return;
+    }
+
+    const outbound = this.extractOutboundMessage(tx.sourceChain, receipt);
+    const data = outbound.proposalId !== undefined
+      ? JSON.stringify({ ...readData(tx), proposalId: outbound.proposalId })
+      : tx.data;
+
+    const confirmed = await this.update(tx, {
+      status: "source_confirmed",
+      messageId: outbound.guid || tx.messageId,
+      data
+    });
+
+    await this.markInFlight(confirmed);
+  }
+
+  private extractOutboundMessage(networkId: string, receipt: ethers.providers.TransactionReceipt): OutboundMessage {
+    const addresses = CONTRACT_ADDRESSES[networkId] || {};
+    const outbound: OutboundMessage = {};
+
+    for (const log of receipt.logs) {
+      const address = log.address.toLowerCase();
+
+      if (address === addresses.adapter?.toLowerCase()) {
+        const parsed = tryParseLog(adapterInterface, log);
+        if (parsed?.name === "MessageSent") outbound.guid = String(parsed.args.guid);
+      } else if (address === addresses.token?.toLowerCase()) {
+        const parsed = tryParseLog(tokenInterface, log);
+        if (parsed?.name === "OFTSent") outbound.guid = String(parsed.args.guid);
+      } else if (address === addresses.executor?.toLowerCase()) {
+        const parsed = tryParseLog(executorInterface, log);
+        if (parsed?.name === "ExecutionRequested") outbound.proposalId = parsed.args.proposalId.toString();
+      }
+    }
+
+    return outbound;
+  }
+
+  // A confirmed source transaction is in flight once we know how to recognise its delivery
+  private async markInFlight(tx: LayerZeroTransaction) {
+    if (!tx.messageId && readData(tx).proposalId === undefined) return;
+    await this.update(tx, { status: "in_flight" });
+  }
+
+  private async matchDelivery(tx: LayerZeroTransaction) {
+    const proposalId = readData(tx).proposalId;
+
+    if (tx.type === "execution" && proposalId !== undefined) {
+      const srcEid = NETWORKS.find(n => n.id === tx.sourceChain)?.lzChainId;
+      const execution = this.executions.find(e =>
+        e.networkId === tx.destinationChain &&
+        e.srcEid === srcEid &&
+        e.proposalId === String(proposalId)
+      );
+
+      if (execution) {
+        await this.update(tx, execution.success
+          ? { status: "destination_confirmed", destinationTxHash: execution.txHash }
+          : { status: "failed", destinationTxHash: execution.txHash, error: "Proposal execution failed on destination chain" });
+        return;
+      }
+    }
+
+    if (!tx.messageId) return;
+
+    const delivery = this.deliveries.get(tx.messageId.toLowerCase());
+    if (delivery && delivery.networkId === tx.destinationChain) {
+      await this.update(tx, {
+        status: "destination_confirmed",
+        destinationTxHash: delivery.txHash
+      });
+    }
+  }
+
+  private async checkDestinationReceipt(tx: LayerZeroTransaction) {
+    const source = tx.destinationChain ? this.sources[tx.destinationChain] : undefined;
+    if (!source || !tx.destinationTxHash) return;
+
+    const receipt = await source.getTransactionReceipt(tx.destinationTxHash);
+    if (!receipt) return;
+
+    if (receipt.status === 0) {
+      await this.update(tx, {
+        status: "failed",
+        error: "Message delivery reverted on destination chain"
+      });
+    } else if (receipt.confirmations >= this.options.confirmations) {
+      await this.update(tx, { status: "completed" });
+    }
+  }
+}
+
+export const indexer = new LayerZeroEventIndexer(storage, {
+  pollIntervalMs: parseInt(process.env.INDEXER_POLL_INTERVAL_MS || "15000"),
+  confirmations: parseInt(process.env.INDEXER_CONFIRMATIONS || "2"),
+  lookbackBlocks: parseInt(process.env.INDEXER_LOOKBACK_BLOCKS || "500"),
+  maxBlockRange: parseInt(process.env.INDEXER_MAX_BLOCK_RANGE || "2000")
+});
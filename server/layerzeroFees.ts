@@ -0,0 +1,113 @@
+import { ethers } from "ethers";
+import { z } from "zod";
+import { getNetworkById } from "@shared/networks";
+import {
+  encodeLzReceiveOptions,
+  layerZeroFeeQuerySchema,
+  type FeeComponent,
+  type LayerZeroFeeQuote
+} from "@shared/layerzeroFees";
+import { CONTRACT_ADDRESSES, TOKEN_ABI, ADAPTER_ABI, DVN_MANAGER_ABI, providers } from "./web3";
+
+// OmniGovernToken uses the standard 18 local decimals
+const TOKEN_DECIMALS = 18;
+
+export class InvalidFeeQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidFeeQuoteError";
+  }
+}
+
+export class FeeQuoteUnavailableError extends Error {
+  constructor(public networkId: string, public contract: string) {
+    super(`No ${contract} deployment configured on "${networkId}" to quote fees from`);
+    this.name = "FeeQuoteUnavailableError";
+  }
+}
+
+interface MessagingFee {
+  nativeFee: ethers.BigNumber;
+  lzTokenFee: ethers.BigNumber;
+}
+
+/**
+ * Quote the LayerZero fee for one pathway from the deployed contracts.
+ *
+ * The endpoint quote (OFT.quoteSend for transfers, LayerZeroV2Adapter.quoteFee
+ * for governance messages) is what the sender pays. DVNConfigManager's
+ * estimate is reported as the verification share of it, and whatever is left
+ * is attributed to the executor.
+ */
+export async function quoteLayerZeroFee(query: z.output<typeof layerZeroFeeQuerySchema>): Promise<LayerZeroFeeQuote> {
+  const src = getNetworkById(query.src);
+  const dst = getNetworkById(query.dst);
+  if (!src || !dst) {
+    throw new InvalidFeeQuoteError(`Unknown network "${!src ? query.src : query.dst}"`);
+  }
+  if (src.id === dst.id) {
+    throw new InvalidFeeQuoteError("Source and destination networks must differ");
+  }
+
+  const provider = providers[src.id];
+  const addresses = CONTRACT_ADDRESSES[src.id] || {};
+  const options = query.options ?? encodeLzReceiveOptions(query.gasLimit);
+  const kind = query.amount !== undefined ? "transfer" : "message";
+
+  let protocolSource: string;
+  let protocolFee: Promise<MessagingFee>;
+  if (kind === "transfer") {
+    if (!addresses.token || !provider) throw new FeeQuoteUnavailableError(src.id, "OFT token");
+    const token = new ethers.Contract(addresses.token, TOKEN_ABI, provider);
+    protocolSource = "OFT.quoteSend";
+    protocolFee = token.quoteSend({
+      dstEid: dst.lzChainId,
+      to: ethers.utils.hexZeroPad(query.to ?? ethers.constants.AddressZero, 32),
+      amountLD: ethers.utils.parseUnits(query.amount!, TOKEN_DECIMALS),
+      minAmountLD: 0,
+      extraOptions: options,
+      composeMsg: "0x",
+      oftCmd: "0x"
+    }, query.payInLzToken);
+  } else {
+    if (!addresses.adapter || !provider) throw new FeeQuoteUnavailableError(src.id, "LayerZeroV2Adapter");
+    const adapter = new ethers.Contract(addresses.adapter, ADAPTER_ABI, provider);
+    protocolSource = "LayerZeroV2Adapter.quoteFee";
+    // Only the message length matters to the quote, so a zero-filled payload stands in for it
+    protocolFee = adapter.quoteFee(dst.lzChainId, new Uint8Array(query.payloadSize), options)
+      .then(([nativeFee, lzTokenFee]: ethers.BigNumber[]) => ({ nativeFee, lzTokenFee }));
+  }
+
+  // The DVN manager is optional; without it the protocol fee is reported unsplit
+  const dvnFee: Promise<ethers.BigNumber | null> = addresses.dvnManager && provider
+    ? new ethers.Contract(addresses.dvnManager, DVN_MANAGER_ABI, provider).estimateMessageFee(dst.lzChainId, query.gasLimit)
+    : Promise.resolve(null);
+
+  const [protocol, dvn] = await Promise.all([protocolFee, dvnFee]);
+
+  const format = (wei: ethers.BigNumber) => ethers.utils.formatEther(wei);
+  const components: FeeComponent[] = [
+    { component: "protocol", source: protocolSource, nativeFee: format(protocol.nativeFee), lzTokenFee: format(protocol.lzTokenFee) }
+  ];
+  if (dvn) {
+    const dvnShare = dvn.gt(protocol.nativeFee) ? protocol.nativeFee : dvn;
+    components.push(
+      { component: "dvn", source: "DVNConfigManager.estimateMessageFee", nativeFee: format(dvnShare), lzTokenFee: "0.0" },
+      { component: "executor", source: protocolSource, nativeFee: format(protocol.nativeFee.sub(dvnShare)), lzTokenFee: "0.0" }
+    );
+  }
+
+  return {
+    kind,
+    srcNetworkId: src.id,
+    dstNetworkId: dst.id,
+    dstEid: dst.lzChainId,
+    payloadSize: query.payloadSize,
+    options,
+    nativeFee: format(protocol.nativeFee),
+    lzTokenFee: format(protocol.lzTokenFee),
+    nativeSymbol: src.nativeCurrency.symbol,
+    components,
+    quotedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,136 @@
+import { ethers } from "ethers";
+import type { NetworkDefinition } from "@shared/networks";
+import type { IStorage } from "./storage";
+import { storage } from "./storage";
+import { NETWORKS, providers } from "./web3";
+
+export type NetworkHealth = "active" | "degraded" | "inactive";
+
+interface NetworkProbeOptions {
+  intervalMs: number;
+  txCountBlocks: number;         // How many recent blocks to count transactions and time blocks over
+  degradedLatencyMs: number;
+  degradedBlockAgeSeconds: number;
+  inactiveBlockAgeSeconds: number;
+}
+
+interface ProbeReading {
+  latency: number;
+  blockNumber: number;
+  blockAge: number;
+  blockTimeMs: number | null;   // Null when fewer than two blocks were read
+  gasPrice: string;
+  txCount: number;
+}
+
+// An unreachable RPC or a stalled chain is inactive; a slow RPC or lagging chain is degraded
+export function classifyNetworkHealth(reading: ProbeReading | null, options: NetworkProbeOptions): NetworkHealth {
+  if (!reading || reading.blockAge > options.inactiveBlockAgeSeconds) return "inactive";
+  if (reading.latency > options.degradedLatencyMs || reading.blockAge > options.degradedBlockAgeSeconds) return "degraded";
+  return "active";
+}
+
+/**
+ * Periodically measures every registered network over its RPC provider and
+ * keeps network_status up to date through storage.upsertNetworkStatus.
+ */
+export class NetworkHealthProbe {
+  private timer: NodeJS.Timeout | null = null;
+  private probing = false;
+
+  constructor(private store: IStorage, private options: NetworkProbeOptions) {}
+
+  start() {
+    this.stop();
+
+    // Probe once right away so the status table is not empty until the first interval
+    this.run().catch(err => console.error("Network probe failed:", err));
+    this.timer = setInterval(() => {
+      this.run().catch(err => console.error("Network probe failed:", err));
+    }, this.options.intervalMs);
+
+    console.log(`Network health probe started for ${NETWORKS.map(n => n.id).join(", ")}`);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async run(): Promise<void> {
+    if (this.probing) return;
+    this.probing = true;
+
+    try {
+      await Promise.all(NETWORKS.map(network => this.probeNetwork(network)));
+    } finally {
+      this.probing = false;
+    }
+  }
+
+  private async probeNetwork(network: NetworkDefinition) {
+    let reading: ProbeReading | null = null;
+
+    try {
+      reading = await this.measure(providers[network.id]);
+    } catch (err) {
+      console.warn(`Network probe could not reach ${network.id}:`, err instanceof Error ? err.message : err);
+    }
+
+    await this.store.upsertNetworkStatus({
+      networkId: network.id,
+      name: network.name,
+      chainId: network.chainId,
+      status: classifyNetworkHealth(reading, this.options),
+      // Leave the last good readings in place when the RPC is unreachable
+      ...(reading && {
+        latency: reading.latency,
+        blockNumber: reading.blockNumber,
+        blockAge: reading.blockAge,
+        ...(reading.blockTimeMs !== null && { blockTimeMs: reading.blockTimeMs }),
+        gasPrice: reading.gasPrice,
+        txCount: reading.txCount
+      })
+    });
+  }
+
+  private async measure(provider: ethers.providers.JsonRpcProvider | undefined): Promise<ProbeReading> {
+    if (!provider) {
+      throw new Error("No provider configured");
+    }
+
+    // Latency is the round trip of a single cheap call
+    const started = Date.now();
+    const blockNumber = await provider.getBlockNumber();
+    const latency = Date.now() - started;
+
+    const recentBlockNumbers = Array.from({ length: Math.min(this.options.txCountBlocks, blockNumber + 1) }, (_, i) => blockNumber - i);
+    const [gasPrice, ...blocks] = await Promise.all([
+      provider.getGasPrice(),
+      ...recentBlockNumbers.map(n => provider.getBlock(n))
+    ]);
+
+    const latest = blocks[0];
+    const oldest = blocks[blocks.length - 1];
+    return {
+      latency,
+      blockNumber,
+      blockAge: Math.max(0, Math.floor(Date.now() / 1000) - latest.timestamp),
+      blockTimeMs: blocks.length > 1
+        ? Math.round((latest.timestamp - oldest.timestamp) * 1000 / (latest.number - oldest.number))
+        : null,
+      gasPrice: ethers.utils.formatUnits(gasPrice, "gwei"),
+      txCount: blocks.reduce((sum, block) => sum + (block?.transactions.length ?? 0), 0)
+    };
+  }
+}
+
+export const networkProbe = new NetworkHealthProbe(storage, {
+  intervalMs: parseInt(process.env.NETWORK_PROBE_INTERVAL_MS || "30000"),
+  txCountBlocks: parseInt(process.env.NETWORK_PROBE_TX_BLOCKS || "5"),
+  degradedLatencyMs: parseInt(process.env.NETWORK_DEGRADED_LATENCY_MS || "1500"),
+  degradedBlockAgeSeconds: parseInt(process.env.NETWORK_DEGRADED_BLOCK_AGE_S || "60"),
+  inactiveBlockAgeSeconds: parseInt(process.env.NETWORK_INACTIVE_BLOCK_AGE_S || "300")
+});
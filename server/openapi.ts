@@ -0,0 +1,168 @@
+import { z } from "zod";
+import { api, type ApiContract } from "@shared/api";
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * JSON Schema (draft 2020-12, as OpenAPI 3.1 uses it) for the zod types the
+ * API contracts are built from. Types without a JSON equivalent, such as
+ * transforms, are described by their input.
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const def = schema._def as { typeName: z.ZodFirstPartyTypeKind; description?: string };
+  const json = convert(schema, def.typeName);
+  return def.description ? { ...json, description: def.description } : json;
+}
+
+function convert(schema: z.ZodTypeAny, typeName: z.ZodFirstPartyTypeKind): JsonSchema {
+  switch (typeName) {
+    case z.ZodFirstPartyTypeKind.ZodString: {
+      const json: JsonSchema = { type: "string" };
+      for (const check of (schema as z.ZodString)._def.checks) {
+        if (check.kind === "regex") json.pattern = check.regex.source;
+        else if (check.kind === "min") json.minLength = check.value;
+        else if (check.kind === "max") json.maxLength = check.value;
+        else if (check.kind === "datetime") json.format = "date-time";
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodNumber: {
+      const checks = (schema as z.ZodNumber)._def.checks;
+      const json: JsonSchema = { type: checks.some(check => check.kind === "int") ? "integer" : "number" };
+      for (const check of checks) {
+        if (check.kind === "min") json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        else if (check.kind === "max") json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      }
+      return json;
+    }
+    case z.ZodFirstPartyTypeKind.ZodBoolean:
+      return { type: "boolean" };
+    case z.ZodFirstPartyTypeKind.ZodDate:
+      return { type: "string", format: "date-time" };
+    case z.ZodFirstPartyTypeKind.ZodLiteral:
+      return { const: (schema as z.ZodLiteral<unknown>).value };
+    case z.ZodFirstPartyTypeKind.ZodEnum:
+      return { type: "string", enum: [...(schema as z.ZodEnum<[string, ...string[]]>).options] };
+    case z.ZodFirstPartyTypeKind.ZodNativeEnum:
+      return { enum: Object.values((schema as z.ZodNativeEnum<z.EnumLike>).enum) };
+    case z.ZodFirstPartyTypeKind.ZodArray:
+      return { type: "array", items: toJsonSchema((schema as z.ZodArray<z.ZodTypeAny>).element) };
+    case z.ZodFirstPartyTypeKind.ZodObject: {
+      const shape = (schema as z.AnyZodObject).shape as Record<string, z.ZodTypeAny>;
+      const required = Object.keys(shape).filter(key => !shape[key].isOptional());
+      return {
+        type: "object",
+        properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, toJsonSchema(value)])),
+        ...(required.length ? { required } : {})
+      };
+    }
+    case z.ZodFirstPartyTypeKind.ZodRecord:
+      return { type: "object", additionalProperties: toJsonSchema((schema as z.ZodRecord).valueSchema) };
+    case z.ZodFirstPartyTypeKind.ZodUnion:
+    case z.ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+      return { anyOf: [...(schema as z.ZodUnion<[z.ZodTypeAny, ...z.ZodTypeAny[]]>).options].map(toJsonSchema) };
+    case z.ZodFirstPartyTypeKind.ZodIntersection: {
+      const { left, right } = (schema as z.ZodIntersection<z.ZodTypeAny, z.ZodTypeAny>)._def;
+      return { allOf: [toJsonSchema(left), toJsonSchema(right)] };
+    }
+    case z.ZodFirstPartyTypeKind.ZodOptional:
+      return toJsonSchema((schema as z.ZodOptional<z.ZodTypeAny>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodNullable:
+      return { anyOf: [toJsonSchema((schema as z.ZodNullable<z.ZodTypeAny>).unwrap()), { type: "null" }] };
+    case z.ZodFirstPartyTypeKind.ZodDefault: {
+      const { innerType, defaultValue } = (schema as z.ZodDefault<z.ZodTypeAny>)._def;
+      return { ...toJsonSchema(innerType), default: defaultValue() };
+    }
+    case z.ZodFirstPartyTypeKind.ZodEffects:
+      return toJsonSchema((schema as z.ZodEffects<z.ZodTypeAny>).innerType());
+    case z.ZodFirstPartyTypeKind.ZodPipeline:
+      return toJsonSchema((schema as z.ZodPipeline<z.ZodTypeAny, z.ZodTypeAny>)._def.in);
+    case z.ZodFirstPartyTypeKind.ZodBranded:
+      return toJsonSchema((schema as z.ZodBranded<z.ZodTypeAny, string>).unwrap());
+    case z.ZodFirstPartyTypeKind.ZodReadonly:
+      return toJsonSchema((schema as z.ZodReadonly<z.ZodTypeAny>)._def.innerType);
+    case z.ZodFirstPartyTypeKind.ZodCatch:
+      return toJsonSchema((schema as z.ZodCatch<z.ZodTypeAny>).removeCatch());
+    case z.ZodFirstPartyTypeKind.ZodNull:
+      return { type: "null" };
+    default:
+      // any, unknown, lazy and anything else accept any JSON value
+      return {};
+  }
+}
+
+// Express "/api/transactions/:id(\\d+)" to OpenAPI "/api/transactions/{id}"
+function toOpenApiPath(path: string): string {
+  return path.replace(/:(\w+)(\([^)]*\))?/g, "{$1}");
+}
+
+function parameters(contract: ApiContract) {
+  const locations = [["path", contract.params], ["query", contract.query], ["header", contract.headers]] as const;
+
+  return locations.flatMap(([location, schema]) => {
+    if (!schema) return [];
+    return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, value]) => ({
+      name,
+      in: location,
+      required: location === "path" || !value.isOptional(),
+      schema: toJsonSchema(value)
+    }));
+  });
+}
+
+function operation(contract: ApiContract, tag: string) {
+  const responses: Record<string, unknown> = {};
+  for (const [status, schema] of Object.entries(contract.responses)) {
+    const mediaType = contract.eventStream && status === "200" ? "text/event-stream" : "application/json";
+    responses[status] = {
+      description: Number(status) < 400 ? "Success" : "Error",
+      content: { [mediaType]: { schema: toJsonSchema(schema) } }
+    };
+  }
+
+  // Every route answers invalid input with 400 and a missing session with 401
+  const error = { description: "Error", content: { "application/json": { schema: { $ref: "#/components/schemas/ApiError" } } } };
+  if (contract.params || contract.query || contract.headers || contract.body) responses["400"] ??= error;
+  if (contract.auth) responses["401"] ??= error;
+
+  return {
+    tags: [tag],
+    summary: contract.summary,
+    parameters: parameters(contract),
+    ...(contract.body ? {
+      requestBody: { required: true, content: { "application/json": { schema: toJsonSchema(contract.body) } } }
+    } : {}),
+    responses,
+    ...(contract.auth ? { security: [{ session: [] }] } : {})
+  };
+}
+
+/**
+ * OpenAPI 3.1 document for every contract in @shared/api, served at
+ * /api/openapi.json.
+ */
+export function buildOpenApiDocument() {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const [tag, group] of Object.entries(api)) {
+    for (const contract of Object.values(group) as ApiContract[]) {
+      const path = toOpenApiPath(contract.path);
+      paths[path] = { ...paths[path], [contract.method]: operation(contract, tag) };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: "OmniGovern API", version: "1.0.0" },
+    paths,
+    components: {
+      schemas: {
+        ApiError: { type: "object", properties: { error: {}, details: {} }, required: ["error"] }
+      },
+      securitySchemes: {
+        // Set by POST /api/auth/verify
+        session: { type: "apiKey", in: "cookie", name: "connect.sid" }
+      }
+    }
+  };
+}
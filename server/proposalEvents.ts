@@ -0,0 +1,151 @@
+import { ethers } from "ethers";
+import type { InsertProposal, Proposal } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { getNetworkByLzChainId } from "@shared/networks";
+import { CONTRACT_ADDRESSES, EXECUTOR_ABI, providers } from "./web3";
+
+export type ProposalSource = "governor" | "executor";
+
+// Governor descriptions conventionally start with a "# Title" line
+export function splitProposalDescription(description: string): { title: string; body: string } {
+  const [firstLine, ...rest] = description.split("\n");
+  const title = firstLine.replace(/^#+\s*/, "").trim();
+
+  return {
+    title: title || description.slice(0, 80),
+    body: rest.join("\n").trim() || description
+  };
+}
+
+function networkIdForEid(eid: number): string {
+  return getNetworkByLzChainId(eid)?.id || String(eid);
+}
+
+// A proposal registered through the API that has not been matched to an on-chain id yet
+async function findDraft(store: IStorage, chain: string, source: ProposalSource, proposer: string, title: string) {
+  const all = await store.getAllProposals();
+  return all.find(p =>
+    p.onChainId === null &&
+    p.chain === chain &&
+    p.source === source &&
+    p.proposer.toLowerCase() === proposer.toLowerCase() &&
+    p.title === title
+  );
+}
+
+// Update the indexed row if we have seen it before, otherwise claim a matching draft or insert
+async function upsertIndexedProposal(store: IStorage, fields: InsertProposal & { onChainId: string }) {
+  const source = fields.source as ProposalSource;
+  const existing = await store.getProposalByOnChainId(fields.chain, source, fields.onChainId)
+    || await findDraft(store, fields.chain, source, fields.proposer, fields.title);
+
+  if (existing) {
+    return store.updateProposal(existing.id, {
+      ...fields,
+      description: fields.description || existing.description
+    });
+  }
+  return store.createProposal(fields);
+}
+
+async function updateChainStatus(store: IStorage, proposal: Proposal | undefined, networkId: string, status: string) {
+  if (!proposal) return;
+  await store.updateProposal(proposal.id, {
+    chainStatuses: { ...proposal.chainStatuses, [networkId]: status }
+  });
+}
+
+async function readExecutorDescription(networkId: string, proposalId: string): Promise<string> {
+  try {
+    const executor = new ethers.Contract(CONTRACT_ADDRESSES[networkId].executor, EXECUTOR_ABI, providers[networkId]);
+    const [, description] = await executor.getProposalDetails(proposalId);
+    return description;
+  } catch (err) {
+    console.warn(`Could not read description of executor proposal ${proposalId} on ${networkId}:`, err instanceof Error ? err.message : err);
+    return "";
+  }
+}
+
+/**
+ * Apply an OmniGovernor or OmniProposalExecutor event observed by the indexer
+ * to the proposals table.
+ */
+export async function applyProposalEvent(
+  store: IStorage,
+  networkId: string,
+  source: ProposalSource,
+  event: ethers.utils.LogDescription,
+  log: ethers.providers.Log
+): Promise<void> {
+  const onChainId = event.args.proposalId.toString();
+
+  if (source === "governor") {
+    switch (event.name) {
+      case "ProposalCreated": {
+        const { title, body } = splitProposalDescription(event.args.description);
+        await upsertIndexedProposal(store, {
+          onChainId,
+          chain: networkId,
+          source,
+          title,
+          description: body,
+          proposer: event.args.proposer,
+          targets: event.args.targets.map(String),
+          // `values` clashes with Array.prototype.values on the decoded result
+          values: event.args[3].map((value: ethers.BigNumber) => value.toString()),
+          calldatas: event.args.calldatas.map(String),
+          snapshotBlock: event.args.voteStart.toNumber(),
+          deadlineBlock: event.args.voteEnd.toNumber(),
+          status: "Pending",
+          txHash: log.transactionHash
+        });
+        return;
+      }
+      case "ProposalQueued":
+      case "ProposalExecuted":
+      case "ProposalCanceled": {
+        const proposal = await store.getProposalByOnChainId(networkId, source, onChainId);
+        if (proposal) {
+          await store.updateProposal(proposal.id, { status: event.name.replace("Proposal", "") });
+        }
+        return;
+      }
+    }
+    return;
+  }
+
+  switch (event.name) {
+    case "ProposalCreated": {
+      await upsertIndexedProposal(store, {
+        onChainId,
+        chain: networkId,
+        source,
+        title: event.args.title,
+        description: await readExecutorDescription(networkId, onChainId),
+        proposer: event.args.proposer,
+        status: "Pending",
+        txHash: log.transactionHash
+      });
+      return;
+    }
+    case "ExecutionRequested": {
+      const proposal = await store.getProposalByOnChainId(networkId, source, onChainId);
+      await updateChainStatus(store, proposal, networkIdForEid(Number(event.args.chainId)), "Requested");
+      return;
+    }
+    case "ExecutionCompleted": {
+      // Emitted on the destination chain; the proposal lives on the chain it came from
+      const originChain = networkIdForEid(Number(event.args.chainId));
+      const proposal = await store.getProposalByOnChainId(originChain, source, onChainId);
+      await updateChainStatus(store, proposal, networkId, event.args.success ? "Executed" : "Failed");
+      return;
+    }
+    case "ProposalExecuted": {
+      const proposal = await store.getProposalByOnChainId(networkId, source, onChainId);
+      if (proposal) {
+        await store.updateProposal(proposal.id, { status: "Executed" });
+      }
+      return;
+    }
+  }
+}
@@ -0,0 +1,115 @@
+import { ethers } from "ethers";
+import {
+  PROPOSAL_STATES,
+  buildLifecycleStages,
+  type LifecycleReadings,
+  type ProposalLifecycle
+} from "@shared/proposalLifecycle";
+import type { IStorage } from "./storage";
+import { NETWORKS, CONTRACT_ADDRESSES, GOVERNOR_ABI, TIMELOCK_ABI, providers } from "./web3";
+import { GovernorUnavailableError } from "./votes";
+
+// Blocks to average over when the network probe has no block time for the hub yet
+const BLOCK_TIME_SAMPLE_BLOCKS = 100;
+
+export class ProposalNotFoundError extends Error {
+  constructor(public proposalId: string) {
+    super(`Proposal ${proposalId} does not exist on the hub governor`);
+    this.name = "ProposalNotFoundError";
+  }
+}
+
+// The network probe's measurement, or a fresh one over the last BLOCK_TIME_SAMPLE_BLOCKS blocks
+async function getBlockTimeSeconds(
+  store: IStorage,
+  networkId: string,
+  provider: ethers.providers.Provider,
+  latest: ethers.providers.Block
+): Promise<number> {
+  const status = await store.getNetworkStatus(networkId);
+  if (status?.blockTimeMs) {
+    return status.blockTimeMs / 1000;
+  }
+
+  const older = await provider.getBlock(Math.max(0, latest.number - BLOCK_TIME_SAMPLE_BLOCKS));
+  return latest.number > older.number ? (latest.timestamp - older.timestamp) / (latest.number - older.number) : 0;
+}
+
+/**
+ * Read where a hub governor proposal is in its lifecycle and when it reaches
+ * each later stage.
+ *
+ * votingDelay, votingPeriod, the snapshot and deadline blocks and the ETA come
+ * from OmniGovernor; the delay a queued proposal waits out comes from the
+ * TimelockedExecutor it queues on. Stage blocks that are already mined are
+ * dated by their timestamps, later ones by the hub's measured block time.
+ */
+export async function getProposalLifecycle(store: IStorage, proposalId: string): Promise<ProposalLifecycle> {
+  const hub = NETWORKS.find(n => n.isHub) || NETWORKS[0];
+  const governorAddress = CONTRACT_ADDRESSES[hub.id]?.governor;
+  const provider = providers[hub.id];
+  if (!governorAddress || !provider) {
+    throw new GovernorUnavailableError(hub.id);
+  }
+
+  const governor = new ethers.Contract(governorAddress, GOVERNOR_ABI, provider);
+
+  // Unknown proposals have no snapshot, and state() reverts for them
+  const snapshotBlock = (await governor.proposalSnapshot(proposalId) as ethers.BigNumber).toNumber();
+  if (snapshotBlock === 0) {
+    throw new ProposalNotFoundError(proposalId);
+  }
+
+  const [stateIndex, deadline, votingDelay, votingPeriod, eta, timelockAddress, latest] = await Promise.all([
+    governor.state(proposalId) as Promise<number>,
+    governor.proposalDeadline(proposalId) as Promise<ethers.BigNumber>,
+    governor.votingDelay() as Promise<ethers.BigNumber>,
+    governor.votingPeriod() as Promise<ethers.BigNumber>,
+    governor.proposalEta(proposalId) as Promise<ethers.BigNumber>,
+    governor.timelock() as Promise<string>,
+    provider.getBlock("latest")
+  ]);
+
+  const timelockDelay: ethers.BigNumber = await new ethers.Contract(timelockAddress, TIMELOCK_ABI, provider).getMinDelay();
+  const deadlineBlock = deadline.toNumber();
+  const blockTimeSeconds = await getBlockTimeSeconds(store, hub.id, provider, latest);
+
+  // Date the stage blocks that have been mined by their own timestamps
+  const createdBlock = snapshotBlock - votingDelay.toNumber();
+  const minedStageBlocks = [createdBlock, snapshotBlock + 1, deadlineBlock + 1].filter(block => block >= 0 && block <= latest.number);
+  const minedBlocks = await Promise.all(minedStageBlocks.map(block => provider.getBlock(block)));
+
+  const readings: LifecycleReadings = {
+    state: PROPOSAL_STATES[stateIndex],
+    currentBlock: latest.number,
+    now: new Date(latest.timestamp * 1000),
+    blockTimeSeconds,
+    votingDelay: votingDelay.toNumber(),
+    snapshotBlock,
+    deadlineBlock,
+    timelockDelay: timelockDelay.toNumber(),
+    eta: eta.isZero() ? null : new Date(eta.toNumber() * 1000),
+    blockTimestamps: Object.fromEntries(minedBlocks.map(block => [block.number, new Date(block.timestamp * 1000)]))
+  };
+
+  const outcome = readings.state === "Canceled" || readings.state === "Defeated" || readings.state === "Expired"
+    ? readings.state
+    : null;
+
+  return {
+    proposalId,
+    networkId: hub.id,
+    state: readings.state,
+    outcome,
+    currentBlock: readings.currentBlock,
+    blockTimeSeconds,
+    votingDelay: readings.votingDelay,
+    votingPeriod: votingPeriod.toNumber(),
+    snapshotBlock,
+    deadlineBlock,
+    timelockDelay: readings.timelockDelay,
+    eta: readings.eta?.toISOString() ?? null,
+    stages: buildLifecycleStages(readings),
+    updatedAt: new Date().toISOString()
+  };
+}
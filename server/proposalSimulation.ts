@@ -0,0 +1,284 @@
+import { ethers } from "ethers";
+import type { NetworkDefinition } from "@shared/networks";
+import type { ActionSimulation, ProposalSimulation, SimulatedEvent } from "@shared/proposalSimulation";
+import { NETWORKS, TOKEN_ABI, EXECUTOR_ABI, GOVERNOR_ABI, ADAPTER_ABI, providers } from "./web3";
+import { getActionContractAddresses } from "./actionContracts";
+
+// Balance given to the impersonated timelock on a fork, so value transfers and gas never fail for lack of funds
+const FORK_BALANCE = ethers.utils.hexValue(ethers.utils.parseEther("1000"));
+
+// Errors that mean the node could not be reached, rather than that it rejected the call
+const UNREACHABLE_CODES: string[] = [ethers.errors.NETWORK_ERROR, ethers.errors.SERVER_ERROR, ethers.errors.TIMEOUT];
+
+// Error(string) and Panic(uint256) revert selectors
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// Events of our contracts plus the OpenZeppelin ones their admin functions emit
+const EVENT_INTERFACE = new ethers.utils.Interface([
+  ...[TOKEN_ABI, EXECUTOR_ABI, GOVERNOR_ABI, ADAPTER_ABI].flat().filter(fragment => fragment.startsWith("event ")),
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+  "event Approval(address indexed owner, address indexed spender, uint256 value)",
+  "event OwnershipTransferred(address indexed previousOwner, address indexed newOwner)",
+  "event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender)",
+  "event MinDelayChange(uint256 oldDuration, uint256 newDuration)",
+  "event Cancelled(bytes32 indexed id)"
+]);
+
+export interface SimulationActionInput {
+  networkId: string;
+  target: string;
+  value: string;       // Wei
+  calldata: string;
+}
+
+export class SimulationUnavailableError extends Error {
+  constructor(public networkId: string, reason: string) {
+    super(`Cannot simulate actions on "${networkId}": ${reason}`);
+    this.name = "SimulationUnavailableError";
+  }
+}
+
+// SEPOLIA_FORK_RPC, AMOY_FORK_RPC, ... point at a local Hardhat or Anvil fork of that network
+function forkUrlFor(network: NetworkDefinition): string | undefined {
+  return process.env[`${network.id.toUpperCase().replace(/-/g, "_")}_FORK_RPC`];
+}
+
+// The fields read from an ethers or JSON-RPC error; providers nest the node's own error under `error`
+interface RpcError {
+  code?: unknown;
+  data?: unknown;
+  error?: unknown;
+  reason?: unknown;
+  message?: unknown;
+}
+
+function isRpcError(value: unknown): value is RpcError {
+  return typeof value === "object" && value !== null;
+}
+
+interface RawLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+// A frame of a callTracer trace: the logs its call emitted and the calls it made
+interface CallFrame {
+  logs?: RawLog[];
+  calls?: CallFrame[];
+}
+
+// Revert data of a failed call, wherever the provider nested it in the error
+function revertDataOf(error: unknown): string | null {
+  for (let current = error; isRpcError(current); current = current.error) {
+    const { data } = current;
+    if (typeof data === "string" && ethers.utils.isHexString(data)) return data;
+    if (isRpcError(data) && typeof data.data === "string" && ethers.utils.isHexString(data.data)) return data.data;
+  }
+  return null;
+}
+
+// Whether a failed call reverted, as opposed to never reaching the node
+function isRevert(error: unknown): boolean {
+  return revertDataOf(error) !== null || (isRpcError(error) && error.code === ethers.errors.CALL_EXCEPTION);
+}
+
+export function decodeRevertReason(error: unknown): string {
+  const data = revertDataOf(error);
+  if (data && data.startsWith(ERROR_SELECTOR)) {
+    return ethers.utils.defaultAbiCoder.decode(["string"], `0x${data.slice(10)}`)[0];
+  }
+  if (data && data.startsWith(PANIC_SELECTOR)) {
+    return `Panic ${ethers.BigNumber.from(`0x${data.slice(10)}`).toHexString()}`;
+  }
+  if (data && data.length >= 10) {
+    return `Custom error ${data.slice(0, 10)}`;
+  }
+  if (data === "0x") {
+    return "Reverted without a reason";
+  }
+  if (isRpcError(error) && typeof error.reason === "string") return error.reason;
+  if (isRpcError(error) && typeof error.message === "string") return error.message;
+  return String(error);
+}
+
+function decodeEvent(log: RawLog): SimulatedEvent {
+  try {
+    const parsed = EVENT_INTERFACE.parseLog(log);
+    const args = Object.fromEntries(parsed.eventFragment.inputs.map((input, i) => [input.name || String(i), String(parsed.args[i])]));
+    return { address: log.address, name: parsed.name, args, topics: log.topics, data: log.data };
+  } catch (error) {
+    return { address: log.address, name: null, args: null, topics: log.topics, data: log.data };
+  }
+}
+
+// Logs of a callTracer frame and every call beneath it
+function collectTraceLogs(frame: CallFrame): RawLog[] {
+  return [...(frame.logs ?? []), ...(frame.calls ?? []).flatMap(collectTraceLogs)];
+}
+
+// JSON-RPC call object; ethers' own call() returns "0x" for a revert without data instead of throwing
+function toCall(from: string, action: SimulationActionInput) {
+  return { from, to: action.target, value: ethers.utils.hexValue(ethers.BigNumber.from(action.value)), data: action.calldata };
+}
+
+// Why the node refused a call or transaction: its revert reason, or the node's own
+// error such as insufficient funds. Only an unreachable node fails the whole simulation.
+function failureReasonOf(error: unknown): string {
+  if (isRevert(error)) return decodeRevertReason(error);
+
+  // ethers wraps a JSON-RPC error response as SERVER_ERROR with the node's error nested in it
+  let nodeError = error;
+  while (isRpcError(nodeError) && nodeError.error) nodeError = nodeError.error;
+  if (nodeError === error && isRpcError(error) && typeof error.code === "string" && UNREACHABLE_CODES.includes(error.code)) {
+    throw error;
+  }
+
+  return isRpcError(nodeError) && typeof nodeError.message === "string" ? nodeError.message : String(error);
+}
+
+function failed(reason: string) {
+  return { success: false, revertReason: reason, gasUsed: null, events: null };
+}
+
+// Failure reason of the call against the latest block, or null when it succeeds
+async function failureOf(provider: ethers.providers.JsonRpcProvider, call: ReturnType<typeof toCall>): Promise<string | null> {
+  try {
+    await provider.send("eth_call", [call, "latest"]);
+    return null;
+  } catch (error) {
+    return failureReasonOf(error);
+  }
+}
+
+// One eth_call per action against the latest block; events need a node that serves debug_traceCall
+async function simulateByCall(provider: ethers.providers.JsonRpcProvider, from: string, action: SimulationActionInput) {
+  const call = toCall(from, action);
+  const failure = await failureOf(provider, call);
+  if (failure !== null) {
+    return failed(failure);
+  }
+
+  const [gasUsed, events] = await Promise.all([
+    provider.send("eth_estimateGas", [call])
+      .then(gas => ethers.BigNumber.from(gas).toString())
+      .catch(() => null),
+    provider.send("debug_traceCall", [call, "latest", { tracer: "callTracer", tracerConfig: { withLog: true } }])
+      .then((trace: CallFrame) => collectTraceLogs(trace).map(decodeEvent))
+      .catch(() => null)  // Most public RPCs do not expose the debug namespace
+  ]);
+
+  return { success: true, revertReason: null, gasUsed, events };
+}
+
+// The latest run queued on each fork URL. Runs take turns, since a run that
+// reverts to its snapshot would also undo whatever another run sent meanwhile.
+const forkRuns = new Map<string, Promise<unknown>>();
+
+/**
+ * Run one network's actions in order as transactions from the impersonated
+ * executing address on a local fork, reverting the fork afterwards. An action
+ * that would fail is reported and not sent, so later actions run as they
+ * would have had it been left out.
+ */
+async function simulateOnFork(network: NetworkDefinition, forkUrl: string, from: string, actions: SimulationActionInput[]) {
+  const previous = forkRuns.get(forkUrl) ?? Promise.resolve();
+  const run = previous
+    .catch(() => {})  // A failed run is reported to its own caller; the next one goes ahead
+    .then(() => runOnFork(network, forkUrl, from, actions));
+  forkRuns.set(forkUrl, run);
+
+  try {
+    return await run;
+  } finally {
+    if (forkRuns.get(forkUrl) === run) forkRuns.delete(forkUrl);
+  }
+}
+
+async function runOnFork(network: NetworkDefinition, forkUrl: string, from: string, actions: SimulationActionInput[]) {
+  const fork = new ethers.providers.JsonRpcProvider(forkUrl);
+  const { chainId } = await fork.getNetwork();
+  if (chainId !== network.chainId) {
+    throw new SimulationUnavailableError(network.id, `fork at ${forkUrl} is chain ${chainId}, not ${network.chainId}`);
+  }
+
+  const snapshot = await fork.send("evm_snapshot", []);
+  try {
+    await fork.send("hardhat_impersonateAccount", [from]);
+    await fork.send("hardhat_setBalance", [from, FORK_BALANCE]);
+
+    const results = [];
+    for (const action of actions) {
+      const call = toCall(from, action);
+      const failure = await failureOf(fork, call);
+      if (failure !== null) {
+        results.push(failed(failure));
+        continue;
+      }
+
+      let receipt: ethers.providers.TransactionReceipt;
+      try {
+        // Hardhat and Anvil reject a reverting transaction instead of mining it
+        const hash: string = await fork.send("eth_sendTransaction", [call]);
+        receipt = await fork.waitForTransaction(hash);
+      } catch (error) {
+        results.push(failed(failureReasonOf(error)));
+        continue;
+      }
+      results.push({
+        success: receipt.status === 1,
+        revertReason: receipt.status === 1 ? null : "Reverted when sent after the preceding actions",
+        gasUsed: receipt.gasUsed.toString(),
+        events: receipt.logs.map(decodeEvent)
+      });
+    }
+    return results;
+  } finally {
+    await fork.send("evm_revert", [snapshot]);
+  }
+}
+
+/**
+ * Simulate a proposal's actions before anyone votes on it. Each action is
+ * called from the contract that will execute it: the timelock, or the
+ * executor where no timelock is deployed. A network with a
+ * <NETWORK>_FORK_RPC fork runs its actions in sequence on the fork; other
+ * networks get one eth_call per action.
+ */
+export async function simulateProposalActions(actions: SimulationActionInput[]): Promise<ProposalSimulation> {
+  const results: ActionSimulation[] = new Array(actions.length);
+
+  // Actions run per network, in proposal order within each
+  const networkIds = Array.from(new Set(actions.map(action => action.networkId)));
+  for (const networkId of networkIds) {
+    const network = NETWORKS.find(n => n.id === networkId);
+    const provider = providers[networkId];
+    if (!network || !provider) {
+      throw new SimulationUnavailableError(networkId, "network not configured");
+    }
+
+    const { addresses } = await getActionContractAddresses(network);
+    const from = addresses.timelock ?? addresses.executor;
+    if (!from) {
+      throw new SimulationUnavailableError(networkId, "no timelock or executor deployed to call from");
+    }
+
+    const indexed = actions.map((action, index) => ({ action, index })).filter(({ action }) => action.networkId === networkId);
+    const forkUrl = forkUrlFor(network);
+    const outcomes = forkUrl
+      ? await simulateOnFork(network, forkUrl, from, indexed.map(({ action }) => action))
+      : await Promise.all(indexed.map(({ action }) => simulateByCall(provider, from, action)));
+
+    indexed.forEach(({ action, index }, i) => {
+      results[index] = { index, ...action, from, mode: forkUrl ? "fork" : "call", ...outcomes[i] };
+    });
+  }
+
+  return {
+    success: results.every(result => result.success),
+    actions: results,
+    simulatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,52 @@
+import type { Request, RequestHandler, Response, Router } from "express";
+import { z } from "zod";
+import type { ApiBody, ApiContract, ApiError, ApiHeaders, ApiParams, ApiQuery, ApiResponse } from "@shared/api";
+import { requireAuth } from "../auth";
+
+export interface ApiInput<C extends ApiContract> {
+  params: ApiParams<C>;
+  query: ApiQuery<C>;
+  headers: ApiHeaders<C>;
+  body: ApiBody<C>;
+}
+
+export type ApiHandler<C extends ApiContract> = (
+  input: ApiInput<C>,
+  req: Request,
+  res: Response<ApiResponse<C> | ApiError>
+) => unknown;
+
+/**
+ * Register a handler for a contract from @shared/api. The params, query,
+ * headers and body are parsed with the contract's schemas before the handler
+ * runs, so it only ever sees validated input; anything else is a 400.
+ */
+export function apiRoute<C extends ApiContract>(router: Router, contract: C, handler: ApiHandler<C>) {
+  const middleware: RequestHandler[] = contract.auth ? [requireAuth] : [];
+
+  router[contract.method](contract.path, ...middleware, async (req: Request, res: Response) => {
+    let input: ApiInput<C>;
+    try {
+      input = {
+        params: contract.params ? contract.params.parse(req.params) : {},
+        query: contract.query ? contract.query.parse(req.query) : {},
+        headers: contract.headers ? contract.headers.parse(req.headers) : {},
+        body: contract.body ? contract.body.parse(req.body) : undefined
+      } as ApiInput<C>;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: error.errors });
+      }
+      throw error;
+    }
+
+    try {
+      await handler(input, req, res);
+    } catch (error) {
+      console.error(`Unhandled error in ${contract.method.toUpperCase()} ${contract.path}:`, error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Internal server error" });
+      }
+    }
+  });
+}
@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { randomBytes } from "crypto";
+import { authApi } from "@shared/api";
+import { SiweMessageError } from "@shared/siwe";
+import { storage } from "../storage";
+import { destroySession, regenerateSession, saveSession, verifySiweMessage, SiweVerificationError } from "../auth";
+import { apiRoute } from "./apiRoute";
+
+export const authRouter = Router();
+
+// Nonce for the next sign-in message; requesting a new one invalidates the previous
+apiRoute(authRouter, authApi.nonce, async (_input, req, res) => {
+  try {
+    const nonce = randomBytes(16).toString("hex");
+    req.session.nonce = nonce;
+    await saveSession(req);
+    res.json({ nonce });
+  } catch (error) {
+    console.error("Error issuing sign-in nonce:", error);
+    res.status(500).json({ error: "Failed to issue nonce" });
+  }
+});
+
+apiRoute(authRouter, authApi.verify, async ({ body }, req, res) => {
+  try {
+    let address: string;
+    try {
+      address = await verifySiweMessage(req, body.message, body.signature);
+    } finally {
+      // Single use, whether or not the signature checked out
+      delete req.session.nonce;
+    }
+
+    const user = await storage.getUserByAddress(address)
+      ?? await storage.createUser({ username: address.toLowerCase(), password: "", address });
+
+    // New session id so a pre-login id cannot be fixated onto the signed-in session
+    await regenerateSession(req);
+    req.session.userId = user.id;
+    req.session.address = address;
+    await saveSession(req);
+
+    res.json({ authenticated: true, address });
+  } catch (error) {
+    if (error instanceof SiweMessageError || error instanceof SiweVerificationError) {
+      return res.status(401).json({ error: error.message });
+    }
+    console.error("Error verifying sign-in:", error);
+    res.status(500).json({ error: "Failed to verify sign-in" });
+  }
+});
+
+apiRoute(authRouter, authApi.logout, async (_input, req, res) => {
+  try {
+    await destroySession(req);
+    res.clearCookie("connect.sid");
+    res.json({ authenticated: false, address: null });
+  } catch (error) {
+    console.error("Error ending session:", error);
+    res.status(500).json({ error: "Failed to sign out" });
+  }
+});
+
+apiRoute(authRouter, authApi.session, (_input, req, res) => {
+  const address = req.session.address ?? null;
+  res.json({ authenticated: !!address, address });
+});
@@ -0,0 +1,109 @@
+import { Router } from "express";
+import { dvnApi } from "@shared/api";
+import { storage } from "../storage";
+import { NETWORKS } from "../web3";
+import { getDvnConfigView, getAllDvnConfigViews, saveDvnConfig } from "../dvn";
+import { getDvnAdminAccess, draftDvnConfigProposal, DvnAdminUnavailableError, InvalidDvnProposalError } from "../dvnAdmin";
+import { apiRoute } from "./apiRoute";
+
+export const dvnRouter = Router();
+
+apiRoute(dvnRouter, dvnApi.all, async (_input, _req, res) => {
+  try {
+    res.json(await getAllDvnConfigViews(storage));
+  } catch (error) {
+    console.error("Error fetching DVN configurations:", error);
+    res.status(500).json({ error: "Failed to fetch DVN configurations" });
+  }
+});
+
+apiRoute(dvnRouter, dvnApi.get, async ({ params }, _req, res) => {
+  try {
+    const network = NETWORKS.find(n => n.id === params.networkId);
+    if (!network) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    res.json(await getDvnConfigView(storage, network));
+  } catch (error) {
+    console.error("Error getting DVN info:", error);
+    res.status(500).json({ error: "Failed to get DVN information" });
+  }
+});
+
+apiRoute(dvnRouter, dvnApi.changes, async ({ params }, req, res) => {
+  try {
+    if (!NETWORKS.some(n => n.id === params.networkId)) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    res.json(await storage.getDvnConfigChanges(params.networkId, req.session.address));
+  } catch (error) {
+    console.error("Error getting DVN config changes:", error);
+    res.status(500).json({ error: "Failed to get DVN configuration changes" });
+  }
+});
+
+apiRoute(dvnRouter, dvnApi.access, async ({ params }, req, res) => {
+  try {
+    const network = NETWORKS.find(n => n.id === params.networkId);
+    if (!network) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    res.json(await getDvnAdminAccess(network, req.session.address!));
+  } catch (error) {
+    if (error instanceof DvnAdminUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error checking DVN admin access:", error);
+    res.status(500).json({ error: "Failed to check DVN admin access" });
+  }
+});
+
+apiRoute(dvnRouter, dvnApi.save, async ({ params, body }, req, res) => {
+  try {
+    const network = NETWORKS.find(n => n.id === params.networkId);
+    if (!network) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    const access = await getDvnAdminAccess(network, req.session.address!);
+    if (access.mode !== "admin") {
+      return res.status(403).json({
+        error: "Only the DVNConfigManager owner or a timelock proposer can change DVN settings; submit them as a proposal instead",
+        access
+      });
+    }
+
+    // Recorded against the signed-in account rather than anything the client claims
+    res.json(await saveDvnConfig(storage, network, body, req.session.address!));
+  } catch (error) {
+    if (error instanceof DvnAdminUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error updating DVN config:", error);
+    res.status(500).json({ error: "Failed to update DVN configuration" });
+  }
+});
+
+apiRoute(dvnRouter, dvnApi.propose, async ({ params, body }, req, res) => {
+  try {
+    const network = NETWORKS.find(n => n.id === params.networkId);
+    if (!network) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    const proposal = await storage.createProposal(draftDvnConfigProposal(network, body, req.session.address!));
+    res.status(201).json(proposal);
+  } catch (error) {
+    if (error instanceof InvalidDvnProposalError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof DvnAdminUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error drafting DVN config proposal:", error);
+    res.status(500).json({ error: "Failed to submit DVN configuration proposal" });
+  }
+});
@@ -0,0 +1,57 @@
+import type { Express } from "express";
+import { createServer, type Server } from "http";
+import { NETWORKS, providers, initializeWeb3 } from "../web3";
+import { indexer } from "../indexer";
+import { createLocalProviders } from "../localProvider";
+import { supplyAudit } from "../supplyAudit";
+import { networkProbe } from "../networkProbe";
+import { setupAuth } from "../auth";
+import { buildOpenApiDocument } from "../openapi";
+import { authRouter } from "./auth";
+import { networksRouter } from "./networks";
+import { supplyRouter } from "./supply";
+import { transactionsRouter } from "./transactions";
+import { dvnRouter } from "./dvn";
+import { proposalsRouter } from "./proposals";
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Sign-In with Ethereum sessions; per-wallet data is only served to its owner
+  setupAuth(app);
+
+  // Initialize web3 providers and contract addresses
+  await initializeWeb3();
+
+  // Follow on-chain events to drive LayerZero transaction status
+  if (process.env.INDEXER_DISABLED !== "true") {
+    indexer.start(process.env.INDEXER_PROVIDER === "local"
+      ? createLocalProviders(NETWORKS.map(n => n.id))
+      : providers);
+  }
+
+  // Check cross-chain supply consistency on a schedule
+  if (process.env.SUPPLY_AUDIT_DISABLED !== "true") {
+    supplyAudit.start();
+  }
+
+  // Measure RPC latency, block freshness and gas for every network
+  if (process.env.NETWORK_PROBE_DISABLED !== "true") {
+    networkProbe.start();
+  }
+
+  // Each router validates against its contracts in @shared/api
+  app.use(authRouter);
+  app.use(networksRouter);
+  app.use(supplyRouter);
+  app.use(transactionsRouter);
+  app.use(dvnRouter);
+  app.use(proposalsRouter);
+
+  // Generated from the same contracts, so it cannot drift from the routes
+  const openApiDocument = buildOpenApiDocument();
+  app.get("/api/openapi.json", (_req, res) => {
+    res.json(openApiDocument);
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
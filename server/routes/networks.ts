@@ -0,0 +1,83 @@
+import { Router } from "express";
+import { networksApi } from "@shared/api";
+import { storage } from "../storage";
+import { NETWORKS } from "../web3";
+import { gasOracle, GasEstimatesUnavailableError } from "../gas";
+import { quoteLayerZeroFee, InvalidFeeQuoteError, FeeQuoteUnavailableError } from "../layerzeroFees";
+import { getActionContractAddresses } from "../actionContracts";
+import { apiRoute } from "./apiRoute";
+
+export const networksRouter = Router();
+
+apiRoute(networksRouter, networksApi.registry, (_input, _req, res) => {
+  res.json([...NETWORKS]);
+});
+
+// Kept current by the network health probe
+apiRoute(networksRouter, networksApi.statuses, async (_input, _req, res) => {
+  try {
+    res.json(await storage.getAllNetworkStatus());
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch network status" });
+  }
+});
+
+apiRoute(networksRouter, networksApi.statusesAlias, async (_input, _req, res) => {
+  try {
+    res.json(await storage.getAllNetworkStatus());
+  } catch (error) {
+    console.error("Error fetching network statuses:", error);
+    res.status(500).json({ error: "Failed to fetch network statuses" });
+  }
+});
+
+apiRoute(networksRouter, networksApi.reportStatus, async ({ body }, _req, res) => {
+  try {
+    res.status(201).json(await storage.upsertNetworkStatus(body));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update network status" });
+  }
+});
+
+apiRoute(networksRouter, networksApi.gas, async (_input, _req, res) => {
+  try {
+    res.json(await gasOracle.getEstimates());
+  } catch (error) {
+    if (error instanceof GasEstimatesUnavailableError) {
+      return res.status(502).json({ error: error.message });
+    }
+    console.error("Error estimating gas:", error);
+    res.status(500).json({ error: "Failed to estimate gas" });
+  }
+});
+
+// Quoted from the deployed adapter, OFT and DVN manager
+apiRoute(networksRouter, networksApi.fees, async ({ query }, _req, res) => {
+  try {
+    res.json(await quoteLayerZeroFee(query));
+  } catch (error) {
+    if (error instanceof InvalidFeeQuoteError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof FeeQuoteUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error quoting LayerZero fee:", error);
+    res.status(502).json({ error: "Failed to quote LayerZero fee" });
+  }
+});
+
+// Targets the proposal form's action composer offers
+apiRoute(networksRouter, networksApi.contracts, async ({ params }, _req, res) => {
+  try {
+    const network = NETWORKS.find(n => n.id === params.networkId);
+    if (!network) {
+      return res.status(404).json({ error: "Network not found" });
+    }
+
+    res.json(await getActionContractAddresses(network));
+  } catch (error) {
+    console.error("Error fetching deployed contracts:", error);
+    res.status(500).json({ error: "Failed to fetch deployed contracts" });
+  }
+});
@@ -0,0 +1,171 @@
+import { Router } from "express";
+import { proposalsApi } from "@shared/api";
+import { storage } from "../storage";
+import { NETWORKS } from "../web3";
+import { getProposalVoteTally, GovernorUnavailableError } from "../votes";
+import { getProposalLifecycle, ProposalNotFoundError } from "../proposalLifecycle";
+import { simulateProposalActions, SimulationUnavailableError } from "../proposalSimulation";
+import { apiRoute } from "./apiRoute";
+
+export const proposalsRouter = Router();
+
+// Proposals are looked up by on-chain id, on the hub governor unless told otherwise
+async function findProposal(proposalId: string, query: { chain?: string; source?: string }) {
+  const hubNetwork = NETWORKS.find(n => n.isHub);
+  const chain = query.chain || hubNetwork!.id;
+  const source = query.source || "governor";
+
+  const proposal = await storage.getProposalByOnChainId(chain, source, proposalId);
+
+  // Fall back to the database id for proposals that have not been indexed yet
+  if (!proposal && /^\d{1,9}$/.test(proposalId)) {
+    return storage.getProposal(parseInt(proposalId));
+  }
+  return proposal;
+}
+
+apiRoute(proposalsRouter, proposalsApi.list, async (_input, _req, res) => {
+  try {
+    res.json(await storage.getAllProposals());
+  } catch (error) {
+    console.error("Error listing proposals:", error);
+    res.status(500).json({ error: "Failed to list proposals" });
+  }
+});
+
+apiRoute(proposalsRouter, proposalsApi.get, async ({ params, query }, _req, res) => {
+  try {
+    if (!NETWORKS.some(n => n.isHub)) {
+      return res.status(500).json({ error: "Hub network not configured" });
+    }
+
+    const proposal = await findProposal(params.proposalId, query);
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    res.json(proposal);
+  } catch (error) {
+    console.error("Error getting proposal:", error);
+    res.status(500).json({ error: "Failed to get proposal details" });
+  }
+});
+
+apiRoute(proposalsRouter, proposalsApi.votes, async ({ params }, _req, res) => {
+  try {
+    res.json(await getProposalVoteTally(params.proposalId));
+  } catch (error) {
+    if (error instanceof GovernorUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error getting proposal votes:", error);
+    res.status(502).json({ error: "Failed to read proposal votes from the governor" });
+  }
+});
+
+apiRoute(proposalsRouter, proposalsApi.lifecycle, async ({ params }, _req, res) => {
+  try {
+    res.json(await getProposalLifecycle(storage, params.proposalId));
+  } catch (error) {
+    if (error instanceof ProposalNotFoundError) {
+      return res.status(404).json({ error: error.message });
+    }
+    if (error instanceof GovernorUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error reading proposal lifecycle:", error);
+    res.status(502).json({ error: "Failed to read the proposal lifecycle from the governor" });
+  }
+});
+
+apiRoute(proposalsRouter, proposalsApi.simulate, async ({ body }, _req, res) => {
+  try {
+    const hubNetwork = NETWORKS.find(n => n.isHub)!;
+    res.json(await simulateProposalActions(body.actions.map(action => ({ ...action, networkId: action.networkId || hubNetwork.id }))));
+  } catch (error) {
+    if (error instanceof SimulationUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error simulating proposal actions:", error);
+    res.status(502).json({ error: "Failed to simulate proposal actions" });
+  }
+});
+
+// Stored proposals execute every action on the chain they were created on
+apiRoute(proposalsRouter, proposalsApi.simulation, async ({ params, query }, _req, res) => {
+  try {
+    const proposal = await findProposal(params.proposalId, query);
+    if (!proposal) {
+      return res.status(404).json({ error: "Proposal not found" });
+    }
+
+    res.json(await simulateProposalActions(proposal.targets.map((target, i) => ({
+      networkId: proposal.chain,
+      target,
+      value: proposal.values[i] ?? "0",
+      calldata: proposal.calldatas[i] ?? "0x"
+    }))));
+  } catch (error) {
+    if (error instanceof SimulationUnavailableError) {
+      return res.status(503).json({ error: error.message });
+    }
+    console.error("Error simulating proposal:", error);
+    res.status(502).json({ error: "Failed to simulate proposal" });
+  }
+});
+
+apiRoute(proposalsRouter, proposalsApi.create, async ({ body }, req, res) => {
+  try {
+    const hubNetwork = NETWORKS.find(n => n.isHub);
+    const chain = body.chain || hubNetwork?.id;
+
+    if (!chain || !NETWORKS.some(n => n.id === chain)) {
+      return res.status(400).json({ error: "Invalid network selection" });
+    }
+
+    // The indexer may already have picked the proposal up from its creation transaction
+    if (body.txHash) {
+      const existing = (await storage.getAllProposals()).find(p =>
+        p.chain === chain && p.source === body.source && p.txHash?.toLowerCase() === body.txHash!.toLowerCase()
+      );
+      if (existing) {
+        return res.json(existing);
+      }
+    }
+
+    // The on-chain id is only ever set by the indexer, which claims this row from the creation event
+    const proposal = await storage.createProposal({
+      onChainId: null,
+      chain,
+      source: body.source,
+      title: body.title,
+      description: body.description,
+      proposer: req.session.address!,
+      targets: body.actions.map(action => action.target),
+      values: body.actions.map(action => action.value),
+      calldatas: body.actions.map(action => action.calldata),
+      status: "Pending",
+      txHash: body.txHash || null
+    });
+
+    res.status(201).json(proposal);
+  } catch (error) {
+    console.error("Error creating proposal:", error);
+    res.status(500).json({ error: "Failed to create proposal" });
+  }
+});
+
+// Simulated execution on the given chains through lzCompose
+apiRoute(proposalsRouter, proposalsApi.execute, ({ params, body }, _req, res) => {
+  res.json({
+    success: true,
+    proposalId: params.proposalId,
+    executionId: `0x${Math.random().toString(16).substring(2, 34).padStart(64, '0')}`,
+    chains: body.chains.map(chainId => ({
+      id: chainId,
+      status: "Pending",
+      transactionHash: null
+    })),
+    estimatedTimeToComplete: "2-5 minutes"
+  });
+});
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { supplyApi } from "@shared/api";
+import { storage } from "../storage";
+import { runSupplyCheck, getSupplyHistory, SupplyReadError } from "../supply";
+import { apiRoute } from "./apiRoute";
+
+const DEFAULT_HISTORY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const supplyRouter = Router();
+
+apiRoute(supplyRouter, supplyApi.checks, async (_input, _req, res) => {
+  try {
+    res.json(await storage.getAllSupplyChecks());
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch supply checks" });
+  }
+});
+
+apiRoute(supplyRouter, supplyApi.history, async ({ query }, _req, res) => {
+  try {
+    const since = query.since ?? new Date(Date.now() - DEFAULT_HISTORY_WINDOW_MS);
+    res.json(await getSupplyHistory(storage, since));
+  } catch (error) {
+    console.error("Error fetching supply history:", error);
+    res.status(500).json({ error: "Failed to fetch supply history" });
+  }
+});
+
+// Reads totalSupply() on every chain
+apiRoute(supplyRouter, supplyApi.verify, async (_input, _req, res) => {
+  try {
+    const { check, result } = await runSupplyCheck(storage, "manualCheck()");
+
+    res.json({
+      success: result.status !== "Deviation",
+      check,
+      supplyData: result
+    });
+  } catch (error) {
+    if (error instanceof SupplyReadError) {
+      return res.status(502).json({ error: error.message, details: error.failures });
+    }
+    console.error("Error verifying supply:", error);
+    res.status(500).json({ error: "Failed to verify supply consistency" });
+  }
+});
+
+apiRoute(supplyRouter, supplyApi.record, async ({ body }, _req, res) => {
+  try {
+    res.status(201).json(await storage.createSupplyCheck(body));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create supply check" });
+  }
+});
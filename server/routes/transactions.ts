@@ -0,0 +1,304 @@
+import { Router, type Request } from "express";
+import { transactionsApi, type ApiBody, type ApiHeaders } from "@shared/api";
+import { InvalidTransitionError, INITIAL_TRANSACTION_STATUS, isRetryableStatus } from "@shared/transactionStatus";
+import { InvalidCursorError } from "@shared/transactionQuery";
+import { TRANSACTION_STREAM_EVENT } from "@shared/transactionEvents";
+import type { LayerZeroTransaction } from "@shared/schema";
+import { storage, IdempotencyKeyConflictError } from "../storage";
+import { NETWORKS } from "../web3";
+import { transactionEvents } from "../transactionEvents";
+import { isOwner } from "../auth";
+import { apiRoute } from "./apiRoute";
+
+export const transactionsRouter = Router();
+
+type RegistrationOutcome =
+  | { status: 200 | 201; transaction: LayerZeroTransaction }
+  | { status: 403 | 409; error: string };
+
+// Shared by both registration endpoints; repeated registrations get the existing record back
+async function registerTransaction(
+  req: Request,
+  body: ApiBody<typeof transactionsApi.register>,
+  headers: ApiHeaders<typeof transactionsApi.register>
+): Promise<RegistrationOutcome> {
+  if (!isOwner(req, body.walletAddress)) {
+    return { status: 403, error: "Wallet address does not match the signed-in account" };
+  }
+
+  try {
+    const { transaction, created } = await storage.registerLayerZeroTransaction(body, headers["idempotency-key"]);
+    if (!created && !isOwner(req, transaction.walletAddress)) {
+      return { status: 409, error: "Transaction is already registered to another wallet" };
+    }
+    // Status progression is driven by the event indexer from on-chain receipts
+    return { status: created ? 201 : 200, transaction };
+  } catch (error) {
+    if (error instanceof InvalidTransitionError || error instanceof IdempotencyKeyConflictError) {
+      return { status: 409, error: error.message };
+    }
+    throw error;
+  }
+}
+
+// The signed-in wallet's transaction, or undefined so others' ids look like missing ones
+async function getOwnTransaction(req: Request, id: number): Promise<LayerZeroTransaction | undefined> {
+  const transaction = await storage.getLayerZeroTransaction(id);
+  return transaction && isOwner(req, transaction.walletAddress) ? transaction : undefined;
+}
+
+// Put a failed transaction back to pending; the indexer re-checks its receipts on the next pass
+function resetForRetry(id: number): Promise<LayerZeroTransaction> {
+  return storage.updateLayerZeroTransaction(id, {
+    status: INITIAL_TRANSACTION_STATUS,
+    error: null,
+    updatedAt: new Date()
+  });
+}
+
+apiRoute(transactionsRouter, transactionsApi.bridgeHistory, async ({ params }, req, res) => {
+  try {
+    if (!isOwner(req, params.address)) {
+      return res.status(403).json({ error: "You can only view your own bridge transactions" });
+    }
+    res.json(await storage.getBridgeTransactionsByAddress(params.address));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch bridge transactions" });
+  }
+});
+
+// Simulated cross-chain transfer
+apiRoute(transactionsRouter, transactionsApi.bridge, async ({ body }, req, res) => {
+  try {
+    if (!isOwner(req, body.walletAddress)) {
+      return res.status(403).json({ error: "Wallet address does not match the signed-in account" });
+    }
+
+    const fromNetwork = NETWORKS.find(n => n.id === body.fromChain);
+    const toNetwork = NETWORKS.find(n => n.id === body.toChain);
+
+    if (!fromNetwork || !toNetwork) {
+      return res.status(400).json({ error: "Invalid network selection" });
+    }
+
+    // Generate message fee based on LayerZero fee structure
+    const baseFeeLz = 0.001; // ETH
+    let estimatedFee;
+
+    if (fromNetwork.isHub && !toNetwork.isHub) {
+      // Hub to satellite is cheaper
+      estimatedFee = baseFeeLz * body.amount * 0.0001;
+    } else if (!fromNetwork.isHub && toNetwork.isHub) {
+      // Satellite to hub has standard fee
+      estimatedFee = baseFeeLz * body.amount * 0.0002;
+    } else {
+      // Satellite to satellite has higher fee (would use lzCompose)
+      estimatedFee = baseFeeLz * body.amount * 0.0003;
+    }
+
+    // Format transaction hash to look like a real one
+    const txHash = `0x${Math.random().toString(16).substring(2, 34).padStart(64, '0')}`;
+
+    const parsedData = {
+      amount: body.amount.toString(),
+      fromChain: body.fromChain,
+      toChain: body.toChain,
+      walletAddress: body.walletAddress,
+      fee: estimatedFee.toString(),
+      status: "pending", // Start as pending
+      hash: txHash
+    };
+
+    const transaction = await storage.createBridgeTransaction(parsedData);
+
+    res.status(201).json(transaction);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create bridge transaction" });
+  }
+});
+
+// Registered before the address route so numeric ids are not taken for addresses
+apiRoute(transactionsRouter, transactionsApi.layerZeroGet, async ({ params }, req, res) => {
+  try {
+    const transaction = await getOwnTransaction(req, params.id);
+    if (!transaction) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.json(transaction);
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch LayerZero transaction",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.layerZeroByAddress, async ({ params }, req, res) => {
+  try {
+    if (!isOwner(req, params.address)) {
+      return res.status(403).json({ error: "You can only view your own transactions" });
+    }
+    res.json(await storage.getLayerZeroTransactionsByAddress(params.address));
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to fetch LayerZero transactions",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.layerZeroRegister, async ({ body, headers }, req, res) => {
+  try {
+    const outcome = await registerTransaction(req, body, headers);
+    if ("error" in outcome) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.status(outcome.status).json(outcome.transaction);
+  } catch (error) {
+    res.status(500).json({
+      error: "Failed to create LayerZero transaction",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.layerZeroRetry, async ({ body }, req, res) => {
+  try {
+    const transaction = await getOwnTransaction(req, body.id);
+    if (!transaction) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    if (!isRetryableStatus(transaction.status)) {
+      return res.status(409).json({ error: "Only failed transactions can be retried" });
+    }
+
+    res.json(await resetForRetry(body.id));
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    console.error("Error retrying transaction:", error);
+    res.status(500).json({
+      error: "Failed to retry transaction",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.layerZeroUpdate, async ({ params, body }, req, res) => {
+  try {
+    if (!await getOwnTransaction(req, params.id)) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.json(await storage.updateLayerZeroTransaction(params.id, body));
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({
+      error: "Failed to update LayerZero transaction",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Unified API for all transaction types, one page at a time
+apiRoute(transactionsRouter, transactionsApi.list, async ({ query }, req, res) => {
+  try {
+    if (query.walletAddress && !isOwner(req, query.walletAddress)) {
+      return res.status(403).json({ error: "You can only view your own transactions" });
+    }
+    // Without a wallet filter the list is scoped to the signed-in account
+    res.json(await storage.listLayerZeroTransactions({ ...query, walletAddress: req.session.address }));
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return res.status(400).json({ error: error.message });
+    }
+    res.status(500).json({
+      error: "Failed to fetch transactions",
+      details: error instanceof Error ? error.message : String(error)
+    });
+  }
+});
+
+// Registered before /api/transactions/:id so "stream" is not taken for an id
+apiRoute(transactionsRouter, transactionsApi.stream, ({ query }, req, res) => {
+  const { walletAddress } = query;
+  if (!isOwner(req, walletAddress)) {
+    return res.status(403).json({ error: "You can only follow your own transactions" });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive'
+  });
+  res.write(': connected\n\n');
+
+  const unsubscribe = transactionEvents.subscribe(walletAddress, change => {
+    res.write(`event: ${TRANSACTION_STREAM_EVENT}\ndata: ${JSON.stringify(change)}\n\n`);
+  });
+
+  // Comment lines keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 25000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+apiRoute(transactionsRouter, transactionsApi.get, async ({ params }, req, res) => {
+  try {
+    const transaction = await getOwnTransaction(req, params.id);
+    if (!transaction) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.json(transaction);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch transaction" });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.history, async ({ params }, req, res) => {
+  try {
+    if (!await getOwnTransaction(req, params.id)) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    res.json(await storage.getLayerZeroTransactionHistory(params.id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch transaction history" });
+  }
+});
+
+// Alias of POST /api/layerzero/transactions
+apiRoute(transactionsRouter, transactionsApi.register, async ({ body, headers }, req, res) => {
+  try {
+    const outcome = await registerTransaction(req, body, headers);
+    if ("error" in outcome) {
+      return res.status(outcome.status).json({ error: outcome.error });
+    }
+    res.status(outcome.status).json(outcome.transaction);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create transaction" });
+  }
+});
+
+apiRoute(transactionsRouter, transactionsApi.retry, async ({ params }, req, res) => {
+  try {
+    const transaction = await getOwnTransaction(req, params.id);
+    if (!transaction) {
+      return res.status(404).json({ error: "Transaction not found" });
+    }
+    if (!isRetryableStatus(transaction.status)) {
+      return res.status(409).json({ error: "Only failed transactions can be retried" });
+    }
+
+    res.json({ success: true, transaction: await resetForRetry(params.id) });
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({ error: error.message });
+    }
+    res.status(500).json({ error: "Failed to retry transaction" });
+  }
+});
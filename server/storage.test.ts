@@ -0,0 +1,145 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import { createRequire } from "module";
+import { ethers } from "ethers";
+import * as schema from "@shared/schema";
+import type { InsertLayerZeroTransaction } from "@shared/schema";
+import { InvalidTransitionError } from "@shared/transactionStatus";
+import { DatabaseStorage, IdempotencyKeyConflictError, MemStorage, type IStorage } from "./storage";
+
+// The ESM build of drizzle-kit's API cannot load its own CommonJS dependencies
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+const WALLET = ethers.utils.getAddress(ethers.utils.hexDataSlice(ethers.utils.id("wallet"), 12));
+
+function bridge(label: string): InsertLayerZeroTransaction {
+  return {
+    type: "token_bridge",
+    sourceChain: "sepolia",
+    destinationChain: "amoy",
+    sourceTxHash: ethers.utils.id(label),
+    walletAddress: WALLET
+  };
+}
+
+interface Backend {
+  fresh(): Promise<IStorage>;     // Storage with no transactions registered yet
+  close(): Promise<void>;
+}
+
+async function memoryBackend(): Promise<Backend> {
+  return { fresh: async () => new MemStorage(), close: async () => {} };
+}
+
+// An in-process Postgres with the tables of the shared schema
+async function databaseBackend(): Promise<Backend> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) {
+    await client.exec(statement);
+  }
+  // Same query builder as node-postgres, over another driver
+  const storage = new DatabaseStorage(drizzle(client, { schema }) as unknown as NodePgDatabase<typeof schema>);
+
+  return {
+    fresh: async () => {
+      await client.exec("TRUNCATE layerzero_transaction_history, layerzero_transactions RESTART IDENTITY");
+      return storage;
+    },
+    close: () => client.close()
+  };
+}
+
+describe.each([
+  ["MemStorage", memoryBackend],
+  ["DatabaseStorage", databaseBackend]
+])("%s.registerLayerZeroTransaction", (_name, createBackend) => {
+  let backend: Backend;
+  let storage: IStorage;
+
+  beforeAll(async () => {
+    backend = await createBackend();
+  }, 30_000);
+
+  afterAll(() => backend.close());
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    storage = await backend.fresh();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("creates a pending transaction with its first history entry", async () => {
+    const { transaction, created } = await storage.registerLayerZeroTransaction(bridge("tx"), "key");
+
+    expect(created).toBe(true);
+    expect(transaction.status).toBe("pending");
+    expect(transaction.idempotencyKey).toBe("key");
+
+    const history = await storage.getLayerZeroTransactionHistory(transaction.id);
+    expect(history.map(entry => [entry.fromStatus, entry.toStatus])).toEqual([[null, "pending"]]);
+  });
+
+  it("rejects a transaction that does not start as pending", async () => {
+    await expect(storage.registerLayerZeroTransaction({ ...bridge("tx"), status: "completed" }))
+      .rejects.toThrow(InvalidTransitionError);
+  });
+
+  it("returns the first registration when the key is replayed", async () => {
+    const first = await storage.registerLayerZeroTransaction(bridge("tx"), "key");
+    const replay = await storage.registerLayerZeroTransaction(bridge("tx"), "key");
+
+    expect(replay.created).toBe(false);
+    expect(replay.transaction.id).toBe(first.transaction.id);
+  });
+
+  it("rejects a replayed key with a different transaction", async () => {
+    await storage.registerLayerZeroTransaction(bridge("tx"), "key");
+
+    await expect(storage.registerLayerZeroTransaction(bridge("other tx"), "key"))
+      .rejects.toThrow(IdempotencyKeyConflictError);
+  });
+
+  it("returns the existing transaction for the same source transaction under another key", async () => {
+    const first = await storage.registerLayerZeroTransaction(bridge("tx"), "key");
+
+    for (const key of ["other key", undefined]) {
+      const again = await storage.registerLayerZeroTransaction(bridge("tx"), key);
+      expect(again.created).toBe(false);
+      expect(again.transaction.id).toBe(first.transaction.id);
+    }
+    expect(await storage.getLayerZeroTransactionHistory(first.transaction.id)).toHaveLength(1);
+  });
+
+  it("creates one transaction when the same registration races", async () => {
+    const registrations = await Promise.all(
+      Array.from({ length: 5 }, () => storage.registerLayerZeroTransaction(bridge("tx"), "key"))
+    );
+
+    expect(registrations.filter(registration => registration.created)).toHaveLength(1);
+    expect(new Set(registrations.map(registration => registration.transaction.id)).size).toBe(1);
+    expect(await storage.getLayerZeroTransactionHistory(registrations[0].transaction.id)).toHaveLength(1);
+  });
+
+  it("lets only one of two transactions racing for a key through", async () => {
+    const results = await Promise.allSettled([
+      storage.registerLayerZeroTransaction(bridge("tx"), "key"),
+      storage.registerLayerZeroTransaction(bridge("other tx"), "key")
+    ]);
+
+    const [fulfilled, rejected] = [
+      results.filter(result => result.status === "fulfilled"),
+      results.filter((result): result is PromiseRejectedResult => result.status === "rejected")
+    ];
+    expect(fulfilled).toHaveLength(1);
+    expect(rejected).toHaveLength(1);
+    expect(rejected[0].reason).toBeInstanceOf(IdempotencyKeyConflictError);
+
+    expect(await storage.getLayerZeroTransactionsByAddress(WALLET)).toHaveLength(1);
+  });
+});
@@ -2,16 +2,70 @@ import {
   users, type User, type InsertUser,
   bridgeTransactions, type BridgeTransaction, type InsertBridgeTransaction,
   supplyChecks, type SupplyCheck, type InsertSupplyCheck,
+  supplySnapshots, type SupplySnapshot, type InsertSupplySnapshot,
   networkStatus, type NetworkStatus, type InsertNetworkStatus,
-  layerZeroTransactions, type LayerZeroTransaction, type InsertLayerZeroTransaction
+  dvnConfigs, type DvnConfig, type InsertDvnConfig,
+  dvnConfigChanges, type DvnConfigChange,
+  layerZeroTransactions, type LayerZeroTransaction, type InsertLayerZeroTransaction,
+  layerZeroTransactionHistory, type LayerZeroTransactionHistory,
+  proposals, type Proposal, type InsertProposal
 } from "@shared/schema";
+import { assertTransition, INITIAL_TRANSACTION_STATUS } from "@shared/transactionStatus";
+import { diffDvnSettings } from "@shared/dvn";
+import {
+  type TransactionQuery,
+  type TransactionPage,
+  type TransactionSortField,
+  encodeTransactionCursor,
+  decodeTransactionCursor
+} from "@shared/transactionQuery";
+import type { NodePgDatabase } from "drizzle-orm/node-postgres";
+import type * as schema from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, sql } from "drizzle-orm";
+import { transactionEvents } from "./transactionEvents";
+import { eq, and, asc, desc, gte, lte, sql, type SQL } from "drizzle-orm";
+
+function sortValueOf(tx: LayerZeroTransaction, sort: TransactionSortField): Date {
+  return tx[sort] ?? new Date(0);
+}
+
+// Trim the extra row fetched past the limit and turn the last row into the next cursor
+function toTransactionPage(rows: LayerZeroTransaction[], query: TransactionQuery): TransactionPage<LayerZeroTransaction> {
+  const items = rows.slice(0, query.limit);
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    nextCursor: rows.length > query.limit && last
+      ? encodeTransactionCursor({ value: sortValueOf(last, query.sort).toISOString(), id: last.id })
+      : null
+  };
+}
+
+export class IdempotencyKeyConflictError extends Error {
+  constructor(public idempotencyKey: string | undefined) {
+    super(`Idempotency-Key "${idempotencyKey}" was already used to register a different transaction`);
+    this.name = "IdempotencyKeyConflictError";
+  }
+}
+
+export interface TransactionRegistration {
+  transaction: LayerZeroTransaction;
+  created: boolean;          // False when an earlier registration was returned instead
+}
+
+// A replayed Idempotency-Key has to describe the transaction it first registered
+function assertSameRegistration(existing: LayerZeroTransaction, transaction: InsertLayerZeroTransaction, idempotencyKey: string) {
+  if (existing.sourceChain !== transaction.sourceChain || existing.sourceTxHash !== transaction.sourceTxHash) {
+    throw new IdempotencyKeyConflictError(idempotencyKey);
+  }
+}
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByAddress(address: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Bridge Transactions
@@ -23,34 +77,63 @@ export interface IStorage {
   getSupplyCheck(id: number): Promise<SupplyCheck | undefined>;
   getAllSupplyChecks(): Promise<SupplyCheck[]>;
   createSupplyCheck(check: InsertSupplyCheck): Promise<SupplyCheck>;
+  createSupplySnapshots(snapshots: InsertSupplySnapshot[]): Promise<SupplySnapshot[]>;
+  getSupplySnapshots(since?: Date): Promise<SupplySnapshot[]>;
   
   // Network Status
   getNetworkStatus(id: string): Promise<NetworkStatus | undefined>;
   getAllNetworkStatus(): Promise<NetworkStatus[]>;
   upsertNetworkStatus(status: InsertNetworkStatus): Promise<NetworkStatus>;
   
+  // DVN Configuration
+  getDvnConfig(networkId: string): Promise<DvnConfig | undefined>;
+  getAllDvnConfigs(): Promise<DvnConfig[]>;
+  // Replaces the network's configuration and records a change row if any setting differs
+  saveDvnConfig(config: InsertDvnConfig): Promise<DvnConfig>;
+  getDvnConfigChanges(networkId: string, changedBy?: string): Promise<DvnConfigChange[]>;
+  
   // LayerZero Transactions
   getLayerZeroTransaction(id: number): Promise<LayerZeroTransaction | undefined>;
   getLayerZeroTransactionByHash(hash: string): Promise<LayerZeroTransaction | undefined>;
   getLayerZeroTransactionsByAddress(address: string): Promise<LayerZeroTransaction[]>;
   getLayerZeroTransactionsByStatus(status: string): Promise<LayerZeroTransaction[]>;
-  createLayerZeroTransaction(transaction: InsertLayerZeroTransaction): Promise<LayerZeroTransaction>;
+  listLayerZeroTransactions(query: TransactionQuery): Promise<TransactionPage<LayerZeroTransaction>>;
+  // Idempotent on (sourceChain, sourceTxHash) and on the optional Idempotency-Key
+  registerLayerZeroTransaction(transaction: InsertLayerZeroTransaction, idempotencyKey?: string): Promise<TransactionRegistration>;
   updateLayerZeroTransaction(id: number, updates: Partial<InsertLayerZeroTransaction>): Promise<LayerZeroTransaction>;
+  getLayerZeroTransactionHistory(transactionId: number): Promise<LayerZeroTransactionHistory[]>;
+  
+  // Proposals
+  getProposal(id: number): Promise<Proposal | undefined>;
+  getProposalByOnChainId(chain: string, source: string, onChainId: string): Promise<Proposal | undefined>;
+  getAllProposals(): Promise<Proposal[]>;
+  createProposal(proposal: InsertProposal): Promise<Proposal>;
+  updateProposal(id: number, updates: Partial<InsertProposal>): Promise<Proposal>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: NodePgDatabase<typeof schema>) {}
+
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByAddress(address: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(sql`LOWER(${users.address}) = ${address.toLowerCase()}`);
     return user;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .insert(users)
       .values(insertUser)
       .returning();
@@ -58,7 +141,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBridgeTransaction(id: number): Promise<BridgeTransaction | undefined> {
-    const [tx] = await db
+    const [tx] = await this.db
       .select()
       .from(bridgeTransactions)
       .where(eq(bridgeTransactions.id, id));
@@ -67,7 +150,7 @@ export class DatabaseStorage implements IStorage {
 
   async getBridgeTransactionsByAddress(address: string): Promise<BridgeTransaction[]> {
     const lowerAddress = address.toLowerCase();
-    return db
+    return this.db
       .select()
       .from(bridgeTransactions)
       .where(sql`LOWER(${bridgeTransactions.walletAddress}) = ${lowerAddress}`)
@@ -75,7 +158,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createBridgeTransaction(transaction: InsertBridgeTransaction): Promise<BridgeTransaction> {
-    const [tx] = await db
+    const [tx] = await this.db
       .insert(bridgeTransactions)
       .values(transaction)
       .returning();
@@ -83,7 +166,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getSupplyCheck(id: number): Promise<SupplyCheck | undefined> {
-    const [check] = await db
+    const [check] = await this.db
       .select()
       .from(supplyChecks)
       .where(eq(supplyChecks.id, id));
@@ -91,22 +174,39 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllSupplyChecks(): Promise<SupplyCheck[]> {
-    return db
+    return this.db
       .select()
       .from(supplyChecks)
       .orderBy(desc(supplyChecks.date));
   }
 
   async createSupplyCheck(check: InsertSupplyCheck): Promise<SupplyCheck> {
-    const [newCheck] = await db
+    const [newCheck] = await this.db
       .insert(supplyChecks)
       .values(check)
       .returning();
     return newCheck;
   }
 
+  async createSupplySnapshots(snapshots: InsertSupplySnapshot[]): Promise<SupplySnapshot[]> {
+    if (snapshots.length === 0) return [];
+    return this.db
+      .insert(supplySnapshots)
+      .values(snapshots)
+      .returning();
+  }
+
+  // Oldest first, so callers can plot them directly
+  async getSupplySnapshots(since?: Date): Promise<SupplySnapshot[]> {
+    return this.db
+      .select()
+      .from(supplySnapshots)
+      .where(since ? gte(supplySnapshots.createdAt, since) : undefined)
+      .orderBy(asc(supplySnapshots.createdAt), asc(supplySnapshots.id));
+  }
+
   async getNetworkStatus(id: string): Promise<NetworkStatus | undefined> {
-    const [status] = await db
+    const [status] = await this.db
       .select()
       .from(networkStatus)
       .where(eq(networkStatus.networkId, id));
@@ -114,19 +214,19 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAllNetworkStatus(): Promise<NetworkStatus[]> {
-    return db.select().from(networkStatus);
+    return this.db.select().from(networkStatus);
   }
 
   async upsertNetworkStatus(status: InsertNetworkStatus): Promise<NetworkStatus> {
     // Check if exists first
-    const [existing] = await db
+    const [existing] = await this.db
       .select()
       .from(networkStatus)
       .where(eq(networkStatus.networkId, status.networkId));
     
     if (existing) {
       // Update
-      const [updated] = await db
+      const [updated] = await this.db
         .update(networkStatus)
         .set({
           ...status,
@@ -137,7 +237,7 @@ export class DatabaseStorage implements IStorage {
       return updated;
     } else {
       // Insert
-      const [newStatus] = await db
+      const [newStatus] = await this.db
         .insert(networkStatus)
         .values(status)
         .returning();
@@ -145,9 +245,63 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDvnConfig(networkId: string): Promise<DvnConfig | undefined> {
+    const [config] = await this.db
+      .select()
+      .from(dvnConfigs)
+      .where(eq(dvnConfigs.networkId, networkId));
+    return config;
+  }
+
+  async getAllDvnConfigs(): Promise<DvnConfig[]> {
+    return this.db.select().from(dvnConfigs).orderBy(asc(dvnConfigs.networkId));
+  }
+
+  async saveDvnConfig(config: InsertDvnConfig): Promise<DvnConfig> {
+    return this.db.transaction(async (tx) => {
+      // Lock the current row so concurrent saves record their changes against the right predecessor
+      const [existing] = await tx
+        .select()
+        .from(dvnConfigs)
+        .where(eq(dvnConfigs.networkId, config.networkId))
+        .for("update");
+
+      const [saved] = await tx
+        .insert(dvnConfigs)
+        .values(config)
+        .onConflictDoUpdate({
+          target: dvnConfigs.networkId,
+          set: { ...config, updatedAt: new Date() }
+        })
+        .returning();
+
+      const changes = diffDvnSettings(existing, saved);
+      if (Object.keys(changes).length > 0) {
+        await tx
+          .insert(dvnConfigChanges)
+          .values({ networkId: config.networkId, changedBy: config.updatedBy ?? null, changes });
+      }
+
+      return saved;
+    });
+  }
+
+  async getDvnConfigChanges(networkId: string, changedBy?: string): Promise<DvnConfigChange[]> {
+    const conditions: SQL[] = [eq(dvnConfigChanges.networkId, networkId)];
+    if (changedBy) {
+      conditions.push(sql`LOWER(${dvnConfigChanges.changedBy}) = ${changedBy.toLowerCase()}`);
+    }
+
+    return this.db
+      .select()
+      .from(dvnConfigChanges)
+      .where(and(...conditions))
+      .orderBy(desc(dvnConfigChanges.createdAt), desc(dvnConfigChanges.id));
+  }
+
   async getLayerZeroTransaction(id: number): Promise<LayerZeroTransaction | undefined> {
     try {
-      const [tx] = await db
+      const [tx] = await this.db
         .select()
         .from(layerZeroTransactions)
         .where(eq(layerZeroTransactions.id, id));
@@ -161,7 +315,7 @@ export class DatabaseStorage implements IStorage {
   async getLayerZeroTransactionByHash(hash: string): Promise<LayerZeroTransaction | undefined> {
     try {
       // Try to find by source hash first
-      const [sourceTx] = await db
+      const [sourceTx] = await this.db
         .select()
         .from(layerZeroTransactions)
         .where(eq(layerZeroTransactions.sourceTxHash, hash));
@@ -169,7 +323,7 @@ export class DatabaseStorage implements IStorage {
       if (sourceTx) return sourceTx;
 
       // If not found, try by destination hash
-      const [destTx] = await db
+      const [destTx] = await this.db
         .select()
         .from(layerZeroTransactions)
         .where(eq(layerZeroTransactions.destinationTxHash, hash));
@@ -186,7 +340,7 @@ export class DatabaseStorage implements IStorage {
       // Convert address to lowercase for case-insensitive comparison
       const lowerAddress = address.toLowerCase();
       
-      const results = await db
+      const results = await this.db
         .select()
         .from(layerZeroTransactions)
         .where(sql`LOWER(${layerZeroTransactions.walletAddress}) = ${lowerAddress}`)
@@ -203,8 +357,8 @@ export class DatabaseStorage implements IStorage {
     try {
       // If status is "all", return all transactions, otherwise filter by status
       const query = status === "all" 
-        ? db.select().from(layerZeroTransactions)
-        : db.select().from(layerZeroTransactions).where(eq(layerZeroTransactions.status, status));
+        ? this.db.select().from(layerZeroTransactions)
+        : this.db.select().from(layerZeroTransactions).where(eq(layerZeroTransactions.status, status));
       
       const results = await query.orderBy(desc(layerZeroTransactions.createdAt));
       
@@ -215,12 +369,71 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async createLayerZeroTransaction(transaction: InsertLayerZeroTransaction): Promise<LayerZeroTransaction> {
+  async listLayerZeroTransactions(query: TransactionQuery): Promise<TransactionPage<LayerZeroTransaction>> {
+    const sortColumn = query.sort === "updatedAt" ? layerZeroTransactions.updatedAt : layerZeroTransactions.createdAt;
+    // Postgres keeps microseconds but cursors carry JS milliseconds, so sort and compare on the truncated value
+    const sortValue = sql`date_trunc('milliseconds', ${sortColumn})`;
+    const conditions: SQL[] = [];
+    
+    if (query.walletAddress) {
+      conditions.push(sql`LOWER(${layerZeroTransactions.walletAddress}) = ${query.walletAddress.toLowerCase()}`);
+    }
+    if (query.status && query.status !== "all") {
+      conditions.push(eq(layerZeroTransactions.status, query.status));
+    }
+    if (query.type) {
+      conditions.push(eq(layerZeroTransactions.type, query.type));
+    }
+    if (query.sourceChain) {
+      conditions.push(eq(layerZeroTransactions.sourceChain, query.sourceChain));
+    }
+    if (query.destinationChain) {
+      conditions.push(eq(layerZeroTransactions.destinationChain, query.destinationChain));
+    }
+    if (query.messageId) {
+      conditions.push(eq(layerZeroTransactions.messageId, query.messageId));
+    }
+    if (query.from) {
+      conditions.push(gte(layerZeroTransactions.createdAt, query.from));
+    }
+    if (query.to) {
+      conditions.push(lte(layerZeroTransactions.createdAt, query.to));
+    }
+    if (query.cursor) {
+      const cursor = decodeTransactionCursor(query.cursor);
+      conditions.push(query.order === "desc"
+        ? sql`(${sortValue}, ${layerZeroTransactions.id}) < (${cursor.value}::timestamp, ${cursor.id})`
+        : sql`(${sortValue}, ${layerZeroTransactions.id}) > (${cursor.value}::timestamp, ${cursor.id})`);
+    }
+    
+    const direction = query.order === "desc" ? desc : asc;
+    const rows = await this.db
+      .select()
+      .from(layerZeroTransactions)
+      .where(and(...conditions))
+      .orderBy(direction(sortValue), direction(layerZeroTransactions.id))
+      .limit(query.limit + 1);
+    
+    return toTransactionPage(rows, query);
+  }
+
+  async registerLayerZeroTransaction(transaction: InsertLayerZeroTransaction, idempotencyKey?: string): Promise<TransactionRegistration> {
     try {
+      if (idempotencyKey) {
+        const [keyed] = await this.db
+          .select()
+          .from(layerZeroTransactions)
+          .where(eq(layerZeroTransactions.idempotencyKey, idempotencyKey));
+        if (keyed) {
+          assertSameRegistration(keyed, transaction, idempotencyKey);
+          return { transaction: keyed, created: false };
+        }
+      }
+      
       // Set default values for nullable fields if they're undefined
       const processedTransaction = {
         ...transaction,
-        status: transaction.status || 'pending',
+        status: transaction.status || INITIAL_TRANSACTION_STATUS,
         data: transaction.data || null,
         error: transaction.error || null,
         messageId: transaction.messageId || null,
@@ -228,12 +441,44 @@ export class DatabaseStorage implements IStorage {
         destinationTxHash: transaction.destinationTxHash || null,
       };
       
-      const [createdTx] = await db
-        .insert(layerZeroTransactions)
-        .values(processedTransaction)
-        .returning();
+      assertTransition(null, processedTransaction.status);
       
-      return createdTx;
+      // The row and its first history entry are written together, so no transaction is left without one
+      const registration = await this.db.transaction(async (tx): Promise<TransactionRegistration> => {
+        const [createdTx] = await tx
+          .insert(layerZeroTransactions)
+          .values({ ...processedTransaction, idempotencyKey: idempotencyKey ?? null })
+          .onConflictDoNothing()
+          .returning();
+        
+        if (!createdTx) {
+          // Registered before, possibly by a concurrent request
+          const [existing] = await tx
+            .select()
+            .from(layerZeroTransactions)
+            .where(and(
+              eq(layerZeroTransactions.sourceChain, transaction.sourceChain),
+              eq(layerZeroTransactions.sourceTxHash, transaction.sourceTxHash)
+            ));
+          if (!existing) {
+            // Only the key collided, with a concurrent registration of another transaction
+            throw new IdempotencyKeyConflictError(idempotencyKey);
+          }
+          return { transaction: existing, created: false };
+        }
+        
+        await tx
+          .insert(layerZeroTransactionHistory)
+          .values({ transactionId: createdTx.id, fromStatus: null, toStatus: createdTx.status });
+        
+        return { transaction: createdTx, created: true };
+      });
+      
+      if (registration.created) {
+        transactionEvents.publish("created", registration.transaction);
+      }
+      
+      return registration;
     } catch (error) {
       console.error('Error creating transaction:', error);
       throw error;
@@ -242,32 +487,559 @@ export class DatabaseStorage implements IStorage {
 
   async updateLayerZeroTransaction(id: number, updates: Partial<InsertLayerZeroTransaction>): Promise<LayerZeroTransaction> {
     try {
-      // Check if the transaction exists
-      const [existingTx] = await db
-        .select()
-        .from(layerZeroTransactions)
-        .where(eq(layerZeroTransactions.id, id));
-      
-      if (!existingTx) {
-        throw new Error(`LayerZero transaction with ID ${id} not found`);
-      }
-      
-      // Add updatedAt timestamp
-      const [updatedTx] = await db
-        .update(layerZeroTransactions)
-        .set({
-          ...updates,
-          updatedAt: new Date()
-        })
-        .where(eq(layerZeroTransactions.id, id))
-        .returning();
-      
+      const { existingTx, updatedTx } = await this.db.transaction(async (tx) => {
+        // Lock the row so concurrent updates check their transition against the status they replace
+        const [existingTx] = await tx
+          .select()
+          .from(layerZeroTransactions)
+          .where(eq(layerZeroTransactions.id, id))
+          .for("update");
+
+        if (!existingTx) {
+          throw new Error(`LayerZero transaction with ID ${id} not found`);
+        }
+
+        const statusChanged = updates.status !== undefined && updates.status !== existingTx.status;
+        if (statusChanged) {
+          assertTransition(existingTx.status, updates.status!);
+        }
+
+        // Add updatedAt timestamp
+        const [updatedTx] = await tx
+          .update(layerZeroTransactions)
+          .set({
+            ...updates,
+            updatedAt: new Date()
+          })
+          .where(eq(layerZeroTransactions.id, id))
+          .returning();
+
+        if (statusChanged) {
+          await tx
+            .insert(layerZeroTransactionHistory)
+            .values({ transactionId: id, fromStatus: existingTx.status, toStatus: updatedTx.status });
+        }
+
+        return { existingTx, updatedTx };
+      });
+
+      transactionEvents.publish("updated", updatedTx, existingTx.status);
+
       return updatedTx;
     } catch (error) {
       console.error(`Error updating transaction ${id}:`, error);
       throw error;
     }
   }
+
+  async getLayerZeroTransactionHistory(transactionId: number): Promise<LayerZeroTransactionHistory[]> {
+    return this.db
+      .select()
+      .from(layerZeroTransactionHistory)
+      .where(eq(layerZeroTransactionHistory.transactionId, transactionId))
+      .orderBy(asc(layerZeroTransactionHistory.createdAt), asc(layerZeroTransactionHistory.id));
+  }
+
+  async getProposal(id: number): Promise<Proposal | undefined> {
+    const [proposal] = await this.db
+      .select()
+      .from(proposals)
+      .where(eq(proposals.id, id));
+    return proposal;
+  }
+
+  async getProposalByOnChainId(chain: string, source: string, onChainId: string): Promise<Proposal | undefined> {
+    const [proposal] = await this.db
+      .select()
+      .from(proposals)
+      .where(and(
+        eq(proposals.chain, chain),
+        eq(proposals.source, source),
+        eq(proposals.onChainId, onChainId)
+      ));
+    return proposal;
+  }
+
+  async getAllProposals(): Promise<Proposal[]> {
+    return this.db
+      .select()
+      .from(proposals)
+      .orderBy(desc(proposals.createdAt), desc(proposals.id));
+  }
+
+  async createProposal(proposal: InsertProposal): Promise<Proposal> {
+    const [created] = await this.db
+      .insert(proposals)
+      .values(proposal)
+      .returning();
+    return created;
+  }
+
+  async updateProposal(id: number, updates: Partial<InsertProposal>): Promise<Proposal> {
+    const [updated] = await this.db
+      .update(proposals)
+      .set({
+        ...updates,
+        updatedAt: new Date()
+      })
+      .where(eq(proposals.id, id))
+      .returning();
+    
+    if (!updated) {
+      throw new Error(`Proposal with ID ${id} not found`);
+    }
+    
+    return updated;
+  }
+}
+
+// Newest first, with the id as a tie-breaker for rows created in the same millisecond
+function byNewest<T extends { id: number; createdAt: Date | null }>(a: T, b: T): number {
+  const diff = (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+  return diff !== 0 ? diff : b.id - a.id;
+}
+
+function sameAddress(a: string | null | undefined, b: string): boolean {
+  return !!a && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * In-memory IStorage used in demo mode, when no DATABASE_URL is configured.
+ * Mirrors DatabaseStorage: same ordering, defaults, unique constraints and
+ * status transition rules, so the app behaves the same without Postgres.
+ */
+export class MemStorage implements IStorage {
+  private users = new Map<number, User>();
+  private bridgeTransactions = new Map<number, BridgeTransaction>();
+  private supplyChecks = new Map<number, SupplyCheck>();
+  private supplySnapshots: SupplySnapshot[] = [];
+  private networkStatuses = new Map<string, NetworkStatus>();
+  private dvnConfigs = new Map<string, DvnConfig>();
+  private dvnConfigChanges: DvnConfigChange[] = [];
+  private layerZeroTransactions = new Map<number, LayerZeroTransaction>();
+  private layerZeroTransactionHistory: LayerZeroTransactionHistory[] = [];
+  private proposals = new Map<number, Proposal>();
+  private nextIds: Record<string, number> = {};
+
+  // Serial column equivalent, one sequence per table
+  private nextId(table: string): number {
+    this.nextIds[table] = (this.nextIds[table] || 0) + 1;
+    return this.nextIds[table];
+  }
+
+  // Rows are copied in and out so callers cannot mutate stored state
+  private copy<T>(row: T): T {
+    return structuredClone(row);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && this.copy(user);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find(u => u.username === username);
+    return user && this.copy(user);
+  }
+
+  async getUserByAddress(address: string): Promise<User | undefined> {
+    const lowerAddress = address.toLowerCase();
+    const user = Array.from(this.users.values()).find(u => u.address?.toLowerCase() === lowerAddress);
+    return user && this.copy(user);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (Array.from(this.users.values()).some(u => u.username === insertUser.username)) {
+      throw new Error(`User "${insertUser.username}" already exists`);
+    }
+
+    const user: User = {
+      id: this.nextId("users"),
+      username: insertUser.username,
+      password: insertUser.password,
+      address: insertUser.address ?? null,
+      createdAt: new Date()
+    };
+    this.users.set(user.id, user);
+    return this.copy(user);
+  }
+
+  async getBridgeTransaction(id: number): Promise<BridgeTransaction | undefined> {
+    const tx = this.bridgeTransactions.get(id);
+    return tx && this.copy(tx);
+  }
+
+  async getBridgeTransactionsByAddress(address: string): Promise<BridgeTransaction[]> {
+    return Array.from(this.bridgeTransactions.values())
+      .filter(tx => sameAddress(tx.walletAddress, address))
+      .sort(byNewest)
+      .map(tx => this.copy(tx));
+  }
+
+  async createBridgeTransaction(transaction: InsertBridgeTransaction): Promise<BridgeTransaction> {
+    const tx: BridgeTransaction = {
+      id: this.nextId("bridgeTransactions"),
+      fromChain: transaction.fromChain,
+      toChain: transaction.toChain,
+      amount: transaction.amount,
+      walletAddress: transaction.walletAddress,
+      status: transaction.status ?? "pending",
+      hash: transaction.hash ?? null,
+      createdAt: new Date()
+    };
+    this.bridgeTransactions.set(tx.id, tx);
+    return this.copy(tx);
+  }
+
+  async getSupplyCheck(id: number): Promise<SupplyCheck | undefined> {
+    const check = this.supplyChecks.get(id);
+    return check && this.copy(check);
+  }
+
+  async getAllSupplyChecks(): Promise<SupplyCheck[]> {
+    return Array.from(this.supplyChecks.values())
+      .sort((a, b) => (b.date?.getTime() ?? 0) - (a.date?.getTime() ?? 0) || b.id - a.id)
+      .map(check => this.copy(check));
+  }
+
+  async createSupplyCheck(check: InsertSupplyCheck): Promise<SupplyCheck> {
+    const now = new Date();
+    const newCheck: SupplyCheck = {
+      id: this.nextId("supplyChecks"),
+      date: now,
+      chain: check.chain,
+      event: check.event,
+      status: check.status,
+      details: check.details ?? null,
+      createdAt: now
+    };
+    this.supplyChecks.set(newCheck.id, newCheck);
+    return this.copy(newCheck);
+  }
+
+  async createSupplySnapshots(snapshots: InsertSupplySnapshot[]): Promise<SupplySnapshot[]> {
+    const now = new Date();
+    const created = snapshots.map(snapshot => {
+      if (!this.supplyChecks.has(snapshot.supplyCheckId)) {
+        throw new Error(`Supply check with ID ${snapshot.supplyCheckId} not found`);
+      }
+      return {
+        id: this.nextId("supplySnapshots"),
+        supplyCheckId: snapshot.supplyCheckId,
+        networkId: snapshot.networkId,
+        supply: snapshot.supply,
+        createdAt: now
+      };
+    });
+    this.supplySnapshots.push(...created);
+    return created.map(snapshot => this.copy(snapshot));
+  }
+
+  async getSupplySnapshots(since?: Date): Promise<SupplySnapshot[]> {
+    return this.supplySnapshots
+      .filter(snapshot => !since || (snapshot.createdAt && snapshot.createdAt >= since))
+      .map(snapshot => this.copy(snapshot));
+  }
+
+  async getNetworkStatus(id: string): Promise<NetworkStatus | undefined> {
+    const status = this.networkStatuses.get(id);
+    return status && this.copy(status);
+  }
+
+  async getAllNetworkStatus(): Promise<NetworkStatus[]> {
+    return Array.from(this.networkStatuses.values())
+      .sort((a, b) => a.id - b.id)
+      .map(status => this.copy(status));
+  }
+
+  async upsertNetworkStatus(status: InsertNetworkStatus): Promise<NetworkStatus> {
+    const existing = this.networkStatuses.get(status.networkId);
+
+    const row: NetworkStatus = {
+      id: existing?.id ?? this.nextId("networkStatus"),
+      networkId: status.networkId,
+      name: status.name,
+      chainId: status.chainId,
+      status: status.status,
+      // Like the SQL update, fields left out of the payload keep their stored value
+      latency: status.latency !== undefined ? status.latency : existing?.latency ?? null,
+      gasPrice: status.gasPrice !== undefined ? status.gasPrice : existing?.gasPrice ?? null,
+      txCount: status.txCount !== undefined ? status.txCount : existing?.txCount ?? null,
+      blockNumber: status.blockNumber !== undefined ? status.blockNumber : existing?.blockNumber ?? null,
+      blockAge: status.blockAge !== undefined ? status.blockAge : existing?.blockAge ?? null,
+      blockTimeMs: status.blockTimeMs !== undefined ? status.blockTimeMs : existing?.blockTimeMs ?? null,
+      updatedAt: new Date()
+    };
+    this.networkStatuses.set(row.networkId, row);
+    return this.copy(row);
+  }
+
+  async getDvnConfig(networkId: string): Promise<DvnConfig | undefined> {
+    const config = this.dvnConfigs.get(networkId);
+    return config && this.copy(config);
+  }
+
+  async getAllDvnConfigs(): Promise<DvnConfig[]> {
+    return Array.from(this.dvnConfigs.values())
+      .sort((a, b) => a.networkId.localeCompare(b.networkId))
+      .map(config => this.copy(config));
+  }
+
+  async saveDvnConfig(config: InsertDvnConfig): Promise<DvnConfig> {
+    const existing = this.dvnConfigs.get(config.networkId);
+
+    const saved: DvnConfig = {
+      id: existing?.id ?? this.nextId("dvnConfigs"),
+      networkId: config.networkId,
+      securityLevel: config.securityLevel,
+      enabledDvns: [...(config.enabledDvns ?? [])],
+      trustedEndpointMode: config.trustedEndpointMode ?? false,
+      multiSignatureVerification: config.multiSignatureVerification ?? false,
+      securityScore: config.securityScore,
+      updatedBy: config.updatedBy ?? null,
+      updatedAt: new Date()
+    };
+    this.dvnConfigs.set(config.networkId, saved);
+
+    const changes = diffDvnSettings(existing, saved);
+    if (Object.keys(changes).length > 0) {
+      this.dvnConfigChanges.push({
+        id: this.nextId("dvnConfigChanges"),
+        networkId: config.networkId,
+        changedBy: config.updatedBy ?? null,
+        changes,
+        createdAt: new Date()
+      });
+    }
+
+    return this.copy(saved);
+  }
+
+  async getDvnConfigChanges(networkId: string, changedBy?: string): Promise<DvnConfigChange[]> {
+    return this.dvnConfigChanges
+      .filter(change => change.networkId === networkId)
+      .filter(change => !changedBy || change.changedBy?.toLowerCase() === changedBy.toLowerCase())
+      .sort(byNewest)
+      .map(change => this.copy(change));
+  }
+
+  async getLayerZeroTransaction(id: number): Promise<LayerZeroTransaction | undefined> {
+    const tx = this.layerZeroTransactions.get(id);
+    return tx && this.copy(tx);
+  }
+
+  async getLayerZeroTransactionByHash(hash: string): Promise<LayerZeroTransaction | undefined> {
+    const all = Array.from(this.layerZeroTransactions.values());
+    // Source hash takes precedence over destination hash
+    const tx = all.find(t => t.sourceTxHash === hash) || all.find(t => t.destinationTxHash === hash);
+    return tx && this.copy(tx);
+  }
+
+  async getLayerZeroTransactionsByAddress(address: string): Promise<LayerZeroTransaction[]> {
+    return Array.from(this.layerZeroTransactions.values())
+      .filter(tx => sameAddress(tx.walletAddress, address))
+      .sort(byNewest)
+      .map(tx => this.copy(tx));
+  }
+
+  async getLayerZeroTransactionsByStatus(status: string): Promise<LayerZeroTransaction[]> {
+    return Array.from(this.layerZeroTransactions.values())
+      .filter(tx => status === "all" || tx.status === status)
+      .sort(byNewest)
+      .map(tx => this.copy(tx));
+  }
+
+  async listLayerZeroTransactions(query: TransactionQuery): Promise<TransactionPage<LayerZeroTransaction>> {
+    const cursor = query.cursor ? decodeTransactionCursor(query.cursor) : null;
+    const sign = query.order === "desc" ? -1 : 1;
+    // Compare (sort value, id) pairs the same way the SQL row comparison does
+    const compare = (a: { value: number; id: number }, b: { value: number; id: number }) =>
+      sign * (a.value - b.value || a.id - b.id);
+    const position = (tx: LayerZeroTransaction) => ({ value: sortValueOf(tx, query.sort).getTime(), id: tx.id });
+
+    const rows = Array.from(this.layerZeroTransactions.values())
+      .filter(tx =>
+        (!query.walletAddress || sameAddress(tx.walletAddress, query.walletAddress)) &&
+        (!query.status || query.status === "all" || tx.status === query.status) &&
+        (!query.type || tx.type === query.type) &&
+        (!query.sourceChain || tx.sourceChain === query.sourceChain) &&
+        (!query.destinationChain || tx.destinationChain === query.destinationChain) &&
+        (!query.messageId || tx.messageId === query.messageId) &&
+        (!query.from || (tx.createdAt && tx.createdAt >= query.from)) &&
+        (!query.to || (tx.createdAt && tx.createdAt <= query.to)) &&
+        (!cursor || compare(position(tx), { value: new Date(cursor.value).getTime(), id: cursor.id }) > 0)
+      )
+      .sort((a, b) => compare(position(a), position(b)))
+      .slice(0, query.limit + 1)
+      .map(tx => this.copy(tx));
+
+    return toTransactionPage(rows, query);
+  }
+
+  async registerLayerZeroTransaction(transaction: InsertLayerZeroTransaction, idempotencyKey?: string): Promise<TransactionRegistration> {
+    const all = Array.from(this.layerZeroTransactions.values());
+    const keyed = idempotencyKey ? all.find(tx => tx.idempotencyKey === idempotencyKey) : undefined;
+    if (keyed) {
+      assertSameRegistration(keyed, transaction, idempotencyKey!);
+      return { transaction: this.copy(keyed), created: false };
+    }
+    const existing = all.find(tx => tx.sourceChain === transaction.sourceChain && tx.sourceTxHash === transaction.sourceTxHash);
+    if (existing) {
+      return { transaction: this.copy(existing), created: false };
+    }
+
+    const status = transaction.status || INITIAL_TRANSACTION_STATUS;
+    assertTransition(null, status);
+
+    const now = new Date();
+    const tx: LayerZeroTransaction = {
+      id: this.nextId("layerZeroTransactions"),
+      type: transaction.type,
+      sourceChain: transaction.sourceChain,
+      destinationChain: transaction.destinationChain || null,
+      sourceTxHash: transaction.sourceTxHash,
+      messageId: transaction.messageId || null,
+      destinationTxHash: transaction.destinationTxHash || null,
+      status,
+      error: transaction.error || null,
+      walletAddress: transaction.walletAddress,
+      data: transaction.data || null,
+      idempotencyKey: idempotencyKey ?? null,
+      createdAt: now,
+      updatedAt: transaction.updatedAt ?? now
+    };
+    this.layerZeroTransactions.set(tx.id, tx);
+    this.recordStatusChange(tx.id, null, tx.status);
+    transactionEvents.publish("created", this.copy(tx));
+
+    return { transaction: this.copy(tx), created: true };
+  }
+
+  async updateLayerZeroTransaction(id: number, updates: Partial<InsertLayerZeroTransaction>): Promise<LayerZeroTransaction> {
+    const existingTx = this.layerZeroTransactions.get(id);
+    if (!existingTx) {
+      throw new Error(`LayerZero transaction with ID ${id} not found`);
+    }
+
+    const statusChanged = updates.status !== undefined && updates.status !== existingTx.status;
+    if (statusChanged) {
+      assertTransition(existingTx.status, updates.status!);
+    }
+
+    const updatedTx: LayerZeroTransaction = {
+      ...existingTx,
+      ...this.definedFields(updates),
+      updatedAt: new Date()
+    };
+    this.layerZeroTransactions.set(id, updatedTx);
+
+    if (statusChanged) {
+      this.recordStatusChange(id, existingTx.status, updatedTx.status);
+    }
+    transactionEvents.publish("updated", this.copy(updatedTx), existingTx.status);
+
+    return this.copy(updatedTx);
+  }
+
+  async getLayerZeroTransactionHistory(transactionId: number): Promise<LayerZeroTransactionHistory[]> {
+    return this.layerZeroTransactionHistory
+      .filter(entry => entry.transactionId === transactionId)
+      .map(entry => this.copy(entry));
+  }
+
+  async getProposal(id: number): Promise<Proposal | undefined> {
+    const proposal = this.proposals.get(id);
+    return proposal && this.copy(proposal);
+  }
+
+  async getProposalByOnChainId(chain: string, source: string, onChainId: string): Promise<Proposal | undefined> {
+    const proposal = this.findProposal(chain, source, onChainId);
+    return proposal && this.copy(proposal);
+  }
+
+  async getAllProposals(): Promise<Proposal[]> {
+    return Array.from(this.proposals.values())
+      .sort(byNewest)
+      .map(proposal => this.copy(proposal));
+  }
+
+  async createProposal(proposal: InsertProposal): Promise<Proposal> {
+    const now = new Date();
+    const created: Proposal = {
+      id: this.nextId("proposals"),
+      onChainId: proposal.onChainId ?? null,
+      chain: proposal.chain,
+      source: proposal.source ?? "governor",
+      title: proposal.title,
+      description: proposal.description,
+      proposer: proposal.proposer,
+      targets: proposal.targets ?? [],
+      values: proposal.values ?? [],
+      calldatas: proposal.calldatas ?? [],
+      snapshotBlock: proposal.snapshotBlock ?? null,
+      deadlineBlock: proposal.deadlineBlock ?? null,
+      status: proposal.status ?? "Pending",
+      chainStatuses: proposal.chainStatuses ?? {},
+      txHash: proposal.txHash ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.assertUniqueProposal(created);
+
+    this.proposals.set(created.id, this.copy(created));
+    return this.copy(created);
+  }
+
+  async updateProposal(id: number, updates: Partial<InsertProposal>): Promise<Proposal> {
+    const existing = this.proposals.get(id);
+    if (!existing) {
+      throw new Error(`Proposal with ID ${id} not found`);
+    }
+
+    const updated: Proposal = {
+      ...existing,
+      ...this.definedFields(updates),
+      updatedAt: new Date()
+    };
+    this.assertUniqueProposal(updated);
+
+    this.proposals.set(id, this.copy(updated));
+    return this.copy(updated);
+  }
+
+  // Drizzle skips undefined values in .set(), so do the same here
+  private definedFields<T extends object>(updates: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+
+  private findProposal(chain: string, source: string, onChainId: string): Proposal | undefined {
+    return Array.from(this.proposals.values()).find(p =>
+      p.chain === chain && p.source === source && p.onChainId === onChainId
+    );
+  }
+
+  // Same rule as the proposals_chain_source_on_chain_id constraint; NULL ids never clash
+  private assertUniqueProposal(proposal: Proposal) {
+    if (proposal.onChainId === null) return;
+
+    const clash = this.findProposal(proposal.chain, proposal.source, proposal.onChainId);
+    if (clash && clash.id !== proposal.id) {
+      throw new Error(`Proposal ${proposal.onChainId} on ${proposal.chain} (${proposal.source}) already exists`);
+    }
+  }
+
+  private recordStatusChange(transactionId: number, fromStatus: string | null, toStatus: string) {
+    this.layerZeroTransactionHistory.push({
+      id: this.nextId("layerZeroTransactionHistory"),
+      transactionId,
+      fromStatus,
+      toStatus,
+      createdAt: new Date()
+    });
+  }
 }
 
-export const storage = new DatabaseStorage();
\ No newline at end of file
+// Postgres when DATABASE_URL is set, otherwise in-memory storage for demo mode
+export const storage: IStorage = db ? new DatabaseStorage(db) : new MemStorage();
\ No newline at end of file
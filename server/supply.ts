@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import type { SupplyCheck } from "@shared/schema";
+import {
+  DEVIATION_RATE_DENOMINATOR,
+  parseSupplyCheckDetails,
+  type ChainSupplyReading,
+  type SupplyCheckResult,
+  type SupplyCheckStatus,
+  type SupplyHistory,
+  type SupplyHistoryPoint
+} from "@shared/supply";
+import type { IStorage } from "./storage";
+import { NETWORKS, CONTRACT_ADDRESSES, TOKEN_ABI, providers } from "./web3";
+
+const TOKEN_DECIMALS = 18;
+
+// Expected global supply in whole tokens, and the allowed deviation in basis points
+const EXPECTED_GLOBAL_SUPPLY = process.env.EXPECTED_GLOBAL_SUPPLY || "100000000";
+const MAX_DEVIATION_RATE = parseInt(process.env.SUPPLY_MAX_DEVIATION_RATE || "10");
+
+export class SupplyReadError extends Error {
+  constructor(public failures: Record<string, string>) {
+    super(`Could not read token supply on ${Object.keys(failures).join(", ")}`);
+    this.name = "SupplyReadError";
+  }
+}
+
+async function readChainSupplies(): Promise<{ readings: ChainSupplyReading[]; total: ethers.BigNumber }> {
+  const failures: Record<string, string> = {};
+
+  const supplies = await Promise.all(NETWORKS.map(async network => {
+    const tokenAddress = CONTRACT_ADDRESSES[network.id]?.token;
+    if (!tokenAddress || !providers[network.id]) {
+      failures[network.id] = "token not deployed";
+      return ethers.constants.Zero;
+    }
+
+    try {
+      const token = new ethers.Contract(tokenAddress, TOKEN_ABI, providers[network.id]);
+      return await token.totalSupply() as ethers.BigNumber;
+    } catch (err) {
+      failures[network.id] = err instanceof Error ? err.message : String(err);
+      return ethers.constants.Zero;
+    }
+  }));
+
+  // A missing chain would look like lost supply, so do not judge a partial reading
+  if (Object.keys(failures).length > 0) {
+    throw new SupplyReadError(failures);
+  }
+
+  return {
+    readings: NETWORKS.map((network, i) => ({
+      networkId: network.id,
+      name: network.name,
+      supply: ethers.utils.formatUnits(supplies[i], TOKEN_DECIMALS)
+    })),
+    total: supplies.reduce((sum, supply) => sum.add(supply), ethers.constants.Zero)
+  };
+}
+
+/**
+ * Same threshold rule as SupplyConsistencyChecker.verifySupply: the deviation
+ * rate is |actual - expected| * 10000 / expected, and 100% when nothing is expected.
+ */
+export function deviationRate(actual: ethers.BigNumber, expected: ethers.BigNumber): number {
+  if (expected.isZero()) {
+    return actual.isZero() ? 0 : DEVIATION_RATE_DENOMINATOR;
+  }
+  return actual.sub(expected).abs().mul(DEVIATION_RATE_DENOMINATOR).div(expected).toNumber();
+}
+
+// Within the threshold is Verified, or Reconciled when the previous check had drifted
+function supplyStatus(withinThreshold: boolean, previous: SupplyCheck | undefined): SupplyCheckStatus {
+  if (!withinThreshold) return "Deviation";
+  return previous?.status === "Deviation" ? "Reconciled" : "Verified";
+}
+
+/**
+ * Read totalSupply() on every chain, compare the sum with the expected global
+ * supply and record the result in supplyChecks.
+ */
+export async function runSupplyCheck(store: IStorage, event: string): Promise<{ check: SupplyCheck; result: SupplyCheckResult }> {
+  const { readings, total } = await readChainSupplies();
+  const expected = ethers.utils.parseUnits(EXPECTED_GLOBAL_SUPPLY, TOKEN_DECIMALS);
+  const rate = deviationRate(total, expected);
+
+  // Only cross-chain checks count as the previous state, not unrelated rows
+  const [previous] = (await store.getAllSupplyChecks()).filter(c => parseSupplyCheckDetails(c.details));
+
+  const result: SupplyCheckResult = {
+    status: supplyStatus(rate <= MAX_DEVIATION_RATE, previous),
+    chains: readings,
+    total: ethers.utils.formatUnits(total, TOKEN_DECIMALS),
+    expected: ethers.utils.formatUnits(expected, TOKEN_DECIMALS),
+    deviation: ethers.utils.formatUnits(total.sub(expected), TOKEN_DECIMALS),
+    deviationRate: rate,
+    maxDeviationRate: MAX_DEVIATION_RATE,
+    checkedAt: new Date().toISOString()
+  };
+
+  const check = await store.createSupplyCheck({
+    chain: "All Chains",
+    event,
+    status: result.status,
+    details: JSON.stringify(result)
+  });
+
+  await store.createSupplySnapshots(readings.map(reading => ({
+    supplyCheckId: check.id,
+    networkId: reading.networkId,
+    supply: reading.supply
+  })));
+
+  return { check, result };
+}
+
+/**
+ * Per-chain supply over time, one point per supply check, plus when the
+ * current drift (if any) started.
+ */
+export async function getSupplyHistory(store: IStorage, since?: Date): Promise<SupplyHistory> {
+  const [snapshots, checks] = await Promise.all([store.getSupplySnapshots(since), store.getAllSupplyChecks()]);
+  const checksById = new Map(checks.map(check => [check.id, check]));
+  const points = new Map<number, SupplyHistoryPoint>();
+
+  snapshots.forEach(snapshot => {
+    const check = checksById.get(snapshot.supplyCheckId);
+    if (!check) return;
+
+    let point = points.get(check.id);
+    if (!point) {
+      point = {
+        checkId: check.id,
+        checkedAt: (check.date ?? snapshot.createdAt ?? new Date()).toISOString(),
+        event: check.event,
+        status: check.status,
+        total: parseSupplyCheckDetails(check.details)?.total ?? "0",
+        chains: {}
+      };
+      points.set(check.id, point);
+    }
+    point.chains[snapshot.networkId] = snapshot.supply;
+  });
+
+  const ordered = Array.from(points.values());
+
+  // Walk back from the latest point over the trailing run of deviations
+  let driftStart: SupplyHistoryPoint | null = null;
+  for (let i = ordered.length - 1; i >= 0 && ordered[i].status === "Deviation"; i--) {
+    driftStart = ordered[i];
+  }
+
+  return {
+    points: ordered,
+    driftStartedAt: driftStart?.checkedAt ?? null
+  };
+}
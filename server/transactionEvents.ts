@@ -0,0 +1,34 @@
+import { EventEmitter } from "events";
+import type { LayerZeroTransaction } from "@shared/schema";
+import type { TransactionChangeEvent } from "@shared/transactionEvents";
+
+type ChangeListener = (change: TransactionChangeEvent) => void;
+
+/**
+ * In-process fan-out of layerZeroTransactions row changes, keyed by
+ * lower-cased wallet address. Storage publishes, SSE connections subscribe.
+ */
+export class TransactionEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream, so the default limit of 10 is too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(kind: TransactionChangeEvent["kind"], transaction: LayerZeroTransaction, previousStatus: string | null = null) {
+    const change: TransactionChangeEvent = { kind, transaction, previousStatus };
+    this.emitter.emit(transaction.walletAddress.toLowerCase(), change);
+  }
+
+  // Returns a function that removes the listener
+  subscribe(walletAddress: string, listener: ChangeListener): () => void {
+    const key = walletAddress.toLowerCase();
+    this.emitter.on(key, listener);
+    return () => {
+      this.emitter.off(key, listener);
+    };
+  }
+}
+
+export const transactionEvents = new TransactionEventBus();
@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import type { ChainVotes, VoteOrigin, VoteTally } from "@shared/votes";
+import { NETWORKS, CONTRACT_ADDRESSES, GOVERNOR_ABI, providers } from "./web3";
+
+// Token decimals of the governance token (OFT shared decimals are not used for votes)
+const VOTE_DECIMALS = 18;
+
+// OmniGovernor.proposalVotes only sums crossChainProposals for chain ids 1..10000
+const MAX_COUNTED_CHAIN_ID = 10000;
+
+export class GovernorUnavailableError extends Error {
+  constructor(public networkId: string) {
+    super(`No OmniGovernor deployment configured for hub network "${networkId}"`);
+    this.name = "GovernorUnavailableError";
+  }
+}
+
+interface RawVotes {
+  forVotes: ethers.BigNumber;
+  againstVotes: ethers.BigNumber;
+  abstainVotes: ethers.BigNumber;
+}
+
+function sumVotes(votes: RawVotes) {
+  return votes.forVotes.add(votes.againstVotes).add(votes.abstainVotes);
+}
+
+function toChainVotes(
+  network: typeof NETWORKS[number],
+  origin: VoteOrigin,
+  votes: RawVotes,
+  grandTotal: ethers.BigNumber,
+  counted: boolean
+): ChainVotes {
+  const total = sumVotes(votes);
+  // Basis points keep two decimals of precision without leaving BigNumber
+  const percentage = grandTotal.isZero() ? 0 : total.mul(10000).div(grandTotal).toNumber() / 100;
+
+  return {
+    chainId: network.id,
+    chainName: network.name,
+    lzChainId: network.lzChainId,
+    origin,
+    forVotes: ethers.utils.formatUnits(votes.forVotes, VOTE_DECIMALS),
+    againstVotes: ethers.utils.formatUnits(votes.againstVotes, VOTE_DECIMALS),
+    abstainVotes: ethers.utils.formatUnits(votes.abstainVotes, VOTE_DECIMALS),
+    totalVotes: ethers.utils.formatUnits(total, VOTE_DECIMALS),
+    percentage,
+    counted
+  };
+}
+
+/**
+ * Read the vote tally of a hub governor proposal, split per chain.
+ *
+ * Satellites relay votes through receiveCrossChainVote, which records them in
+ * crossChainProposals under the satellite's LayerZero V1 chain id.
+ * OmniGovernor.proposalVotes adds those records back in, but only for chain
+ * ids 1..10000 (testnet V1 ids are above that). The hub's local share is what is
+ * left after subtracting the records it counted; relayed votes outside that
+ * range are listed but marked as not counted, and the aggregate stays the
+ * proposalVotes figure that decides the proposal.
+ */
+export async function getProposalVoteTally(proposalId: string): Promise<VoteTally> {
+  const hub = NETWORKS.find(n => n.isHub) || NETWORKS[0];
+  const governorAddress = CONTRACT_ADDRESSES[hub.id]?.governor;
+  if (!governorAddress || !providers[hub.id]) {
+    throw new GovernorUnavailableError(hub.id);
+  }
+
+  const governor = new ethers.Contract(governorAddress, GOVERNOR_ABI, providers[hub.id]);
+  const satellites = NETWORKS.filter(n => n.id !== hub.id);
+
+  const [total, relayed] = await Promise.all([
+    governor.proposalVotes(proposalId) as Promise<RawVotes>,
+    Promise.all(satellites.map(n => governor.crossChainProposals(proposalId, n.lzV1ChainId) as Promise<RawVotes>))
+  ]);
+
+  const counted = satellites.map((network, i) => network.lzV1ChainId <= MAX_COUNTED_CHAIN_ID || sumVotes(relayed[i]).isZero());
+  const zero: RawVotes = { forVotes: ethers.constants.Zero, againstVotes: ethers.constants.Zero, abstainVotes: ethers.constants.Zero };
+  const countedSum = relayed.filter((_, i) => counted[i]).reduce<RawVotes>((acc, votes) => ({
+    forVotes: acc.forVotes.add(votes.forVotes),
+    againstVotes: acc.againstVotes.add(votes.againstVotes),
+    abstainVotes: acc.abstainVotes.add(votes.abstainVotes)
+  }), zero);
+
+  // Clamp at zero in case a relayed tally arrived in the same block as a read of proposalVotes
+  const clampedSub = (a: ethers.BigNumber, b: ethers.BigNumber) => (a.gt(b) ? a.sub(b) : ethers.constants.Zero);
+  const local: RawVotes = {
+    forVotes: clampedSub(total.forVotes, countedSum.forVotes),
+    againstVotes: clampedSub(total.againstVotes, countedSum.againstVotes),
+    abstainVotes: clampedSub(total.abstainVotes, countedSum.abstainVotes)
+  };
+
+  // Shares are of every vote cast, counted or not
+  const grandTotal = relayed
+    .filter((_, i) => !counted[i])
+    .reduce((sum, votes) => sum.add(sumVotes(votes)), sumVotes(total));
+  const chains: ChainVotes[] = [
+    toChainVotes(hub, "local", local, grandTotal, true),
+    ...satellites.map((network, i) => toChainVotes(network, "relayed", relayed[i], grandTotal, counted[i]))
+  ];
+
+  return {
+    proposalId,
+    hubChainId: hub.id,
+    chains,
+    aggregate: {
+      forVotes: ethers.utils.formatUnits(total.forVotes, VOTE_DECIMALS),
+      againstVotes: ethers.utils.formatUnits(total.againstVotes, VOTE_DECIMALS),
+      abstainVotes: ethers.utils.formatUnits(total.abstainVotes, VOTE_DECIMALS),
+      totalVotes: ethers.utils.formatUnits(sumVotes(total), VOTE_DECIMALS)
+    },
+    updatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,122 @@
+import { ethers } from "ethers";
+import fs from 'fs';
+import path from 'path';
+import { NETWORK_REGISTRY, validateNetworkRegistry, type NetworkDefinition } from "@shared/networks";
+
+// Networks come from the shared registry so the server and client agree on ids
+export const NETWORKS = NETWORK_REGISTRY;
+
+// SEPOLIA_RPC, AMOY_RPC, ... override the registry's public RPC endpoints
+export function rpcUrlFor(network: NetworkDefinition): string {
+  return process.env[`${network.id.toUpperCase().replace(/-/g, "_")}_RPC`] || network.rpcUrls[0];
+}
+
+// ABI snippets for our contracts
+export const TOKEN_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function totalSupply() view returns (uint256)",
+  "function balanceOf(address) view returns (uint256)",
+  "function decimals() view returns (uint8)",
+  "function getVotes(address) view returns (uint256)",
+  "function delegate(address) returns ()",
+  "function quoteSend((uint32 dstEid, bytes32 to, uint256 amountLD, uint256 minAmountLD, bytes extraOptions, bytes composeMsg, bytes oftCmd), bool) view returns ((uint256 nativeFee, uint256 lzTokenFee))",
+  "event OFTSent(bytes32 indexed guid, uint32 dstEid, address indexed fromAddress, uint256 amountSentLD, uint256 amountReceivedLD)",
+  "event OFTReceived(bytes32 indexed guid, uint32 srcEid, address indexed toAddress, uint256 amountReceivedLD)"
+];
+
+export const EXECUTOR_ABI = [
+  "function createProposal(string, string, address[], bytes[]) returns (uint256)",
+  "function getProposalDetails(uint256) view returns (string, string, address, uint8, uint256)",
+  "function executeProposal(uint256, bytes) payable returns ()",
+  "function isExecutedOnChain(uint256, uint32) view returns (bool)",
+  "event ProposalCreated(uint256 proposalId, address proposer, string title)",
+  "event ExecutionRequested(uint256 proposalId, uint32 chainId)",
+  "event ExecutionCompleted(uint256 proposalId, uint32 chainId, bool success)",
+  "event ProposalExecuted(uint256 proposalId, uint32[] chains)"
+];
+
+export const GOVERNOR_ABI = [
+  "function proposalVotes(uint256) view returns (uint256 againstVotes, uint256 forVotes, uint256 abstainVotes)",
+  "function crossChainProposals(uint256, uint16) view returns (uint256 forVotes, uint256 againstVotes, uint256 abstainVotes, bytes32 messageHash)",
+  "function state(uint256) view returns (uint8)",
+  "function votingDelay() view returns (uint256)",
+  "function votingPeriod() view returns (uint256)",
+  "function proposalSnapshot(uint256) view returns (uint256)",
+  "function proposalDeadline(uint256) view returns (uint256)",
+  "function proposalEta(uint256) view returns (uint256)",
+  "function timelock() view returns (address)",
+  "event ProposalCreated(uint256 proposalId, address proposer, address[] targets, uint256[] values, string[] signatures, bytes[] calldatas, uint256 voteStart, uint256 voteEnd, string description)",
+  "event ProposalQueued(uint256 proposalId, uint256 etaSeconds)",
+  "event ProposalExecuted(uint256 proposalId)",
+  "event ProposalCanceled(uint256 proposalId)"
+];
+
+export const DVN_MANAGER_ABI = [
+  "function owner() view returns (address)",
+  "function configureChainSecurity(uint32, uint8, bool, bool, uint32[])",
+  "function updateDVNSignatures(uint32, uint8)",
+  "function getSecurityScore(uint32) view returns (uint8)",
+  "function estimateMessageFee(uint32, uint256) view returns (uint256)",
+  "function dvnCount() view returns (uint32)",
+  "function dvns(uint32) view returns (address, string, uint8, bool)"
+];
+
+export const TIMELOCK_ABI = [
+  "function hasRole(bytes32, address) view returns (bool)",
+  "function getMinDelay() view returns (uint256)"
+];
+
+export const ADAPTER_ABI = [
+  "function quoteFee(uint32, bytes, bytes) view returns (uint256, uint256)",
+  "event MessageSent(address indexed sender, uint32 dstEid, bytes32 guid, bytes message)",
+  "event MessageReceived(address indexed receiver, uint32 srcEid, bytes32 guid, bytes message)"
+];
+
+// Contract addresses - to be loaded from deployment files if available
+export const CONTRACT_ADDRESSES: Record<string, Record<string, string>> = {};
+
+// Initialize RPC providers
+export const providers: Record<string, ethers.providers.JsonRpcProvider> = {};
+
+// Initialize providers and load contract addresses
+export async function initializeWeb3() {
+  // A broken registry would mis-route every cross-chain lookup, so refuse to start
+  validateNetworkRegistry(NETWORKS);
+  
+  try {
+    // Initialize providers
+    for (const network of NETWORKS) {
+      providers[network.id] = new ethers.providers.JsonRpcProvider(rpcUrlFor(network));
+
+      // Initialize empty contract addresses
+      CONTRACT_ADDRESSES[network.id] = {
+        token: "",
+        executor: "",
+        dvnManager: "",
+        adapter: "",
+        governor: "",
+        timelock: "",
+        gasLayer: ""
+      };
+
+      // Try to load deployment info if it exists
+      try {
+        // Since __dirname is not available in ESM, we'll use a relative path from the project root
+        const deploymentPath = path.join('./deployments', `${network.id}.json`);
+        if (fs.existsSync(deploymentPath)) {
+          const deployment = JSON.parse(fs.readFileSync(deploymentPath, 'utf8'));
+          if (deployment.contracts) {
+            CONTRACT_ADDRESSES[network.id] = { ...CONTRACT_ADDRESSES[network.id], ...deployment.contracts };
+          }
+        }
+      } catch (err) {
+        console.warn(`Failed to load deployment info for ${network.id}:`, err);
+      }
+    }
+
+    console.log("Web3 providers initialized");
+  } catch (error) {
+    console.error("Error initializing web3:", error);
+  }
+}
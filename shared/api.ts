@@ -0,0 +1,625 @@
+import { z } from "zod";
+import {
+  bridgeTransactionSchema,
+  dvnConfigChangeSchema,
+  insertLayerZeroTransactionSchema,
+  insertNetworkStatusSchema,
+  insertSupplyCheckSchema,
+  layerZeroTransactionHistorySchema,
+  layerZeroTransactionSchema,
+  networkStatusSchema,
+  proposalSchema,
+  supplyCheckSchema
+} from "./schema";
+import { networkDefinitionSchema } from "./networks";
+import { TRANSACTION_STATUSES } from "./transactionStatus";
+import { transactionQuerySchema, type TransactionPage } from "./transactionQuery";
+import { layerZeroFeeQuerySchema, type LayerZeroFeeQuote } from "./layerzeroFees";
+import { dvnConfigUpdateSchema, type DvnAdminAccess, type DvnConfigView } from "./dvn";
+import { SUPPLY_CHECK_STATUSES, type SupplyCheckResult, type SupplyHistory } from "./supply";
+import type { GasEstimates } from "./gas";
+import type { VoteTally } from "./votes";
+import { LIFECYCLE_STAGES, PROPOSAL_STATES, type ProposalLifecycle } from "./proposalLifecycle";
+import { ACTION_CONTRACT_IDS, type ActionContractAddresses } from "./contractActions";
+import type { ProposalSimulation } from "./proposalSimulation";
+import type { AuthSession } from "./siwe";
+import type { SecurityScoreComponent } from "./securityScore";
+
+/**
+ * Request and response contracts of every /api endpoint. The server routers
+ * validate requests against them and /api/openapi.json is generated from them.
+ *
+ * Rows come from the select schemas in ./schema; responses that are not rows
+ * are declared here against their shared types, so a field added to a type
+ * without its schema fails the type check.
+ */
+
+export type ApiMethod = "get" | "post" | "put";
+
+export interface ApiContract {
+  method: ApiMethod;
+  path: string;                          // Express path, e.g. "/api/transactions/:id"
+  summary: string;
+  auth?: boolean;                        // Requires a Sign-In with Ethereum session
+  params?: z.AnyZodObject;
+  query?: z.AnyZodObject;
+  headers?: z.AnyZodObject;              // Header names in lower case
+  body?: z.ZodTypeAny;
+  responses: Record<number, z.ZodTypeAny>;
+  eventStream?: boolean;                 // 200 is a text/event-stream rather than JSON
+}
+
+function contract<C extends ApiContract>(definition: C): C {
+  return definition;
+}
+
+// Error body of every non-2xx response; validation failures carry the zod issues
+export const apiErrorSchema = z.object({
+  error: z.union([z.string(), z.array(z.any())]),
+  details: z.unknown().optional(),
+}).passthrough();
+
+export type ApiError = z.infer<typeof apiErrorSchema>;
+
+function errors(...statuses: number[]): Record<number, typeof apiErrorSchema> {
+  return Object.fromEntries(statuses.map(status => [status, apiErrorSchema]));
+}
+
+const addressSchema = z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Must be an address");
+const governorProposalParamsSchema = z.object({
+  proposalId: z.string().regex(/^\d+$/, "Proposal id must be an on-chain governor id")
+});
+const idParamsSchema = z.object({ id: z.coerce.number().int().positive() });
+const networkParamsSchema = z.object({ networkId: z.string().min(1) });
+
+/* Requests */
+
+// Request body for registering a LayerZero transaction
+export const createTransactionSchema = insertLayerZeroTransactionSchema.extend({
+  sourceChain: z.string().min(1, "Source chain is required"),
+  sourceTxHash: z.string().min(1, "Source transaction hash is required"),
+  walletAddress: z.string().min(1, "Wallet address is required"),
+  type: z.enum(["token_transfer", "token_bridge", "cross_chain_message", "proposal_creation", "vote", "execution"]),
+  status: z.enum(TRANSACTION_STATUSES).optional()
+});
+
+// Request body for updating a LayerZero transaction. The indexer moves it
+// forward from receipts; its owner may only attach data or give up on it.
+export const updateTransactionSchema = insertLayerZeroTransactionSchema.pick({ error: true, data: true }).partial().extend({
+  status: z.literal("failed").optional()
+});
+
+// Idempotency-Key header of a transaction registration; retries reuse it
+export const idempotencyHeadersSchema = z.object({
+  "idempotency-key": z.string().min(1).max(255, "Idempotency-Key must be at most 255 characters").optional()
+});
+
+// Request body for a simulated bridge transfer
+export const bridgeRequestSchema = z.object({
+  amount: z.number().positive(),
+  fromChain: z.string(),
+  toChain: z.string(),
+  walletAddress: z.string()
+});
+
+// Request body for registering a governance proposal
+// One call of a proposal, as the governor takes it
+export const proposalActionSchema = z.object({
+  target: z.string().regex(/^0x[0-9a-fA-F]{40}$/, "Target must be an address"),
+  value: z.string().regex(/^\d+$/, "Value must be a wei amount").default("0"),
+  calldata: z.string().regex(/^0x([0-9a-fA-F]{2})*$/, "Calldata must be hex bytes").default("0x")
+});
+
+export const createProposalSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  description: z.string().min(1, "Description is required"),
+  chain: z.string().optional(),
+  source: z.enum(["governor", "executor"]).default("governor"),
+  txHash: z.string().optional(),
+  actions: z.array(proposalActionSchema)
+});
+
+// Actions to dry-run before a proposal is submitted; each runs on the hub unless given a network
+export const simulateProposalSchema = z.object({
+  actions: z.array(proposalActionSchema.extend({ networkId: z.string().optional() }))
+    .min(1, "Add at least one action")
+    .max(20, "Simulate at most 20 actions at a time")
+});
+
+export const siweVerifyRequestSchema = z.object({
+  message: z.string().min(1, "Message is required"),
+  signature: z.string().regex(/^0x[0-9a-fA-F]+$/, "Signature must be hex")
+});
+
+/* Responses that are not table rows */
+
+export const authSessionSchema: z.ZodType<AuthSession> = z.object({
+  authenticated: z.boolean(),
+  address: z.string().nullable()
+});
+
+const priorityFeeEstimateSchema = z.object({
+  percentile: z.number(),
+  priorityFee: z.string(),
+  total: z.string(),
+  estimatedTimeBlocks: z.number()
+});
+
+export const gasEstimatesSchema: z.ZodType<GasEstimates> = z.record(z.object({
+  networkId: z.string(),
+  chainId: z.number(),
+  blockNumber: z.number(),
+  baseFee: z.string(),
+  priorityFee: z.string(),
+  total: z.string(),
+  estimatedTimeBlocks: z.number(),
+  estimatedTimeSeconds: z.number(),
+  tiers: z.object({ slow: priorityFeeEstimateSchema, standard: priorityFeeEstimateSchema, fast: priorityFeeEstimateSchema }),
+  nativeSymbol: z.string(),
+  nativePriceUSD: z.number().nullable(),
+  equivalentUSD: z.string().nullable()
+}));
+
+export const layerZeroFeeQuoteSchema: z.ZodType<LayerZeroFeeQuote> = z.object({
+  kind: z.enum(["message", "transfer"]),
+  srcNetworkId: z.string(),
+  dstNetworkId: z.string(),
+  dstEid: z.number(),
+  payloadSize: z.number(),
+  options: z.string(),
+  nativeFee: z.string(),
+  lzTokenFee: z.string(),
+  nativeSymbol: z.string(),
+  components: z.array(z.object({
+    component: z.enum(["protocol", "dvn", "executor"]),
+    source: z.string(),
+    nativeFee: z.string(),
+    lzTokenFee: z.string()
+  })),
+  quotedAt: z.string()
+});
+
+export const supplyCheckResultSchema: z.ZodType<SupplyCheckResult> = z.object({
+  status: z.enum(SUPPLY_CHECK_STATUSES),
+  chains: z.array(z.object({ networkId: z.string(), name: z.string(), supply: z.string() })),
+  total: z.string(),
+  expected: z.string(),
+  deviation: z.string(),
+  deviationRate: z.number(),
+  maxDeviationRate: z.number(),
+  checkedAt: z.string()
+});
+
+export const supplyHistorySchema: z.ZodType<SupplyHistory> = z.object({
+  points: z.array(z.object({
+    checkId: z.number(),
+    checkedAt: z.string(),
+    event: z.string(),
+    status: z.string(),
+    total: z.string(),
+    chains: z.record(z.string())
+  })),
+  driftStartedAt: z.string().nullable()
+});
+
+const securityScoreComponentSchema: z.ZodType<SecurityScoreComponent> = z.object({
+  key: z.enum(["dvns", "signatures", "trustedEndpoint", "multiSignature", "cap"]),
+  label: z.string(),
+  points: z.number(),
+  detail: z.string()
+});
+
+export const dvnConfigViewSchema: z.ZodType<DvnConfigView> = z.object({
+  networkId: z.string(),
+  securityScore: z.number(),
+  securityLevel: z.enum(["Low", "Medium", "High"]),
+  scoreComponents: z.array(securityScoreComponentSchema),
+  settings: z.object({
+    securityLevel: z.number(),
+    trustedEndpointMode: z.boolean(),
+    multiSignatureVerification: z.boolean(),
+    enabledDvns: z.array(z.string())
+  }),
+  dvns: z.array(z.object({ id: z.string(), name: z.string(), enabled: z.boolean(), requiredSignatures: z.number() })),
+  saved: z.boolean(),
+  updatedBy: z.string().nullable(),
+  updatedAt: z.string().nullable()
+});
+
+export const dvnAdminAccessSchema: z.ZodType<DvnAdminAccess> = z.object({
+  networkId: z.string(),
+  address: z.string(),
+  mode: z.enum(["admin", "proposal"]),
+  role: z.enum(["owner", "timelockProposer"]).nullable(),
+  owner: z.string(),
+  timelock: z.string().nullable()
+});
+
+const chainVotesSchema = z.object({
+  chainId: z.string(),
+  chainName: z.string(),
+  lzChainId: z.number(),
+  origin: z.enum(["local", "relayed"]),
+  forVotes: z.string(),
+  againstVotes: z.string(),
+  abstainVotes: z.string(),
+  totalVotes: z.string(),
+  percentage: z.number(),
+  counted: z.boolean()
+});
+
+export const voteTallySchema: z.ZodType<VoteTally> = z.object({
+  proposalId: z.string(),
+  hubChainId: z.string(),
+  chains: z.array(chainVotesSchema),
+  aggregate: z.object({ forVotes: z.string(), againstVotes: z.string(), abstainVotes: z.string(), totalVotes: z.string() }),
+  updatedAt: z.string()
+});
+
+export const actionContractAddressesSchema: z.ZodType<ActionContractAddresses> = z.object({
+  networkId: z.string(),
+  addresses: z.record(z.enum(ACTION_CONTRACT_IDS), addressSchema)
+});
+
+export const proposalSimulationSchema: z.ZodType<ProposalSimulation> = z.object({
+  success: z.boolean(),
+  actions: z.array(z.object({
+    index: z.number(),
+    networkId: z.string(),
+    target: z.string(),
+    value: z.string(),
+    calldata: z.string(),
+    from: z.string(),
+    mode: z.enum(["fork", "call"]),
+    success: z.boolean(),
+    revertReason: z.string().nullable(),
+    gasUsed: z.string().nullable(),
+    events: z.array(z.object({
+      address: z.string(),
+      name: z.string().nullable(),
+      args: z.record(z.string()).nullable(),
+      topics: z.array(z.string()),
+      data: z.string()
+    })).nullable()
+  })),
+  simulatedAt: z.string()
+});
+
+export const proposalLifecycleSchema: z.ZodType<ProposalLifecycle> = z.object({
+  proposalId: z.string(),
+  networkId: z.string(),
+  state: z.enum(PROPOSAL_STATES),
+  outcome: z.enum(["Canceled", "Defeated", "Expired"]).nullable(),
+  currentBlock: z.number(),
+  blockTimeSeconds: z.number(),
+  votingDelay: z.number(),
+  votingPeriod: z.number(),
+  snapshotBlock: z.number(),
+  deadlineBlock: z.number(),
+  timelockDelay: z.number(),
+  eta: z.string().nullable(),
+  stages: z.array(z.object({
+    stage: z.enum(LIFECYCLE_STAGES),
+    status: z.enum(["completed", "current", "upcoming", "skipped"]),
+    startsAt: z.string(),
+    estimated: z.boolean(),
+    block: z.number().nullable()
+  })),
+  updatedAt: z.string()
+});
+
+export const layerZeroTransactionPageSchema: z.ZodType<TransactionPage<z.infer<typeof layerZeroTransactionSchema>>> = z.object({
+  items: z.array(layerZeroTransactionSchema),
+  nextCursor: z.string().nullable()
+});
+
+export const proposalExecutionSchema = z.object({
+  success: z.boolean(),
+  proposalId: z.string(),
+  executionId: z.string(),
+  chains: z.array(z.object({ id: z.string(), status: z.string(), transactionHash: z.string().nullable() })),
+  estimatedTimeToComplete: z.string()
+});
+
+/* Endpoints, grouped the way the server routers are */
+
+export const authApi = {
+  nonce: contract({
+    method: "get", path: "/api/auth/nonce",
+    summary: "Issue a nonce for the next Sign-In with Ethereum message",
+    responses: { 200: z.object({ nonce: z.string() }) }
+  }),
+  verify: contract({
+    method: "post", path: "/api/auth/verify",
+    summary: "Exchange a signed EIP-4361 message for a session",
+    body: siweVerifyRequestSchema,
+    responses: { 200: authSessionSchema, ...errors(401) }
+  }),
+  logout: contract({
+    method: "post", path: "/api/auth/logout",
+    summary: "End the session",
+    responses: { 200: authSessionSchema }
+  }),
+  session: contract({
+    method: "get", path: "/api/auth/session",
+    summary: "The signed-in address, if any",
+    responses: { 200: authSessionSchema }
+  }),
+};
+
+export const networksApi = {
+  registry: contract({
+    method: "get", path: "/api/layerzero/networks",
+    summary: "Networks from the shared registry, including LayerZero endpoint ids",
+    responses: { 200: z.array(networkDefinitionSchema) }
+  }),
+  statuses: contract({
+    method: "get", path: "/api/networks",
+    summary: "Health of every network, kept current by the network probe",
+    responses: { 200: z.array(networkStatusSchema) }
+  }),
+  statusesAlias: contract({
+    method: "get", path: "/api/network/status",
+    summary: "Same as GET /api/networks",
+    responses: { 200: z.array(networkStatusSchema) }
+  }),
+  reportStatus: contract({
+    method: "post", path: "/api/network-status",
+    summary: "Record a network status reading",
+    body: insertNetworkStatusSchema,
+    responses: { 201: networkStatusSchema }
+  }),
+  gas: contract({
+    method: "get", path: "/api/network/gas",
+    summary: "Gas estimates from eth_feeHistory, cached per block",
+    responses: { 200: gasEstimatesSchema, ...errors(502) }
+  }),
+  fees: contract({
+    method: "get", path: "/api/layerzero/fees",
+    summary: "LayerZero fee quote for one pathway",
+    query: layerZeroFeeQuerySchema,
+    responses: { 200: layerZeroFeeQuoteSchema, ...errors(502, 503) }
+  }),
+  contracts: contract({
+    method: "get", path: "/api/network/:networkId/contracts",
+    summary: "Deployed addresses of the contracts governance actions can target",
+    params: networkParamsSchema,
+    responses: { 200: actionContractAddressesSchema, ...errors(404) }
+  }),
+};
+
+export const supplyApi = {
+  checks: contract({
+    method: "get", path: "/api/supply-checks",
+    summary: "Every recorded supply check",
+    responses: { 200: z.array(supplyCheckSchema) }
+  }),
+  history: contract({
+    method: "get", path: "/api/supply/history",
+    summary: "Per-chain supply over time, defaulting to the last 30 days",
+    query: z.object({ since: z.coerce.date().optional() }),
+    responses: { 200: supplyHistorySchema }
+  }),
+  verify: contract({
+    method: "post", path: "/api/verify-supply",
+    summary: "Read totalSupply() on every chain and record the result",
+    responses: {
+      200: z.object({ success: z.boolean(), check: supplyCheckSchema, supplyData: supplyCheckResultSchema }),
+      ...errors(502)
+    }
+  }),
+  record: contract({
+    method: "post", path: "/api/supply-check",
+    summary: "Record a supply check",
+    body: insertSupplyCheckSchema,
+    responses: { 201: supplyCheckSchema }
+  }),
+};
+
+export const transactionsApi = {
+  bridgeHistory: contract({
+    method: "get", path: "/api/bridge-transactions/:address", auth: true,
+    summary: "Bridge transfers of the signed-in wallet",
+    params: z.object({ address: z.string() }),
+    responses: { 200: z.array(bridgeTransactionSchema), ...errors(403) }
+  }),
+  bridge: contract({
+    method: "post", path: "/api/bridge", auth: true,
+    summary: "Simulate a cross-chain transfer",
+    body: bridgeRequestSchema,
+    responses: { 201: bridgeTransactionSchema, ...errors(403) }
+  }),
+  layerZeroGet: contract({
+    method: "get", path: "/api/layerzero/transactions/:id(\\d+)", auth: true,
+    summary: "One LayerZero transaction of the signed-in wallet",
+    params: idParamsSchema,
+    responses: { 200: layerZeroTransactionSchema, ...errors(404) }
+  }),
+  layerZeroByAddress: contract({
+    method: "get", path: "/api/layerzero/transactions/:address", auth: true,
+    summary: "LayerZero transactions of the signed-in wallet",
+    params: z.object({ address: addressSchema }),
+    responses: { 200: z.array(layerZeroTransactionSchema), ...errors(403) }
+  }),
+  layerZeroRegister: contract({
+    method: "post", path: "/api/layerzero/transactions", auth: true,
+    summary: "Register a LayerZero transaction; repeats return the existing record with 200",
+    headers: idempotencyHeadersSchema,
+    body: createTransactionSchema,
+    responses: { 200: layerZeroTransactionSchema, 201: layerZeroTransactionSchema, ...errors(403, 409) }
+  }),
+  layerZeroUpdate: contract({
+    method: "put", path: "/api/layerzero/transactions/:id", auth: true,
+    summary: "Attach data to a LayerZero transaction, or mark it failed",
+    params: idParamsSchema,
+    body: updateTransactionSchema,
+    responses: { 200: layerZeroTransactionSchema, ...errors(404, 409) }
+  }),
+  layerZeroRetry: contract({
+    method: "post", path: "/api/layerzero/transactions/retry", auth: true,
+    summary: "Put a failed transaction back to pending",
+    body: z.object({ id: z.number().int().positive() }),
+    responses: { 200: layerZeroTransactionSchema, ...errors(404, 409) }
+  }),
+  list: contract({
+    method: "get", path: "/api/transactions", auth: true,
+    summary: "The signed-in wallet's transactions, one keyset-paginated page at a time",
+    query: transactionQuerySchema,
+    responses: { 200: layerZeroTransactionPageSchema, ...errors(403) }
+  }),
+  stream: contract({
+    method: "get", path: "/api/transactions/stream", auth: true,
+    summary: "Server-Sent Events stream of the wallet's transaction changes",
+    query: z.object({ walletAddress: z.string().min(1, "walletAddress is required") }),
+    responses: { 200: z.string(), ...errors(403) },
+    eventStream: true
+  }),
+  get: contract({
+    method: "get", path: "/api/transactions/:id", auth: true,
+    summary: "One transaction of the signed-in wallet",
+    params: idParamsSchema,
+    responses: { 200: layerZeroTransactionSchema, ...errors(404) }
+  }),
+  history: contract({
+    method: "get", path: "/api/transactions/:id/history", auth: true,
+    summary: "Status history of a transaction, oldest first",
+    params: idParamsSchema,
+    responses: { 200: z.array(layerZeroTransactionHistorySchema), ...errors(404) }
+  }),
+  register: contract({
+    method: "post", path: "/api/transactions", auth: true,
+    summary: "Register a transaction; repeats return the existing record with 200",
+    headers: idempotencyHeadersSchema,
+    body: createTransactionSchema,
+    responses: { 200: layerZeroTransactionSchema, 201: layerZeroTransactionSchema, ...errors(403, 409) }
+  }),
+  retry: contract({
+    method: "post", path: "/api/transactions/:id/retry", auth: true,
+    summary: "Put a failed transaction back to pending",
+    params: idParamsSchema,
+    responses: { 200: z.object({ success: z.boolean(), transaction: layerZeroTransactionSchema }), ...errors(404, 409) }
+  }),
+};
+
+export const dvnApi = {
+  all: contract({
+    method: "get", path: "/api/layerzero/dvn",
+    summary: "DVN configuration of every network, keyed by network id",
+    responses: { 200: z.record(dvnConfigViewSchema) }
+  }),
+  get: contract({
+    method: "get", path: "/api/layerzero/dvn/:networkId",
+    summary: "Latest saved DVN configuration of a network, or its defaults",
+    params: networkParamsSchema,
+    responses: { 200: dvnConfigViewSchema, ...errors(404) }
+  }),
+  changes: contract({
+    method: "get", path: "/api/layerzero/dvn/:networkId/changes", auth: true,
+    summary: "The signed-in account's changes to a network's DVN configuration, newest first",
+    params: networkParamsSchema,
+    responses: { 200: z.array(dvnConfigChangeSchema), ...errors(404) }
+  }),
+  access: contract({
+    method: "get", path: "/api/layerzero/dvn/:networkId/access", auth: true,
+    summary: "Whether the signed-in account may change the configuration directly",
+    params: networkParamsSchema,
+    responses: { 200: dvnAdminAccessSchema, ...errors(404, 503) }
+  }),
+  save: contract({
+    method: "post", path: "/api/layerzero/dvn/:networkId", auth: true,
+    summary: "Save a network's DVN configuration (DVNConfigManager owner or timelock proposer only)",
+    params: networkParamsSchema,
+    body: dvnConfigUpdateSchema,
+    responses: { 200: dvnConfigViewSchema, ...errors(403, 404, 503) }
+  }),
+  propose: contract({
+    method: "post", path: "/api/layerzero/dvn/:networkId/proposals", auth: true,
+    summary: "Submit a DVN configuration change as a draft governance proposal",
+    params: networkParamsSchema,
+    body: dvnConfigUpdateSchema,
+    responses: { 201: proposalSchema, ...errors(404, 503) }
+  }),
+};
+
+export const proposalsApi = {
+  list: contract({
+    method: "get", path: "/api/proposals",
+    summary: "Proposals, newest first",
+    responses: { 200: z.array(proposalSchema) }
+  }),
+  get: contract({
+    method: "get", path: "/api/proposal/:proposalId",
+    summary: "A proposal by on-chain id, or by database id before it is indexed",
+    params: z.object({ proposalId: z.string() }),
+    query: z.object({ chain: z.string().optional(), source: z.string().optional() }),
+    responses: { 200: proposalSchema, ...errors(404) }
+  }),
+  votes: contract({
+    method: "get", path: "/api/proposal/:proposalId/votes",
+    summary: "Per-chain vote tally of a hub governor proposal",
+    params: governorProposalParamsSchema,
+    responses: { 200: voteTallySchema, ...errors(502, 503) }
+  }),
+  lifecycle: contract({
+    method: "get", path: "/api/proposal/:proposalId/lifecycle",
+    summary: "Lifecycle stages of a hub governor proposal, with projected times for the ones ahead",
+    params: governorProposalParamsSchema,
+    responses: { 200: proposalLifecycleSchema, ...errors(404, 502, 503) }
+  }),
+  simulate: contract({
+    method: "post", path: "/api/proposal/simulate", auth: true,
+    summary: "Dry-run actions from the timelock before they are proposed",
+    body: simulateProposalSchema,
+    responses: { 200: proposalSimulationSchema, ...errors(502, 503) }
+  }),
+  simulation: contract({
+    method: "get", path: "/api/proposal/:proposalId/simulation",
+    summary: "Dry-run a stored proposal's actions from the timelock on its chain",
+    params: z.object({ proposalId: z.string() }),
+    query: z.object({ chain: z.string().optional(), source: z.string().optional() }),
+    responses: { 200: proposalSimulationSchema, ...errors(404, 502, 503) }
+  }),
+  create: contract({
+    method: "post", path: "/api/proposal", auth: true,
+    summary: "Register a proposal by the signed-in wallet; one the indexer already picked up is returned with 200",
+    body: createProposalSchema,
+    responses: { 200: proposalSchema, 201: proposalSchema }
+  }),
+  execute: contract({
+    method: "post", path: "/api/proposal/:proposalId/execute",
+    summary: "Simulate executing a proposal on other chains through lzCompose",
+    params: z.object({ proposalId: z.string() }),
+    body: z.object({ chains: z.array(z.string()) }),
+    responses: { 200: proposalExecutionSchema }
+  }),
+};
+
+export const api = {
+  auth: authApi,
+  networks: networksApi,
+  supply: supplyApi,
+  transactions: transactionsApi,
+  dvn: dvnApi,
+  proposals: proposalsApi,
+};
+
+/* Types for implementing and calling a contract */
+
+type Infer<T> = T extends z.ZodTypeAny ? z.infer<T> : Record<string, never>;
+
+export type ApiParams<C extends ApiContract> = Infer<C["params"]>;
+export type ApiQuery<C extends ApiContract> = Infer<C["query"]>;
+export type ApiHeaders<C extends ApiContract> = Infer<C["headers"]>;
+export type ApiBody<C extends ApiContract> = Infer<C["body"]>;
+export type ApiResponse<C extends ApiContract> = { [S in keyof C["responses"]]: Infer<C["responses"][S]> }[keyof C["responses"]];
+
+// What a caller passes: schema inputs, so defaulted and coerced fields may be left out
+type RequestPart<K extends string, T> = T extends z.ZodTypeAny
+  ? {} extends z.input<T> ? { [P in K]?: z.input<T> } : { [P in K]: z.input<T> }
+  : {};
+
+export type ApiRequest<C extends ApiContract> =
+  RequestPart<"params", C["params"]> &
+  RequestPart<"query", C["query"]> &
+  RequestPart<"headers", C["headers"]> &
+  RequestPart<"body", C["body"]>;
@@ -0,0 +1,220 @@
+import { ethers } from "ethers";
+
+/**
+ * Governance actions on the deployed OmniGovern contracts. Each contract lists
+ * the writable functions a proposal may call, with argument names, so the
+ * proposal form can render an input per argument and encode the calldata
+ * instead of asking for raw hex.
+ *
+ * Addresses come from the deployment files via
+ * GET /api/network/:networkId/contracts.
+ */
+
+export const ACTION_CONTRACT_IDS = ["token", "executor", "dvnManager", "timelock", "gasLayer"] as const;
+export type ActionContractId = typeof ACTION_CONTRACT_IDS[number];
+
+export interface ActionContract {
+  id: ActionContractId;
+  name: string;
+  description: string;
+  abi: readonly string[];
+}
+
+const OWNABLE_FUNCTIONS = [
+  "function transferOwnership(address newOwner)"
+];
+
+export const ACTION_CONTRACTS: readonly ActionContract[] = [
+  {
+    id: "token",
+    name: "OmniGovernToken",
+    description: "Governance token (OFT) minting, transfers and LayerZero peers",
+    abi: [
+      "function mint(address account, uint256 amount)",
+      "function burn(address account, uint256 amount)",
+      "function transfer(address to, uint256 amount) returns (bool)",
+      "function approve(address spender, uint256 amount) returns (bool)",
+      "function delegate(address delegatee)",
+      "function setPeer(uint32 eid, bytes32 peer)",
+      ...OWNABLE_FUNCTIONS
+    ]
+  },
+  {
+    id: "executor",
+    name: "OmniProposalExecutor",
+    description: "Cross-chain proposal execution through lzCompose",
+    abi: [
+      "function configureChain(uint32 eid, string name, address executor)",
+      "function createProposal(string title, string description, address[] targets, bytes[] calldatas) returns (uint256)",
+      "function executeProposal(uint256 proposalId, bytes options) payable",
+      ...OWNABLE_FUNCTIONS
+    ]
+  },
+  {
+    id: "dvnManager",
+    name: "DVNConfigManager",
+    description: "DVN registry and per-pathway security configuration",
+    abi: [
+      "function addDVN(address dvnAddress, string name, uint8 requiredSignatures) returns (uint32)",
+      "function setDVNEnabled(uint32 dvnId, bool enabled)",
+      "function updateDVNSignatures(uint32 dvnId, uint8 requiredSignatures)",
+      "function configureChainSecurity(uint32 chainId, uint8 minRequiredDVNs, bool trustedEndpointMode, bool multiSignatureVerification, uint32[] enabledDVNs)",
+      "function setTrustedEndpointMode(uint32 chainId, bool enabled)",
+      "function setMultiSignatureVerification(uint32 chainId, bool enabled)",
+      ...OWNABLE_FUNCTIONS
+    ]
+  },
+  {
+    id: "timelock",
+    name: "TimelockedExecutor",
+    description: "Timelock delay, roles and cross-chain execution settings",
+    abi: [
+      "function updateDelay(uint256 newDelay)",
+      "function grantRole(bytes32 role, address account)",
+      "function revokeRole(bytes32 role, address account)",
+      "function cancel(bytes32 id)",
+      "function setLayerZeroAdapter(address lzAdapter)",
+      "function setCrossChainExecutionDelay(uint256 delay)"
+    ]
+  },
+  {
+    id: "gasLayer",
+    name: "GasAbstractionLayer",
+    description: "Relayer fees, gas limits and relayer whitelist",
+    abi: [
+      "function setFeeMultiplier(bytes4 functionSelector, uint256 multiplier)",
+      "function setDefaultGasLimit(bytes4 functionSelector, uint256 gasLimit)",
+      "function setBaseFee(uint256 baseFee)",
+      "function setGasPriceOracle(address gasPriceOracle)",
+      "function setPaymentToken(address paymentToken)",
+      "function setRelayerWhitelist(address relayer, bool whitelisted)",
+      "function withdraw(address to, uint256 amount)",
+      ...OWNABLE_FUNCTIONS
+    ]
+  }
+];
+
+export interface ActionContractAddresses {
+  networkId: string;
+  addresses: Partial<Record<ActionContractId, string>>;  // Only the contracts deployed on the network
+}
+
+export function getActionContract(id: ActionContractId): ActionContract {
+  return ACTION_CONTRACTS.find(contract => contract.id === id)!;
+}
+
+// Functions of a contract that change state, in ABI order
+export function writableFunctions(contract: ActionContract): ethers.utils.FunctionFragment[] {
+  const contractInterface = new ethers.utils.Interface(contract.abi);
+  return Object.values(contractInterface.functions).filter(fragment => !fragment.constant);
+}
+
+export class InvalidActionArgumentError extends Error {
+  constructor(public param: string, message: string) {
+    super(message);
+    this.name = "InvalidActionArgumentError";
+  }
+}
+
+// Placeholder shown in an argument's input
+export function argumentPlaceholder(param: ethers.utils.ParamType): string {
+  if (param.baseType === "array") {
+    return `${argumentPlaceholder(param.arrayChildren)}, ...`;
+  }
+  if (param.type === "address") return "0x...";
+  if (param.type === "bool") return "true or false";
+  if (param.type.startsWith("bytes")) return "0x...";
+  if (param.type.startsWith("uint") || param.type.startsWith("int")) return "0";
+  return param.type;
+}
+
+/**
+ * Parse one argument as typed into the form. Arrays are comma separated;
+ * every element is checked against the element type. Throws an
+ * InvalidActionArgumentError naming what is wrong with the value.
+ */
+export function parseActionArgument(param: ethers.utils.ParamType, raw: string, label = param.name || param.type): unknown {
+  const value = raw.trim();
+
+  if (param.baseType === "array") {
+    const elements = value === "" ? [] : value.split(",");
+    if (param.arrayLength >= 0 && elements.length !== param.arrayLength) {
+      throw new InvalidActionArgumentError(label, `${label} needs exactly ${param.arrayLength} values`);
+    }
+    return elements.map(element => parseActionArgument(param.arrayChildren, element, label));
+  }
+
+  if (param.baseType === "tuple") {
+    throw new InvalidActionArgumentError(label, `${label} is a struct, which the composer cannot build; use custom calldata`);
+  }
+
+  if (param.type === "address") {
+    if (!ethers.utils.isAddress(value)) {
+      throw new InvalidActionArgumentError(label, `${label} must be an address`);
+    }
+    return ethers.utils.getAddress(value);
+  }
+
+  if (param.type === "bool") {
+    if (value !== "true" && value !== "false") {
+      throw new InvalidActionArgumentError(label, `${label} must be true or false`);
+    }
+    return value === "true";
+  }
+
+  const integer = param.type.match(/^(u?)int(\d*)$/);
+  if (integer) {
+    if (!/^-?\d+$/.test(value)) {
+      throw new InvalidActionArgumentError(label, `${label} must be a whole number`);
+    }
+    const bits = Number(integer[2] || 256);
+    const number = ethers.BigNumber.from(value);
+    const [min, max] = integer[1]
+      ? [ethers.constants.Zero, ethers.constants.Two.pow(bits).sub(1)]
+      : [ethers.constants.Two.pow(bits - 1).mul(-1), ethers.constants.Two.pow(bits - 1).sub(1)];
+    if (number.lt(min) || number.gt(max)) {
+      throw new InvalidActionArgumentError(label, `${label} must be between ${min.toString()} and ${max.toString()}`);
+    }
+    return number;
+  }
+
+  const bytes = param.type.match(/^bytes(\d*)$/);
+  if (bytes) {
+    if (!ethers.utils.isHexString(value) || value.length % 2 !== 0) {
+      throw new InvalidActionArgumentError(label, `${label} must be 0x-prefixed hex bytes`);
+    }
+    const length = (value.length - 2) / 2;
+    if (bytes[1] && length !== Number(bytes[1])) {
+      throw new InvalidActionArgumentError(label, `${label} must be exactly ${bytes[1]} bytes`);
+    }
+    return value;
+  }
+
+  return raw;
+}
+
+export interface EncodedAction {
+  calldata: string | null;             // Null while any argument is invalid
+  errors: (string | null)[];           // Per argument, in order
+}
+
+// Validate every argument of a function call and encode it when they all pass
+export function encodeActionCall(fragment: ethers.utils.FunctionFragment, rawArgs: string[]): EncodedAction {
+  const args: unknown[] = [];
+  const errors = fragment.inputs.map((param, index) => {
+    try {
+      args.push(parseActionArgument(param, rawArgs[index] ?? ""));
+      return null;
+    } catch (error) {
+      return error instanceof InvalidActionArgumentError ? error.message : String(error);
+    }
+  });
+
+  if (errors.some(error => error !== null)) {
+    return { calldata: null, errors };
+  }
+  return {
+    calldata: new ethers.utils.Interface([fragment]).encodeFunctionData(fragment, args),
+    errors
+  };
+}
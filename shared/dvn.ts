@@ -0,0 +1,103 @@
+import { z } from "zod";
+import type { DvnConfig } from "./schema";
+import { getSecurityScore, type SecurityRating, type SecurityScore, type SecurityScoreComponent } from "./securityScore";
+
+/**
+ * DVN security configuration served by /api/layerzero/dvn, shared by the
+ * routes and the client. A network without a saved row reports its defaults.
+ */
+
+// onChainId is the id DVNConfigManager.addDVN assigned, in registration order, and
+// requiredSignatures the count it was registered with. DVNConfigManager keeps one
+// signature count per DVN for every pathway, so a network's configuration never changes it.
+export const DVN_OPTIONS = [
+  { id: "default", name: "LayerZero Default DVN", onChainId: 0, requiredSignatures: 1 },
+  { id: "ultra", name: "Ultra Secure DVN", onChainId: 1, requiredSignatures: 2 },
+  { id: "lite", name: "Lite DVN", onChainId: 2, requiredSignatures: 1 },
+] as const;
+
+export type DvnId = typeof DVN_OPTIONS[number]["id"];
+
+export const dvnConfigUpdateSchema = z.object({
+  dvns: z.array(z.enum(DVN_OPTIONS.map(d => d.id) as [DvnId, ...DvnId[]])),
+  securityLevel: z.number().int().min(1, "Security level must be between 1 and 4").max(4, "Security level must be between 1 and 4"),
+  trustedEndpointMode: z.boolean().default(false),
+  multiSignatureVerification: z.boolean().default(false),
+});
+
+export type DvnConfigUpdate = z.infer<typeof dvnConfigUpdateSchema>;
+
+// The fields a DVN configuration change is tracked over
+export type DvnSettings = Pick<DvnConfig, "securityLevel" | "enabledDvns" | "trustedEndpointMode" | "multiSignatureVerification">;
+
+export interface DvnStatus {
+  id: string;
+  name: string;
+  enabled: boolean;
+  requiredSignatures: number;
+}
+
+export interface DvnConfigView {
+  networkId: string;
+  securityScore: number;
+  securityLevel: SecurityRating;
+  scoreComponents: SecurityScoreComponent[];  // Why the pathway got its score
+  settings: {
+    securityLevel: number;
+    trustedEndpointMode: boolean;
+    multiSignatureVerification: boolean;
+    enabledDvns: string[];
+  };
+  dvns: DvnStatus[];
+  saved: boolean;             // False while the network still runs on its defaults
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Who may change a network's DVN configuration directly: the DVNConfigManager
+ * owner, or a proposer on the timelock that owns it. Everyone else submits
+ * the change as a draft governance proposal.
+ */
+export type DvnAdminMode = "admin" | "proposal";
+
+export interface DvnAdminAccess {
+  networkId: string;
+  address: string;
+  mode: DvnAdminMode;
+  role: "owner" | "timelockProposer" | null;
+  owner: string;              // DVNConfigManager.owner() on the network
+  timelock: string | null;    // The owner, when it is a timelock
+}
+
+// Signature counts are the DVNs' global ones, whatever the security level
+export function dvnStatusesFor(settings: DvnSettings): DvnStatus[] {
+  return DVN_OPTIONS.map(dvn => ({
+    id: dvn.id,
+    name: dvn.name,
+    enabled: settings.enabledDvns.includes(dvn.id),
+    requiredSignatures: dvn.requiredSignatures
+  }));
+}
+
+// Score the settings as DVNConfigManager would once they are applied on-chain
+export function scoreDvnSettings(settings: DvnSettings): SecurityScore {
+  return getSecurityScore({
+    dvns: dvnStatusesFor(settings).filter(dvn => dvn.enabled),
+    trustedEndpointMode: settings.trustedEndpointMode,
+    multiSignatureVerification: settings.multiSignatureVerification
+  });
+}
+
+// Field-by-field difference between two configurations, empty when nothing changed
+export function diffDvnSettings(previous: DvnSettings | undefined, next: DvnSettings): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  (["securityLevel", "enabledDvns", "trustedEndpointMode", "multiSignatureVerification"] as const).forEach(field => {
+    const from = previous ? previous[field] : null;
+    const to = next[field];
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
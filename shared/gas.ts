@@ -0,0 +1,44 @@
+/**
+ * Gas estimates served by GET /api/network/gas, keyed by network id.
+ * Fees are decimal strings in gwei per unit of gas.
+ */
+
+// Reward percentiles requested from eth_feeHistory for the slow, standard and fast tiers
+export const PRIORITY_FEE_PERCENTILES = [10, 50, 90] as const;
+export type PriorityFeeTier = 'slow' | 'standard' | 'fast';
+
+export interface PriorityFeeEstimate {
+  percentile: number;
+  priorityFee: string;
+  total: string;                // Next base fee + priority fee
+  estimatedTimeBlocks: number;
+}
+
+export interface GasEstimate {
+  networkId: string;
+  chainId: number;
+  blockNumber: number;          // Newest block the estimate was computed from
+  baseFee: string;              // Base fee of the next block
+  priorityFee: string;          // Standard tier
+  total: string;
+  estimatedTimeBlocks: number;
+  estimatedTimeSeconds: number;
+  tiers: Record<PriorityFeeTier, PriorityFeeEstimate>;
+  nativeSymbol: string;
+  nativePriceUSD: number | null; // Only known when configured; testnet currencies have no market price
+  equivalentUSD: string | null;  // Cost of a plain transfer at the standard tier
+}
+
+export type GasEstimates = Record<string, GasEstimate>;
+
+// Gas used by a plain native transfer, the reference for equivalentUSD
+export const TRANSFER_GAS_LIMIT = 21000;
+
+// Cost of gasLimit units at the standard tier, in native currency and, when priced, USD
+export function estimateGasCost(estimate: GasEstimate, gasLimit: number) {
+  const native = parseFloat(estimate.total) * gasLimit / 1e9;
+  return {
+    native,
+    usd: estimate.nativePriceUSD === null ? null : native * estimate.nativePriceUSD
+  };
+}
@@ -0,0 +1,55 @@
+import { z } from "zod";
+
+/**
+ * LayerZero fee quotes served by GET /api/layerzero/fees. A quote covers one
+ * pathway: a plain governance message through LayerZeroV2Adapter, or an OFT
+ * token transfer when an amount is given. Fees are decimal strings in the
+ * source chain's native currency (or the LZ token for lzTokenFee).
+ */
+
+// lzReceive gas budgeted on the destination when no options are passed
+export const DEFAULT_LZ_RECEIVE_GAS = 200000;
+
+export const layerZeroFeeQuerySchema = z.object({
+  src: z.string().min(1),                                   // Source network id
+  dst: z.string().min(1),                                   // Destination network id
+  payloadSize: z.coerce.number().int().min(0).max(10000).default(32),
+  gasLimit: z.coerce.number().int().positive().default(DEFAULT_LZ_RECEIVE_GAS),
+  options: z.string().regex(/^0x([0-9a-fA-F]{2})*$/, "Options must be hex bytes").optional(),
+  amount: z.string().regex(/^\d+(\.\d+)?$/, "Amount must be a decimal number").optional(),
+  to: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address").optional(),
+  payInLzToken: z.enum(["true", "false"]).default("false").transform(value => value === "true"),
+});
+
+export type LayerZeroFeeQuery = z.input<typeof layerZeroFeeQuerySchema>;
+
+export type FeeQuoteKind = "message" | "transfer";
+
+export interface FeeComponent {
+  component: "protocol" | "dvn" | "executor";
+  source: string;            // Contract call the figure came from, e.g. "LayerZeroV2Adapter.quoteFee"
+  nativeFee: string;
+  lzTokenFee: string;
+}
+
+export interface LayerZeroFeeQuote {
+  kind: FeeQuoteKind;
+  srcNetworkId: string;
+  dstNetworkId: string;
+  dstEid: number;
+  payloadSize: number;
+  options: string;
+  nativeFee: string;         // What the sender pays: the endpoint quote
+  lzTokenFee: string;
+  nativeSymbol: string;
+  // The protocol fee, split into the DVNConfigManager's verification estimate and the remainder
+  components: FeeComponent[];
+  quotedAt: string;
+}
+
+// Type 3 executor options with a single lzReceive gas limit, as OptionsBuilder.addExecutorLzReceiveOption encodes them
+export function encodeLzReceiveOptions(gasLimit: number): string {
+  const gas = gasLimit.toString(16).padStart(32, "0");   // uint128
+  // TYPE_3, executor worker id 1, option size 17, OPTION_TYPE_LZRECEIVE 1
+  return `0x0003` + `01` + `0011` + `01` + gas;
+}
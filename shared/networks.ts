@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+/**
+ * Single registry of the networks OmniGovern is deployed on, shared by the
+ * server (providers, indexer, /api/layerzero/networks) and the client.
+ *
+ * LayerZero endpoint ids and the endpoint address match
+ * scripts/deploy-omnigovern-v2.js, which wired the deployed peers. OmniGovernor
+ * is still a LayerZero V1 app, so its cross-chain votes are keyed by the V1
+ * chain id instead.
+ */
+
+const addressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address");
+
+export const networkDefinitionSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Network ids are lower-case slugs"),
+  name: z.string().min(1),
+  chainId: z.number().int().positive(),            // EVM chain id
+  lzChainId: z.number().int().positive(),          // LayerZero V2 endpoint id (eid)
+  lzV1ChainId: z.number().int().positive().max(65535), // LayerZero V1 chain id (uint16), used by OmniGovernor
+  lzEndpoint: addressSchema,                       // LayerZero EndpointV2 address
+  rpcUrls: z.array(z.string().url()).min(1),       // Public RPCs, first one preferred
+  explorer: z.string().url(),
+  isHub: z.boolean(),                              // Hub chain for governance coordination
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/),
+  nativeCurrency: z.object({
+    name: z.string(),
+    symbol: z.string(),
+    decimals: z.number().int(),
+  }),
+});
+
+export type NetworkDefinition = z.infer<typeof networkDefinitionSchema>;
+
+export const NETWORK_REGISTRY: readonly NetworkDefinition[] = [
+  {
+    id: "sepolia",
+    name: "Ethereum Sepolia",
+    chainId: 11155111,
+    lzChainId: 40161,
+    lzV1ChainId: 10161,
+    lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://rpc.sepolia.org"],
+    explorer: "https://sepolia.etherscan.io",
+    isHub: true,
+    color: "#627EEA",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+  },
+  {
+    id: "amoy",
+    name: "Polygon Amoy",
+    chainId: 80002,
+    lzChainId: 40231,
+    lzV1ChainId: 10267,
+    lzEndpoint: "0x6EDCE65403992e310A62460808c4b910D972f10f",
+    rpcUrls: ["https://rpc-amoy.polygon.technology"],
+    explorer: "https://amoy.polygonscan.com",
+    isHub: false,
+    color: "#8247E5",
+    nativeCurrency: { name: "POL", symbol: "POL", decimals: 18 },
+  },
+];
+
+export class InvalidNetworkRegistryError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid network registry:\n- ${problems.join("\n- ")}`);
+    this.name = "InvalidNetworkRegistryError";
+  }
+}
+
+// Schema-check every entry and the cross-entry rules: unique ids and chain ids, exactly one hub
+export function validateNetworkRegistry(networks: readonly NetworkDefinition[]): void {
+  const problems: string[] = [];
+
+  networks.forEach((network, index) => {
+    const result = networkDefinitionSchema.safeParse(network);
+    if (!result.success) {
+      result.error.errors.forEach(issue => {
+        problems.push(`${network.id || `#${index}`}.${issue.path.join(".")}: ${issue.message}`);
+      });
+    }
+  });
+
+  const duplicates = (key: "id" | "chainId" | "lzChainId" | "lzV1ChainId") => {
+    const values = networks.map(n => n[key]);
+    return values.filter((value, i) => values.indexOf(value) !== i);
+  };
+  (["id", "chainId", "lzChainId", "lzV1ChainId"] as const).forEach(key => {
+    duplicates(key).forEach(value => problems.push(`Duplicate ${key} ${value}`));
+  });
+
+  const hubs = networks.filter(n => n.isHub);
+  if (hubs.length !== 1) {
+    problems.push(`Expected exactly one hub network, found ${hubs.length}`);
+  }
+
+  if (problems.length > 0) {
+    throw new InvalidNetworkRegistryError(problems);
+  }
+}
+
+export function getNetworkById(id: string): NetworkDefinition | undefined {
+  return NETWORK_REGISTRY.find(n => n.id === id);
+}
+
+export function requireNetwork(id: string): NetworkDefinition {
+  const network = getNetworkById(id);
+  if (!network) {
+    throw new Error(`Unknown network "${id}"`);
+  }
+  return network;
+}
+
+export function getNetworkByChainId(chainId: number): NetworkDefinition | undefined {
+  return NETWORK_REGISTRY.find(n => n.chainId === chainId);
+}
+
+export function getNetworkByLzChainId(lzChainId: number): NetworkDefinition | undefined {
+  return NETWORK_REGISTRY.find(n => n.lzChainId === lzChainId);
+}
+
+export function getHubNetwork(): NetworkDefinition {
+  return NETWORK_REGISTRY.find(n => n.isHub) || NETWORK_REGISTRY[0];
+}
+
+// Parameters for the wallet_addEthereumChain RPC method (EIP-3085)
+export function toAddEthereumChainParams(network: NetworkDefinition) {
+  return {
+    chainId: `0x${network.chainId.toString(16)}`,
+    chainName: network.name,
+    nativeCurrency: network.nativeCurrency,
+    rpcUrls: network.rpcUrls,
+    blockExplorerUrls: [network.explorer],
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * Lifecycle of a hub governor proposal, served by
+ * GET /api/proposal/:proposalId/lifecycle. Stage times the chain has already
+ * reached come from block timestamps; later ones are projected from the
+ * chain's measured block time and the timelock delay.
+ */
+
+// OpenZeppelin Governor ProposalState, in enum order
+export const PROPOSAL_STATES = ['Pending', 'Active', 'Canceled', 'Defeated', 'Succeeded', 'Queued', 'Expired', 'Executed'] as const;
+export type ProposalState = typeof PROPOSAL_STATES[number];
+
+// The path a successful proposal takes; the other states end it early
+export const LIFECYCLE_STAGES = ['Pending', 'Active', 'Succeeded', 'Queued', 'Executed'] as const;
+export type LifecycleStageName = typeof LIFECYCLE_STAGES[number];
+
+export type LifecycleStageStatus = 'completed' | 'current' | 'upcoming' | 'skipped';
+
+export interface LifecycleStage {
+  stage: LifecycleStageName;
+  status: LifecycleStageStatus;
+  startsAt: string;           // ISO time the stage began, or the earliest it can begin
+  estimated: boolean;         // startsAt is a projection rather than an observed block or ETA
+  block: number | null;       // Block the stage begins at, for the block-clocked stages
+}
+
+export interface ProposalLifecycle {
+  proposalId: string;
+  networkId: string;          // Hub network the governor lives on
+  state: ProposalState;
+  outcome: 'Canceled' | 'Defeated' | 'Expired' | null;  // Set when the proposal left the path early
+  currentBlock: number;
+  blockTimeSeconds: number;   // Measured average used for projections
+  votingDelay: number;        // Blocks
+  votingPeriod: number;       // Blocks
+  snapshotBlock: number;
+  deadlineBlock: number;
+  timelockDelay: number;      // Seconds the timelock holds a queued proposal
+  eta: string | null;         // ISO time a queued proposal becomes executable
+  stages: LifecycleStage[];
+  updatedAt: string;
+}
+
+export interface LifecycleReadings {
+  state: ProposalState;
+  currentBlock: number;
+  now: Date;                   // Timestamp of currentBlock
+  blockTimeSeconds: number;
+  votingDelay: number;
+  snapshotBlock: number;
+  deadlineBlock: number;
+  timelockDelay: number;
+  eta: Date | null;
+  blockTimestamps: Record<number, Date>;  // Observed times of already-mined stage blocks
+}
+
+// Wall-clock time of a block: observed if it has been mined, otherwise projected forward
+export function projectBlockTime(block: number, readings: Pick<LifecycleReadings, 'currentBlock' | 'now' | 'blockTimeSeconds' | 'blockTimestamps'>): { at: Date; estimated: boolean } {
+  const observed = readings.blockTimestamps[block];
+  if (observed) {
+    return { at: observed, estimated: false };
+  }
+  const seconds = (block - readings.currentBlock) * readings.blockTimeSeconds;
+  return { at: new Date(readings.now.getTime() + seconds * 1000), estimated: true };
+}
+
+// Index of the stage a proposal in each state is at; earlier stages are completed.
+// States that end the proposal early point at the first stage it never reached.
+const STAGE_REACHED_BY_STATE: Record<ProposalState, number> = {
+  Pending: 0,
+  Active: 1,
+  Canceled: 1,
+  Defeated: 2,
+  Succeeded: 2,
+  Queued: 3,
+  Expired: 4,
+  Executed: 4
+};
+
+/**
+ * Build the Pending → Active → Succeeded → Queued → Executed stages for a
+ * proposal. The governor counts Active from the block after the snapshot and
+ * ends voting after the deadline block; queueing is a manual step, so the
+ * Queued and Executed times of a proposal that is not queued yet are the
+ * earliest they could happen.
+ */
+export function buildLifecycleStages(readings: LifecycleReadings): LifecycleStage[] {
+  const { state } = readings;
+  const reached = STAGE_REACHED_BY_STATE[state];
+  const endedEarly = state === 'Canceled' || state === 'Defeated' || state === 'Expired';
+
+  const createdBlock = readings.snapshotBlock - readings.votingDelay;
+  const created = projectBlockTime(createdBlock, readings);
+  const active = projectBlockTime(readings.snapshotBlock + 1, readings);
+  const succeeded = projectBlockTime(readings.deadlineBlock + 1, readings);
+
+  // Queued at eta - delay once the timelock has the operation, otherwise no earlier than voting ends
+  const queued = readings.eta
+    ? { at: new Date(readings.eta.getTime() - readings.timelockDelay * 1000), estimated: true }
+    : { at: succeeded.at, estimated: true };
+  const executed = readings.eta
+    ? { at: readings.eta, estimated: true }  // Executable from the ETA; execution itself is a manual step
+    : { at: new Date(queued.at.getTime() + readings.timelockDelay * 1000), estimated: true };
+
+  const times = [
+    { ...created, block: createdBlock },
+    { ...active, block: readings.snapshotBlock + 1 },
+    { ...succeeded, block: readings.deadlineBlock + 1 },
+    { ...queued, block: null },
+    { ...executed, block: null }
+  ];
+
+  return LIFECYCLE_STAGES.map((stage, index) => {
+    let status: LifecycleStageStatus;
+    if (index < reached || (index === reached && state === 'Executed')) {
+      status = 'completed';
+    } else if (index === reached && !endedEarly) {
+      status = 'current';
+    } else {
+      status = endedEarly ? 'skipped' : 'upcoming';
+    }
+
+    return {
+      stage,
+      status,
+      startsAt: times[index].at.toISOString(),
+      estimated: times[index].estimated,
+      block: times[index].block
+    };
+  });
+}
@@ -0,0 +1,39 @@
+/**
+ * Dry run of a proposal's actions, served by POST /api/proposal/simulate for
+ * drafts and GET /api/proposal/:proposalId/simulation for stored proposals.
+ * Each action is called from the address that will execute it: the timelock
+ * on the hub, the executor on other chains.
+ */
+
+// "fork" actions ran in order as transactions on a local fork, so later ones
+// see the effects of earlier ones; "call" actions were each an eth_call
+// against the latest block.
+export type SimulationMode = 'fork' | 'call';
+
+export interface SimulatedEvent {
+  address: string;
+  name: string | null;                   // Null when no known ABI declares the event
+  args: Record<string, string> | null;
+  topics: string[];
+  data: string;
+}
+
+export interface ActionSimulation {
+  index: number;                          // Position of the action in the proposal
+  networkId: string;
+  target: string;
+  value: string;                          // Wei
+  calldata: string;
+  from: string;                           // Timelock or executor the call was made from
+  mode: SimulationMode;
+  success: boolean;
+  revertReason: string | null;            // Revert reason, or the node's error when the action could not run
+  gasUsed: string | null;                 // Estimated in call mode, measured on a fork
+  events: SimulatedEvent[] | null;        // Null when the node cannot trace a call
+}
+
+export interface ProposalSimulation {
+  success: boolean;                       // Every action succeeded
+  actions: ActionSimulation[];
+  simulatedAt: string;
+}
@@ -1,5 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
 
 // User schema
@@ -34,6 +34,15 @@ export const supplyChecks = pgTable("supply_checks", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Per-chain token supply read during a supply check, for charting supply over time
+export const supplySnapshots = pgTable("supply_snapshots", {
+  id: serial("id").primaryKey(),
+  supplyCheckId: integer("supply_check_id").notNull().references(() => supplyChecks.id),
+  networkId: text("network_id").notNull(),
+  supply: text("supply").notNull(), // Whole tokens as a decimal string
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Network Status schema
 export const networkStatus = pgTable("network_status", {
   id: serial("id").primaryKey(),
@@ -44,9 +53,34 @@ export const networkStatus = pgTable("network_status", {
   latency: integer("latency"),
   gasPrice: text("gas_price"),
   txCount: integer("tx_count"),
+  blockNumber: integer("block_number"),
+  blockAge: integer("block_age"), // Seconds between the latest block and the probe
+  blockTimeMs: integer("block_time_ms"), // Average time between the recent blocks the probe read
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Latest saved DVN security configuration per network
+export const dvnConfigs = pgTable("dvn_configs", {
+  id: serial("id").primaryKey(),
+  networkId: text("network_id").notNull().unique(),
+  securityLevel: integer("security_level").notNull(), // 1-4
+  enabledDvns: jsonb("enabled_dvns").$type<string[]>().notNull().default([]),
+  trustedEndpointMode: boolean("trusted_endpoint_mode").notNull().default(false),
+  multiSignatureVerification: boolean("multi_signature_verification").notNull().default(false),
+  securityScore: integer("security_score").notNull(),
+  updatedBy: text("updated_by"),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Audit trail of DVN configuration changes: one row per save that changed something
+export const dvnConfigChanges = pgTable("dvn_config_changes", {
+  id: serial("id").primaryKey(),
+  networkId: text("network_id").notNull(),
+  changedBy: text("changed_by"),
+  changes: jsonb("changes").$type<Record<string, { from: unknown; to: unknown }>>().notNull(), // Per field, null "from" on the first save
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // LayerZero Transaction schema for tracking cross-chain operations
 export const layerZeroTransactions = pgTable("layerzero_transactions", {
   id: serial("id").primaryKey(),
@@ -60,10 +94,46 @@ export const layerZeroTransactions = pgTable("layerzero_transactions", {
   error: text("error"), // Error message if failed
   walletAddress: text("wallet_address").notNull(),
   data: text("data"), // Additional JSON data
+  idempotencyKey: text("idempotency_key").unique(), // Idempotency-Key header of the registering request
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  // A source transaction is registered once; repeated registrations return the existing row
+  unique("layerzero_transactions_source_tx").on(table.sourceChain, table.sourceTxHash),
+]);
+
+// Status history for LayerZero transactions, one row per lifecycle transition
+export const layerZeroTransactionHistory = pgTable("layerzero_transaction_history", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").notNull().references(() => layerZeroTransactions.id),
+  fromStatus: text("from_status"), // Null for the initial status
+  toStatus: text("to_status").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Governance proposals, created through the API or indexed from OmniGovernor/OmniProposalExecutor events
+export const proposals = pgTable("proposals", {
+  id: serial("id").primaryKey(),
+  onChainId: text("on_chain_id"), // uint256 proposal id, null until the creation event is indexed
+  chain: text("chain").notNull(), // Network the proposal was created on
+  source: text("source").notNull().default("governor"), // governor, executor
+  title: text("title").notNull(),
+  description: text("description").notNull(),
+  proposer: text("proposer").notNull(),
+  targets: jsonb("targets").$type<string[]>().notNull().default([]),
+  values: jsonb("values").$type<string[]>().notNull().default([]), // wei amounts as decimal strings
+  calldatas: jsonb("calldatas").$type<string[]>().notNull().default([]),
+  snapshotBlock: integer("snapshot_block"),
+  deadlineBlock: integer("deadline_block"),
+  status: text("status").notNull().default("Pending"), // Governor ProposalState name, or Draft before it is submitted
+  chainStatuses: jsonb("chain_statuses").$type<Record<string, string>>().notNull().default({}), // Execution status per network
+  txHash: text("tx_hash"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("proposals_chain_source_on_chain_id").on(table.chain, table.source, table.onChainId),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
@@ -87,6 +157,12 @@ export const insertSupplyCheckSchema = createInsertSchema(supplyChecks).pick({
   details: true,
 });
 
+export const insertSupplySnapshotSchema = createInsertSchema(supplySnapshots).pick({
+  supplyCheckId: true,
+  networkId: true,
+  supply: true,
+});
+
 export const insertNetworkStatusSchema = createInsertSchema(networkStatus).pick({
   networkId: true,
   name: true,
@@ -95,6 +171,21 @@ export const insertNetworkStatusSchema = createInsertSchema(networkStatus).pick(
   latency: true,
   gasPrice: true,
   txCount: true,
+  blockNumber: true,
+  blockAge: true,
+  blockTimeMs: true,
+});
+
+export const insertDvnConfigSchema = createInsertSchema(dvnConfigs, {
+  enabledDvns: z.array(z.string()),
+}).pick({
+  networkId: true,
+  securityLevel: true,
+  enabledDvns: true,
+  trustedEndpointMode: true,
+  multiSignatureVerification: true,
+  securityScore: true,
+  updatedBy: true,
 });
 
 export const insertLayerZeroTransactionSchema = createInsertSchema(layerZeroTransactions).pick({
@@ -111,6 +202,50 @@ export const insertLayerZeroTransactionSchema = createInsertSchema(layerZeroTran
   updatedAt: true,
 });
 
+export const insertProposalSchema = createInsertSchema(proposals, {
+  targets: z.array(z.string()).optional(),
+  values: z.array(z.string()).optional(),
+  calldatas: z.array(z.string()).optional(),
+  chainStatuses: z.record(z.string()).optional(),
+}).pick({
+  onChainId: true,
+  chain: true,
+  source: true,
+  title: true,
+  description: true,
+  proposer: true,
+  targets: true,
+  values: true,
+  calldatas: true,
+  snapshotBlock: true,
+  deadlineBlock: true,
+  status: true,
+  chainStatuses: true,
+  txHash: true,
+});
+
+export const insertLayerZeroTransactionHistorySchema = createInsertSchema(layerZeroTransactionHistory).pick({
+  transactionId: true,
+  fromStatus: true,
+  toStatus: true,
+});
+
+// Select schemas: rows as the API returns them
+export const bridgeTransactionSchema = createSelectSchema(bridgeTransactions);
+export const supplyCheckSchema = createSelectSchema(supplyChecks);
+export const networkStatusSchema = createSelectSchema(networkStatus);
+export const dvnConfigChangeSchema = createSelectSchema(dvnConfigChanges, {
+  changes: z.record(z.object({ from: z.unknown(), to: z.unknown() })),
+});
+export const layerZeroTransactionSchema = createSelectSchema(layerZeroTransactions);
+export const layerZeroTransactionHistorySchema = createSelectSchema(layerZeroTransactionHistory);
+export const proposalSchema = createSelectSchema(proposals, {
+  targets: z.array(z.string()),
+  values: z.array(z.string()),
+  calldatas: z.array(z.string()),
+  chainStatuses: z.record(z.string()),
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
@@ -121,8 +256,21 @@ export type BridgeTransaction = typeof bridgeTransactions.$inferSelect;
 export type InsertSupplyCheck = z.infer<typeof insertSupplyCheckSchema>;
 export type SupplyCheck = typeof supplyChecks.$inferSelect;
 
+export type InsertSupplySnapshot = z.infer<typeof insertSupplySnapshotSchema>;
+export type SupplySnapshot = typeof supplySnapshots.$inferSelect;
+
 export type InsertNetworkStatus = z.infer<typeof insertNetworkStatusSchema>;
 export type NetworkStatus = typeof networkStatus.$inferSelect;
 
+export type InsertDvnConfig = z.infer<typeof insertDvnConfigSchema>;
+export type DvnConfig = typeof dvnConfigs.$inferSelect;
+export type DvnConfigChange = typeof dvnConfigChanges.$inferSelect;
+
 export type InsertLayerZeroTransaction = z.infer<typeof insertLayerZeroTransactionSchema>;
 export type LayerZeroTransaction = typeof layerZeroTransactions.$inferSelect;
+
+export type InsertLayerZeroTransactionHistory = z.infer<typeof insertLayerZeroTransactionHistorySchema>;
+export type LayerZeroTransactionHistory = typeof layerZeroTransactionHistory.$inferSelect;
+
+export type InsertProposal = z.infer<typeof insertProposalSchema>;
+export type Proposal = typeof proposals.$inferSelect;
\ No newline at end of file
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { getSecurityScore, securityRating, SecurityScoreOverflowError, type SecurityScoreInput } from "./securityScore";
+
+// Expected scores are worked through DVNConfigManager.getSecurityScore by hand
+function config(signatures: number[], trustedEndpointMode = false, multiSignatureVerification = false): SecurityScoreInput {
+  return { dvns: signatures.map(requiredSignatures => ({ requiredSignatures })), trustedEndpointMode, multiSignatureVerification };
+}
+
+describe("getSecurityScore", () => {
+  it("scores 0 without enabled DVNs, whatever else is switched on", () => {
+    const result = getSecurityScore(config([], true, true));
+    expect(result.score).toBe(0);
+    expect(result.rating).toBe("Low");
+  });
+
+  it("adds 10 per DVN and 5 per required signature", () => {
+    // 2 * 10 + (1 + 2) * 5
+    expect(getSecurityScore(config([1, 2])).score).toBe(35);
+  });
+
+  it("caps signature points at 30", () => {
+    // 2 * 10 + min(4 * 5 + 4 * 5, 30)
+    const result = getSecurityScore(config([4, 4]));
+    expect(result.score).toBe(50);
+    expect(result.components.find(c => c.key === "signatures")?.points).toBe(30);
+  });
+
+  it("adds 15 for trusted endpoint mode and 25 for multi-signature verification", () => {
+    // 1 * 10 + 1 * 5
+    expect(getSecurityScore(config([1], true)).score).toBe(30);
+    expect(getSecurityScore(config([1], false, true)).score).toBe(40);
+    expect(getSecurityScore(config([1], true, true)).score).toBe(55);
+  });
+
+  it("caps the score at 100", () => {
+    // 5 * 10 + 30 + 15 + 25 = 120
+    const result = getSecurityScore(config([2, 2, 2, 2, 2], true, true));
+    expect(result.score).toBe(100);
+    expect(result.rating).toBe("High");
+    expect(result.components.find(c => c.key === "cap")?.points).toBe(-20);
+  });
+
+  it("truncates the DVN count term to uint8 like the contract", () => {
+    // uint8(26 * 10) = 4, plus min(26 * 5, 30)
+    const result = getSecurityScore(config(new Array(26).fill(1)));
+    expect(result.components.find(c => c.key === "dvns")?.points).toBe(4);
+    expect(result.score).toBe(34);
+  });
+
+  it("throws where the contract's checked uint8 arithmetic reverts", () => {
+    // requiredSignatures * 5 > 255
+    expect(() => getSecurityScore(config([52]))).toThrow(SecurityScoreOverflowError);
+    // sigScore accumulates past 255 before the cap applies
+    expect(() => getSecurityScore(config([50, 2]))).toThrow(SecurityScoreOverflowError);
+    // uint8(25 * 10) + 30
+    expect(() => getSecurityScore(config(new Array(25).fill(1)))).toThrow(SecurityScoreOverflowError);
+  });
+});
+
+describe("securityRating", () => {
+  it("rates below 40 Low, below 70 Medium, otherwise High", () => {
+    expect([0, 39, 40, 69, 70, 100].map(securityRating)).toEqual(["Low", "Low", "Medium", "Medium", "High", "High"]);
+  });
+});
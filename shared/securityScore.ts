@@ -0,0 +1,112 @@
+/**
+ * DVN security score, computed exactly like DVNConfigManager.getSecurityScore
+ * so the server, the client and the contract agree on every pathway's rating.
+ *
+ *   10 points per enabled DVN
+ * +  5 points per required signature across those DVNs, capped at 30
+ * + 15 points for trusted endpoint mode
+ * + 25 points for multi-signature verification
+ *   capped at 100; no enabled DVNs scores 0
+ *
+ * The contract does this in uint8 arithmetic: the DVN count term is an
+ * explicit (truncating) uint8 conversion, every other step reverts on
+ * overflow, which surfaces here as SecurityScoreOverflowError.
+ */
+
+export const DVN_POINTS = 10;
+export const SIGNATURE_POINTS = 5;
+export const MAX_SIGNATURE_POINTS = 30;
+export const TRUSTED_ENDPOINT_POINTS = 15;
+export const MULTI_SIGNATURE_POINTS = 25;
+export const MAX_SECURITY_SCORE = 100;
+
+export type SecurityRating = "Low" | "Medium" | "High";
+
+export interface SecurityScoreInput {
+  dvns: { requiredSignatures: number }[];   // The enabled DVNs only
+  trustedEndpointMode: boolean;
+  multiSignatureVerification: boolean;
+}
+
+export interface SecurityScoreComponent {
+  key: "dvns" | "signatures" | "trustedEndpoint" | "multiSignature" | "cap";
+  label: string;
+  points: number;            // Negative for the cap, which takes points away
+  detail: string;
+}
+
+export interface SecurityScore {
+  score: number;
+  rating: SecurityRating;
+  components: SecurityScoreComponent[];
+}
+
+export class SecurityScoreOverflowError extends Error {
+  constructor(step: string) {
+    super(`getSecurityScore would revert: uint8 overflow in ${step}`);
+    this.name = "SecurityScoreOverflowError";
+  }
+}
+
+// Checked uint8 arithmetic, as Solidity ^0.8 does by default
+function uint8(value: number, step: string): number {
+  if (value > 255) throw new SecurityScoreOverflowError(step);
+  return value;
+}
+
+export function securityRating(score: number): SecurityRating {
+  return score < 40 ? "Low" : score < 70 ? "Medium" : "High";
+}
+
+export function getSecurityScore(input: SecurityScoreInput): SecurityScore {
+  if (input.dvns.length === 0) {
+    return {
+      score: 0,
+      rating: "Low",
+      components: [{ key: "dvns", label: "DVNs", points: 0, detail: "No DVNs enabled, so messages are not independently verified" }]
+    };
+  }
+
+  const components: SecurityScoreComponent[] = [];
+
+  // uint8(config.enabledDVNs.length * 10) truncates rather than reverting
+  let score = (input.dvns.length * DVN_POINTS) % 256;
+  components.push({
+    key: "dvns",
+    label: "DVNs",
+    points: score,
+    detail: `${input.dvns.length} enabled DVN${input.dvns.length === 1 ? "" : "s"} × ${DVN_POINTS}`
+  });
+
+  let signaturePoints = 0;
+  input.dvns.forEach(dvn => {
+    signaturePoints = uint8(signaturePoints + uint8(dvn.requiredSignatures * SIGNATURE_POINTS, "signature points"), "signature points");
+  });
+  const signatures = input.dvns.reduce((sum, dvn) => sum + dvn.requiredSignatures, 0);
+  const cappedSignaturePoints = Math.min(signaturePoints, MAX_SIGNATURE_POINTS);
+  score = uint8(score + cappedSignaturePoints, "score");
+  components.push({
+    key: "signatures",
+    label: "Required signatures",
+    points: cappedSignaturePoints,
+    detail: `${signatures} signature${signatures === 1 ? "" : "s"} × ${SIGNATURE_POINTS}` +
+      (signaturePoints > MAX_SIGNATURE_POINTS ? `, capped at ${MAX_SIGNATURE_POINTS}` : "")
+  });
+
+  if (input.trustedEndpointMode) {
+    score = uint8(score + TRUSTED_ENDPOINT_POINTS, "score");
+    components.push({ key: "trustedEndpoint", label: "Trusted endpoint mode", points: TRUSTED_ENDPOINT_POINTS, detail: "Only verified LayerZero endpoints are accepted" });
+  }
+
+  if (input.multiSignatureVerification) {
+    score = uint8(score + MULTI_SIGNATURE_POINTS, "score");
+    components.push({ key: "multiSignature", label: "Multi-signature verification", points: MULTI_SIGNATURE_POINTS, detail: "Messages need multiple signatures to validate" });
+  }
+
+  if (score > MAX_SECURITY_SCORE) {
+    components.push({ key: "cap", label: "Maximum score", points: MAX_SECURITY_SCORE - score, detail: `Scores are capped at ${MAX_SECURITY_SCORE}` });
+    score = MAX_SECURITY_SCORE;
+  }
+
+  return { score, rating: securityRating(score), components };
+}
@@ -0,0 +1,122 @@
+/**
+ * Sign-In with Ethereum (EIP-4361) messages, built by the client and parsed
+ * by the server before it checks the signature.
+ */
+
+export interface SiweMessageFields {
+  domain: string;            // Host the user is signing in to, e.g. "app.example.com:5000"
+  address: string;
+  statement?: string;
+  uri: string;
+  version: "1";
+  chainId: number;
+  nonce: string;
+  issuedAt: string;          // ISO 8601
+  expirationTime?: string;
+  notBefore?: string;
+}
+
+export const SIWE_STATEMENT = "Sign in to OmniGovern.";
+
+export class SiweMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SiweMessageError";
+  }
+}
+
+export function formatSiweMessage(fields: SiweMessageFields): string {
+  const lines = [
+    `${fields.domain} wants you to sign in with your Ethereum account:`,
+    fields.address,
+    "",
+    ...(fields.statement ? [fields.statement, ""] : []),
+    `URI: ${fields.uri}`,
+    `Version: ${fields.version}`,
+    `Chain ID: ${fields.chainId}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ];
+  if (fields.expirationTime) lines.push(`Expiration Time: ${fields.expirationTime}`);
+  if (fields.notBefore) lines.push(`Not Before: ${fields.notBefore}`);
+  return lines.join("\n");
+}
+
+const HEADER_SUFFIX = " wants you to sign in with your Ethereum account:";
+
+// Parses the subset of EIP-4361 that formatSiweMessage produces; unknown fields are rejected
+export function parseSiweMessage(message: string): SiweMessageFields {
+  const lines = message.split("\n");
+
+  if (!lines[0]?.endsWith(HEADER_SUFFIX)) {
+    throw new SiweMessageError("Missing sign-in header");
+  }
+  const domain = lines[0].slice(0, -HEADER_SUFFIX.length);
+  const address = lines[1];
+  if (!domain || !/^0x[a-fA-F0-9]{40}$/.test(address || "")) {
+    throw new SiweMessageError("Invalid domain or address");
+  }
+
+  const uriIndex = lines.findIndex(line => line.startsWith("URI: "));
+  if (uriIndex < 0) {
+    throw new SiweMessageError("Missing URI");
+  }
+  const statement = lines.slice(2, uriIndex).join("\n").trim() || undefined;
+
+  const fields: Record<string, string> = {};
+  const keys: Record<string, string> = {
+    "URI": "uri",
+    "Version": "version",
+    "Chain ID": "chainId",
+    "Nonce": "nonce",
+    "Issued At": "issuedAt",
+    "Expiration Time": "expirationTime",
+    "Not Before": "notBefore",
+  };
+  lines.slice(uriIndex).forEach(line => {
+    const separator = line.indexOf(": ");
+    const key = keys[line.slice(0, separator)];
+    if (separator < 0 || !key || key in fields) {
+      throw new SiweMessageError(`Unexpected line "${line}"`);
+    }
+    fields[key] = line.slice(separator + 2);
+  });
+
+  if (fields.version !== "1") {
+    throw new SiweMessageError("Unsupported message version");
+  }
+  if (!/^[a-zA-Z0-9]{8,}$/.test(fields.nonce || "")) {
+    throw new SiweMessageError("Nonce must be at least 8 alphanumeric characters");
+  }
+  const chainId = Number(fields.chainId);
+  if (!Number.isInteger(chainId) || chainId <= 0) {
+    throw new SiweMessageError("Invalid chain id");
+  }
+  [fields.issuedAt, fields.expirationTime, fields.notBefore].forEach(value => {
+    if (value !== undefined && isNaN(Date.parse(value))) {
+      throw new SiweMessageError(`Invalid timestamp "${value}"`);
+    }
+  });
+  if (!fields.issuedAt) {
+    throw new SiweMessageError("Missing issued-at time");
+  }
+
+  return {
+    domain,
+    address,
+    statement,
+    uri: fields.uri,
+    version: "1",
+    chainId,
+    nonce: fields.nonce,
+    issuedAt: fields.issuedAt,
+    expirationTime: fields.expirationTime,
+    notBefore: fields.notBefore,
+  };
+}
+
+// GET /api/auth/session
+export interface AuthSession {
+  authenticated: boolean;
+  address: string | null;
+}
@@ -0,0 +1,53 @@
+/**
+ * Cross-chain supply consistency results, shared by /api/verify-supply and
+ * the client. Amounts are decimal strings in whole tokens.
+ */
+
+export const SUPPLY_CHECK_STATUSES = ['Verified', 'Deviation', 'Reconciled'] as const;
+export type SupplyCheckStatus = typeof SUPPLY_CHECK_STATUSES[number];
+
+// Rates use the SupplyConsistencyChecker convention: basis points, denominator 10000
+export const DEVIATION_RATE_DENOMINATOR = 10000;
+
+export interface ChainSupplyReading {
+  networkId: string;
+  name: string;
+  supply: string;
+}
+
+export interface SupplyCheckResult {
+  status: SupplyCheckStatus;
+  chains: ChainSupplyReading[];
+  total: string;             // Sum of totalSupply() over every chain
+  expected: string;          // Expected global supply
+  deviation: string;         // total - expected, negative when supply is missing
+  deviationRate: number;     // |deviation| / expected in basis points
+  maxDeviationRate: number;  // Threshold in basis points
+  checkedAt: string;
+}
+
+// Stored as JSON in supplyChecks.details; older rows hold plain text
+export function parseSupplyCheckDetails(details: string | null | undefined): SupplyCheckResult | null {
+  if (!details) return null;
+  try {
+    const parsed = JSON.parse(details);
+    return parsed && Array.isArray(parsed.chains) ? parsed as SupplyCheckResult : null;
+  } catch {
+    return null;
+  }
+}
+
+// One supply check in GET /api/supply/history, with its per-chain readings
+export interface SupplyHistoryPoint {
+  checkId: number;
+  checkedAt: string;
+  event: string;
+  status: string;
+  total: string;
+  chains: Record<string, string>;  // Supply keyed by network id
+}
+
+export interface SupplyHistory {
+  points: SupplyHistoryPoint[];    // Oldest first
+  driftStartedAt: string | null;   // First check of the current run of deviations, if supply is drifting now
+}
@@ -0,0 +1,15 @@
+import type { LayerZeroTransaction } from "./schema";
+
+/**
+ * Row changes pushed over GET /api/transactions/stream (Server-Sent Events).
+ * Each change is sent as an SSE event named TRANSACTION_STREAM_EVENT with
+ * a JSON-encoded TransactionChangeEvent as its data.
+ */
+
+export const TRANSACTION_STREAM_EVENT = 'transaction';
+
+export interface TransactionChangeEvent<T = LayerZeroTransaction> {
+  kind: 'created' | 'updated';
+  transaction: T;
+  previousStatus: string | null;  // Null for created rows
+}
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+/**
+ * Query parameters and page shape for GET /api/transactions.
+ * Pages are keyset-paginated on (sort column, id) so rows inserted while a
+ * client is paging do not shift or duplicate results.
+ */
+
+export const TRANSACTION_SORT_FIELDS = ['createdAt', 'updatedAt'] as const;
+export type TransactionSortField = typeof TRANSACTION_SORT_FIELDS[number];
+
+export const DEFAULT_TRANSACTION_PAGE_SIZE = 25;
+export const MAX_TRANSACTION_PAGE_SIZE = 100;
+
+export const transactionQuerySchema = z.object({
+  walletAddress: z.string().optional(),
+  status: z.string().optional(),         // A transaction status, or "all"
+  type: z.string().optional(),
+  sourceChain: z.string().optional(),
+  destinationChain: z.string().optional(),
+  messageId: z.string().optional(),
+  from: z.coerce.date().optional(),      // createdAt lower bound, inclusive
+  to: z.coerce.date().optional(),        // createdAt upper bound, inclusive
+  sort: z.enum(TRANSACTION_SORT_FIELDS).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(MAX_TRANSACTION_PAGE_SIZE).default(DEFAULT_TRANSACTION_PAGE_SIZE),
+  cursor: z.string().optional(),
+});
+
+export type TransactionQuery = z.infer<typeof transactionQuerySchema>;
+
+export interface TransactionPage<T> {
+  items: T[];
+  nextCursor: string | null;  // Pass back as `cursor` for the next page; null on the last page
+}
+
+// Position of the last row of a page: its sort value (ms precision) and id
+export interface TransactionCursor {
+  value: string;
+  id: number;
+}
+
+export class InvalidCursorError extends Error {
+  constructor(cursor: string) {
+    super(`Invalid transaction cursor "${cursor}"`);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+const cursorSchema = z.object({
+  value: z.string().datetime(),
+  id: z.number().int(),
+});
+
+// Cursors are opaque to clients
+export function encodeTransactionCursor(cursor: TransactionCursor): string {
+  return btoa(JSON.stringify(cursor));
+}
+
+export function decodeTransactionCursor(cursor: string): TransactionCursor {
+  try {
+    return cursorSchema.parse(JSON.parse(atob(cursor)));
+  } catch {
+    throw new InvalidCursorError(cursor);
+  }
+}
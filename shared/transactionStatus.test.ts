@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  TRANSACTION_STATUSES,
+  TRANSACTION_TRANSITIONS,
+  InvalidTransitionError,
+  assertTransition,
+  canTransition,
+  isRetryableStatus,
+  isTerminalStatus
+} from "./transactionStatus";
+
+describe("canTransition", () => {
+  it("only lets transactions start as pending", () => {
+    expect(canTransition(null, "pending")).toBe(true);
+    TRANSACTION_STATUSES.filter(status => status !== "pending").forEach(status => {
+      expect(canTransition(null, status)).toBe(false);
+    });
+  });
+
+  it("allows every edge of the transition table", () => {
+    Object.entries(TRANSACTION_TRANSITIONS).forEach(([from, targets]) => {
+      targets.forEach(to => expect(canTransition(from, to)).toBe(true));
+    });
+  });
+
+  it("rejects every edge the table leaves out", () => {
+    Object.entries(TRANSACTION_TRANSITIONS).forEach(([from, targets]) => {
+      TRANSACTION_STATUSES
+        .filter(to => to !== from && !targets.includes(to))
+        .forEach(to => expect(canTransition(from, to)).toBe(false));
+    });
+  });
+
+  it("follows the lifecycle forward and never back", () => {
+    expect(canTransition("pending", "source_confirmed")).toBe(true);
+    expect(canTransition("source_confirmed", "in_flight")).toBe(true);
+    expect(canTransition("in_flight", "destination_confirmed")).toBe(true);
+    expect(canTransition("destination_confirmed", "completed")).toBe(true);
+
+    expect(canTransition("in_flight", "source_confirmed")).toBe(false);
+    expect(canTransition("pending", "in_flight")).toBe(false);
+    expect(canTransition("completed", "failed")).toBe(false);
+    expect(canTransition("completed", "pending")).toBe(false);
+  });
+
+  it("treats staying in the same status as a no-op", () => {
+    TRANSACTION_STATUSES.forEach(status => expect(canTransition(status, status)).toBe(true));
+  });
+
+  it("rejects unknown statuses on either side", () => {
+    expect(canTransition("pending", "in_progress")).toBe(false);
+    expect(canTransition("in_progress", "completed")).toBe(false);
+  });
+});
+
+describe("assertTransition", () => {
+  it("throws InvalidTransitionError for a rejected edge", () => {
+    expect(() => assertTransition("completed", "pending")).toThrow(InvalidTransitionError);
+    expect(() => assertTransition("completed", "pending")).toThrow('Cannot move transaction from "completed" to "pending"');
+    expect(() => assertTransition(null, "failed")).toThrow('Transactions must start as "pending", not "failed"');
+  });
+
+  it("passes for an allowed edge", () => {
+    expect(() => assertTransition("failed", "pending")).not.toThrow();
+  });
+});
+
+describe("isTerminalStatus", () => {
+  it("is true for completed and both failure states only", () => {
+    expect(TRANSACTION_STATUSES.filter(isTerminalStatus)).toEqual(["source_failed", "completed", "failed"]);
+  });
+});
+
+describe("isRetryableStatus", () => {
+  it("is true for the failure states only", () => {
+    expect(TRANSACTION_STATUSES.filter(isRetryableStatus)).toEqual(["source_failed", "failed"]);
+  });
+
+  it("is false for unknown statuses", () => {
+    expect(isRetryableStatus("in_progress")).toBe(false);
+  });
+});
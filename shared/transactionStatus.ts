@@ -0,0 +1,66 @@
+/**
+ * Lifecycle of a LayerZero transaction, shared by the server and the client
+ * so both agree on which status changes are legal.
+ */
+
+export const TRANSACTION_STATUSES = [
+  'pending',                // Initial state, transaction submitted but not confirmed
+  'source_confirmed',       // Transaction confirmed on source chain
+  'source_failed',          // Transaction failed on source chain
+  'in_flight',              // Message in flight across chains via LayerZero
+  'destination_confirmed',  // Transaction confirmed on destination chain
+  'completed',              // Transaction fully completed on all chains
+  'failed',                 // Transaction failed
+] as const;
+
+export type TransactionStatus = typeof TRANSACTION_STATUSES[number];
+
+// Every transaction starts here, and retries return here
+export const INITIAL_TRANSACTION_STATUS: TransactionStatus = 'pending';
+
+// Allowed next statuses for each status
+export const TRANSACTION_TRANSITIONS: Record<TransactionStatus, readonly TransactionStatus[]> = {
+  pending: ['source_confirmed', 'source_failed', 'completed', 'failed'],
+  source_confirmed: ['in_flight', 'completed', 'failed'],
+  source_failed: ['pending'],
+  in_flight: ['destination_confirmed', 'failed'],
+  destination_confirmed: ['completed', 'failed'],
+  completed: [],
+  failed: ['pending'],
+};
+
+export class InvalidTransitionError extends Error {
+  constructor(public from: string | null, public to: string) {
+    super(from === null
+      ? `Transactions must start as "${INITIAL_TRANSACTION_STATUS}", not "${to}"`
+      : `Cannot move transaction from "${from}" to "${to}"`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function isTransactionStatus(value: unknown): value is TransactionStatus {
+  return typeof value === 'string' && (TRANSACTION_STATUSES as readonly string[]).includes(value);
+}
+
+// Whether a transaction may move from one status to another; `from` is null on creation
+export function canTransition(from: string | null, to: string): boolean {
+  if (!isTransactionStatus(to)) return false;
+  if (from === null) return to === INITIAL_TRANSACTION_STATUS;
+  if (from === to) return true;
+  return isTransactionStatus(from) && TRANSACTION_TRANSITIONS[from].includes(to);
+}
+
+export function assertTransition(from: string | null, to: string): void {
+  if (!canTransition(from, to)) {
+    throw new InvalidTransitionError(from, to);
+  }
+}
+
+// Success or failure states that will not change on their own
+export function isTerminalStatus(status: string): boolean {
+  return status === 'completed' || status === 'failed' || status === 'source_failed';
+}
+
+export function isRetryableStatus(status: string): boolean {
+  return canTransition(status, INITIAL_TRANSACTION_STATUS) && status !== INITIAL_TRANSACTION_STATUS;
+}
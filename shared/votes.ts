@@ -0,0 +1,36 @@
+/**
+ * Vote tally types shared between /api/proposal/:id/votes and the client.
+ * Vote amounts are decimal strings in whole tokens.
+ */
+
+// Where a chain's votes were counted: directly on the hub governor, or relayed via receiveCrossChainVote
+export type VoteOrigin = 'local' | 'relayed';
+
+export interface ChainVotes {
+  chainId: string;         // Network id (e.g. 'sepolia')
+  chainName: string;
+  lzChainId: number;
+  origin: VoteOrigin;
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  totalVotes: string;
+  percentage: number;      // Share of all votes cast, 0-100
+  counted: boolean;        // False for relayed votes OmniGovernor.proposalVotes leaves out
+}
+
+// What OmniGovernor.proposalVotes reports, i.e. the votes that decide the proposal
+export interface AggregatedVotes {
+  forVotes: string;
+  againstVotes: string;
+  abstainVotes: string;
+  totalVotes: string;
+}
+
+export interface VoteTally {
+  proposalId: string;
+  hubChainId: string;
+  chains: ChainVotes[];
+  aggregate: AggregatedVotes;
+  updatedAt: string;
+}
@@ -0,0 +1,16 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Tests sit next to the code they cover as *.test.ts; the app's vite.config.ts is rooted at client/
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["{client/src,server,shared}/**/*.test.ts"],
+    environment: "node",
+  },
+});